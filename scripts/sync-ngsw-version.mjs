@@ -0,0 +1,21 @@
+/**
+ * Copies package.json "version" into ngsw-config.json appData.version,
+ * so the update prompt names the same release as the footer and error
+ * reports (APP_VERSION reads package.json directly).
+ *
+ * Runs before every `npm run build` ("prebuild" in package.json).
+ * Bump the version with `npm version <patch|minor|major>` - never edit
+ * ngsw-config.json by hand.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+
+const NGSW_CONFIG = 'ngsw-config.json';
+
+const { version } = JSON.parse(readFileSync('package.json', 'utf8'));
+const config = JSON.parse(readFileSync(NGSW_CONFIG, 'utf8'));
+
+if (config.appData?.version !== version) {
+  config.appData = { ...config.appData, version };
+  writeFileSync(NGSW_CONFIG, JSON.stringify(config, null, 2) + '\n');
+  console.log(`${NGSW_CONFIG}: appData.version → ${version}`);
+}
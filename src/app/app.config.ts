@@ -1,17 +1,64 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, isDevMode, ErrorHandler } from '@angular/core';
+import { ApplicationConfig, provideBrowserGlobalErrorListeners, isDevMode, ErrorHandler, inject, provideAppInitializer } from '@angular/core';
 import { provideRouter } from '@angular/router';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 
 import { routes } from './app.routes';
 import { provideServiceWorker } from '@angular/service-worker';
+import { provideState, provideStore } from '@ngrx/store';
 import { GlobalErrorHandler } from './core/handlers/global-error-handler';
+import { cartFeature } from './core/store/cart/cart.reducer';
+import { provideCartPersistence } from './core/store/cart/cart-persistence.service';
+import { provideCartSync } from './core/store/cart/cart-sync.service';
+import { AuthBackend } from './core/services/auth-backend';
+import { InMemoryAuthBackend } from './core/services/in-memory-auth-backend';
+import { AuthService } from './core/services/auth.service';
+import { authInterceptor } from './core/interceptors/auth.interceptor';
+import { ProductDataSource } from './core/services/product-data-source';
+import { InMemoryProductDataSource } from './core/services/in-memory-product-data-source';
+import { OrderBackend } from './core/services/order-backend';
+import { InMemoryOrderBackend } from './core/services/in-memory-order-backend';
+import { InventoryBackend } from './core/services/inventory-backend';
+import { InMemoryInventoryBackend } from './core/services/in-memory-inventory-backend';
+import { ReviewBackend } from './core/services/review-backend';
+import { InMemoryReviewBackend } from './core/services/in-memory-review-backend';
+import { PaymentProvider } from './core/services/payment-provider';
+import { FakePaymentProvider } from './core/services/fake-payment-provider';
+import { ErrorReportSink } from './core/services/error-report-sink';
+import { InMemoryErrorReportSink } from './core/services/in-memory-error-report-sink';
+import { provideErrorReporting } from './core/services/error-reporting.service';
+import { provideTranslations } from './core/services/translation.service';
+import { provideAppUpdates } from './core/services/app-update.service';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     { provide: ErrorHandler, useClass: GlobalErrorHandler },
-    provideRouter(routes), provideServiceWorker('ngsw-worker.js', {
+    // Error reports: kept in memory by default - swap in HttpErrorReportSink to send them
+    { provide: ErrorReportSink, useClass: InMemoryErrorReportSink },
+    provideErrorReporting(),
+    // Demo backends: orders, stock, reviews and payments all live in memory and
+    // update the in-memory catalog, so the catalog must be in-memory too.
+    // Swap in HttpProductDataSource only together with real backends for the rest.
+    { provide: AuthBackend, useClass: InMemoryAuthBackend },
+    { provide: OrderBackend, useClass: InMemoryOrderBackend },
+    { provide: InventoryBackend, useClass: InMemoryInventoryBackend },
+    { provide: ReviewBackend, useClass: InMemoryReviewBackend },
+    { provide: PaymentProvider, useClass: FakePaymentProvider },
+    provideAppInitializer(() => inject(AuthService).restoreSession()),
+    provideHttpClient(withInterceptors([authInterceptor])),
+    { provide: ProductDataSource, useExisting: InMemoryProductDataSource },
+    provideStore(),
+    provideState(cartFeature),
+    provideCartPersistence(),
+    provideCartSync(),
+    provideRouter(routes),
+    // Runtime language switching + translated route titles
+    provideTranslations(),
+    provideServiceWorker('ngsw-worker.js', {
             enabled: !isDevMode(),
             registrationStrategy: 'registerWhenStable:30000'
-          })
+          }),
+    // Periodic update checks + "new version available" prompt
+    provideAppUpdates()
   ]
 };
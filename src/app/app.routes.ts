@@ -1,6 +1,9 @@
 import { Routes } from '@angular/router';
 import { authGuard } from './core/guards/auth.guard';
 import { productsResolver } from './core/resolvers/products.resolver';
+import { productResolver } from './core/resolvers/product.resolver';
+import { checkoutGuard } from './core/guards/checkout.guard';
+import { roleMatchGuard } from './core/guards/role.guard';
 
 /**
  * Application Routes Configuration
@@ -12,6 +15,10 @@ import { productsResolver } from './core/resolvers/products.resolver';
  * 4. pathMatch - 'full' ensures exact match
  * 5. canActivate - Guards to protect routes
  * 6. resolve - Pre-fetch data before component loads
+ * 7. data.roles - Role-based access with roleGuard / roleMatchGuard
+ *    e.g. { canMatch: [roleMatchGuard], data: { roles: ['admin'] } }
+ * 8. title - a translation key ('title.cart'), translated by
+ *    TranslatedTitleStrategy in the active language
  */
 export const routes: Routes = [
   {
@@ -23,32 +30,98 @@ export const routes: Routes = [
     // HOME - No guard (public route)
     path: 'home',
     loadComponent: () => import('./features/home/home.component').then(m => m.HomeComponent),
-    title: 'Home | Angular Shop'
+    title: 'title.home'
   },
   {
     // PRODUCTS - Protected + Resolver
     path: 'products',
     loadComponent: () => import('./features/products/products.component').then(m => m.ProductsComponent),
-    title: 'Products | Angular Shop',
+    title: 'title.products',
     canActivate: [authGuard],           // ← Guard: must be authenticated
-    resolve: { products: productsResolver }  // ← Resolver: pre-fetch products
+    resolve: { products: productsResolver },  // ← Resolver: pre-fetch products
+    runGuardsAndResolvers: 'paramsOrQueryParamsChange'  // ← Re-resolve on ?page/sort/filter changes
+  },
+  {
+    // PRODUCT DETAIL - Protected + Resolver (missing product → 404)
+    path: 'products/:id',
+    loadComponent: () => import('./features/products/product-detail/product-detail.component').then(m => m.ProductDetailComponent),
+    // No static title - ProductDetailComponent sets it from the product name
+    canActivate: [authGuard],
+    resolve: { product: productResolver }
+  },
+  {
+    // SEARCH - Protected, query in the URL (/search?q=lamp)
+    path: 'search',
+    loadComponent: () => import('./features/search/search-results.component').then(m => m.SearchResultsComponent),
+    title: 'title.search',
+    canActivate: [authGuard]
   },
   {
     // CART - Protected
     path: 'cart',
     loadComponent: () => import('./features/cart/cart.component').then(m => m.CartComponent),
-    title: 'Cart | Angular Shop',
+    title: 'title.cart',
     canActivate: [authGuard]            // ← Guard: must be authenticated
   },
+  {
+    // WISHLIST - No guard: guests keep a local list, merged on login
+    path: 'wishlist',
+    loadComponent: () => import('./features/wishlist/wishlist.component').then(m => m.WishlistComponent),
+    title: 'title.wishlist'
+  },
+  {
+    // ORDER CONFIRMATION - Protected (cart is already empty here)
+    path: 'checkout/confirmation/:orderId',
+    loadComponent: () => import('./features/checkout/confirmation/order-confirmation.component').then(m => m.OrderConfirmationComponent),
+    title: 'title.orderConfirmed',
+    canActivate: [authGuard]
+  },
+  {
+    // CHECKOUT - Protected + non-empty cart, multi-step child routes
+    path: 'checkout',
+    loadChildren: () => import('./features/checkout/checkout.routes').then(m => m.checkoutRoutes),
+    title: 'title.checkout',
+    canActivate: [authGuard, checkoutGuard]
+  },
+  {
+    // ACCOUNT - Protected, order history + detail
+    path: 'account',
+    redirectTo: 'account/orders',
+    pathMatch: 'full'
+  },
+  {
+    path: 'account/orders',
+    loadChildren: () => import('./features/orders/orders.routes').then(m => m.ordersRoutes),
+    canActivate: [authGuard]
+  },
+  {
+    // ADMIN - canMatch: non-admins never download the admin bundle
+    path: 'admin',
+    loadChildren: () => import('./features/admin/admin.routes').then(m => m.adminRoutes),
+    canMatch: [roleMatchGuard],
+    data: { roles: ['admin'] }
+  },
   {
     // LOGIN - No guard (need this to login!)
     path: 'login',
     loadComponent: () => import('./features/auth/login/login.component').then(m => m.LoginComponent),
-    title: 'Login | Angular Shop'
+    title: 'title.login'
+  },
+  {
+    // FORBIDDEN - Redirect target of the role guards
+    path: 'forbidden',
+    loadComponent: () => import('./features/forbidden/forbidden.component').then(m => m.ForbiddenComponent),
+    title: 'title.forbidden'
+  },
+  {
+    // NOT FOUND - Explicit target for resolver redirects
+    path: 'not-found',
+    loadComponent: () => import('./features/not-found/not-found.component').then(m => m.NotFoundComponent),
+    title: 'title.notFound'
   },
   {
     path: '**',
     loadComponent: () => import('./features/not-found/not-found.component').then(m => m.NotFoundComponent),
-    title: '404 - Page Not Found'
+    title: 'title.notFound'
   }
 ];
@@ -1,10 +1,26 @@
 import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { provideServiceWorker } from '@angular/service-worker';
+import { provideState, provideStore } from '@ngrx/store';
 import { App } from './app';
+import { AuthBackend } from './core/services/auth-backend';
+import { InMemoryAuthBackend } from './core/services/in-memory-auth-backend';
+import { InMemoryProductDataSource } from './core/services/in-memory-product-data-source';
+import { ProductDataSource } from './core/services/product-data-source';
+import { cartFeature } from './core/store/cart/cart.reducer';
 
 describe('App', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [App],
+      providers: [
+        provideRouter([]),
+        provideStore(),
+        provideState(cartFeature),
+        provideServiceWorker('ngsw-worker.js', { enabled: false }),
+        { provide: AuthBackend, useClass: InMemoryAuthBackend },
+        { provide: ProductDataSource, useExisting: InMemoryProductDataSource }
+      ]
     }).compileComponents();
   });
 
@@ -14,10 +30,10 @@ describe('App', () => {
     expect(app).toBeTruthy();
   });
 
-  it('should render title', async () => {
+  it('should render the shop name in the header', async () => {
     const fixture = TestBed.createComponent(App);
     await fixture.whenStable();
     const compiled = fixture.nativeElement as HTMLElement;
-    expect(compiled.querySelector('h1')?.textContent).toContain('Hello, angularlearning');
+    expect(compiled.querySelector('.logo')?.textContent).toContain('Angular Shop');
   });
 });
@@ -2,6 +2,9 @@ import { Component, signal } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 import { HeaderComponent } from './shared/components/header/header.component';
 import { FooterComponent } from './shared/components/footer/footer.component';
+import { OfflineBannerComponent } from './shared/components/offline-banner/offline-banner.component';
+import { ToastContainerComponent } from './shared/components/toast-container/toast-container.component';
+import { UpdatePromptComponent } from './shared/components/update-prompt/update-prompt.component';
 
 /**
  * App Root Component
@@ -14,7 +17,7 @@ import { FooterComponent } from './shared/components/footer/footer.component';
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [RouterOutlet, HeaderComponent, FooterComponent],
+  imports: [RouterOutlet, HeaderComponent, OfflineBannerComponent, FooterComponent, ToastContainerComponent, UpdatePromptComponent],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
@@ -0,0 +1,17 @@
+import { StockIssue } from '../../features/checkout/models/inventory.model';
+import { Translate, translateEnglish } from '../i18n/translate';
+import { ValidationError } from './validation-error';
+
+/**
+ * Thrown when a cart asks for more units than are available.
+ * The message is safe to show; issues says exactly which lines
+ * to lower so the cart page can offer a one-click fix.
+ */
+export class InsufficientStockError extends ValidationError {
+  constructor(readonly issues: StockIssue[], translate: Translate = translateEnglish) {
+    super(issues.length === 1
+      ? translate('stock.onlyAvailable', { count: issues[0].available, name: issues[0].productName })
+      : translate('stock.itemsUnavailable', { count: issues.length }));
+    this.name = 'InsufficientStockError';
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * An error whose message is SAFE to show to the user as-is,
+ * e.g. "Invalid email or password".
+ *
+ * Throw it for problems the user can fix. Everything else gets a
+ * generic message from classifyError() - raw messages and stack
+ * traces never reach customers.
+ */
+export class ValidationError extends Error {
+  constructor(message: string, readonly field?: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
@@ -1,6 +1,8 @@
 import { inject } from '@angular/core';
 import { Router, CanActivateFn, UrlTree } from '@angular/router';
 import { Observable } from 'rxjs';
+import { AuthService } from '../services/auth.service';
+import { LoggerService } from '../services/logger.service';
 
 /**
  * ===========================================
@@ -29,33 +31,11 @@ import { Observable } from 'rxjs';
  * Modern Angular (14+) uses FUNCTIONAL guards (not classes)
  */
 
-/**
- * Simulated authentication state
- * In real app, this would come from an AuthService
- */
-let isAuthenticated = false;
-
-/**
- * Helper function to toggle auth state (for demo purposes)
- */
-export function toggleAuth(): boolean {
-  isAuthenticated = !isAuthenticated;
-  console.log(`🔐 Auth state changed: ${isAuthenticated ? 'LOGGED IN' : 'LOGGED OUT'}`);
-  return isAuthenticated;
-}
-
-/**
- * Helper to check current auth state
- */
-export function getAuthState(): boolean {
-  return isAuthenticated;
-}
-
 /**
  * AUTH GUARD - Functional Guard (Modern Angular 14+)
  * 
  * This guard:
- * 1. Checks if user is authenticated
+ * 1. Checks if user is authenticated (AuthService.isAuthenticated signal)
  * 2. If YES → allows navigation (returns true)
  * 3. If NO → redirects to login (returns UrlTree)
  * 
@@ -73,15 +53,17 @@ export const authGuard: CanActivateFn = (
   
   // inject() works in functional guards!
   const router = inject(Router);
+  const authService = inject(AuthService);
+  const log = inject(LoggerService).for('AuthGuard');
   
-  console.log('🛡️ [AuthGuard] Checking access to:', state.url);
+  log.debug('🛡️ Checking access to:', state.url);
   
-  if (isAuthenticated) {
-    console.log('✅ [AuthGuard] Access GRANTED');
+  if (authService.isAuthenticated()) {
+    log.debug('✅ Access GRANTED');
     return true;
   }
   
-  console.log('❌ [AuthGuard] Access DENIED - Redirecting to login');
+  log.info('❌ Access DENIED - Redirecting to login');
   
   // Create UrlTree to redirect to login
   // Pass the attempted URL as a query param so we can redirect back after login
@@ -0,0 +1,67 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { catchError, map, of } from 'rxjs';
+import { InsufficientStockError } from '../errors/insufficient-stock-error';
+import { CHECKOUT_STEPS, CheckoutStep } from '../../features/checkout/models/checkout.model';
+import { CheckoutStateService } from '../services/checkout-state.service';
+import { InventoryService } from '../services/inventory.service';
+import { LoggerService } from '../services/logger.service';
+import { NotificationService } from '../services/notification.service';
+import { TranslationService } from '../services/translation.service';
+import { CartStore } from '../store/cart/cart.store';
+
+/**
+ * ===========================================
+ * CHECKOUT GUARDS
+ * ===========================================
+ *
+ * checkoutGuard        → no checkout with an empty cart (→ /cart)
+ *                        reserves the cart's stock; not enough? (→ /cart,
+ *                        InventoryService.issues() says which lines)
+ * checkoutStepGuard()  → no skipping steps (→ first unfinished step)
+ *
+ * Usage in routes:
+ * { path: 'checkout', canActivate: [authGuard, checkoutGuard], ... }
+ * { path: 'review', canActivate: [checkoutStepGuard('review')], ... }
+ */
+
+export const checkoutGuard: CanActivateFn = () => {
+  const router = inject(Router);
+  const cartStore = inject(CartStore);
+
+  const log = inject(LoggerService).for('CheckoutGuard');
+  const notifications = inject(NotificationService);
+  const translation = inject(TranslationService);
+
+  if (cartStore.isEmpty()) {
+    log.info('🛒 Cart is empty - Redirecting to cart');
+    return router.createUrlTree(['/cart']);
+  }
+
+  return inject(InventoryService).reserveCart().pipe(
+    map(() => true),
+    catchError(error => {
+      if (error instanceof InsufficientStockError) {
+        log.info('📦 Not enough stock - Redirecting to cart');
+      } else {
+        notifications.error(translation.translate('stock.checkFailed'));
+      }
+      return of(router.createUrlTree(['/cart']));
+    })
+  );
+};
+
+// Guard FACTORY - returns a guard configured for one step
+export function checkoutStepGuard(step: CheckoutStep): CanActivateFn {
+  return () => {
+    const router = inject(Router);
+    const checkoutState = inject(CheckoutStateService);
+
+    if (checkoutState.canEnter(step)) {
+      return true;
+    }
+
+    const next = [...CHECKOUT_STEPS].reverse().find(candidate => checkoutState.canEnter(candidate)) ?? 'shipping';
+    return router.createUrlTree(['/checkout', next]);
+  };
+}
@@ -0,0 +1,62 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, CanMatchFn, Router, UrlTree } from '@angular/router';
+import { UserRole } from '../../features/auth/models/user.model';
+import { AuthService } from '../services/auth.service';
+import { LoggerService } from '../services/logger.service';
+
+/**
+ * ===========================================
+ * ROLE GUARDS - Authorization (WHO may enter)
+ * ===========================================
+ *
+ * authGuard answers "Is someone signed in?"
+ * Role guards answer "Is THIS user allowed here?"
+ *
+ * Roles are declared on the route via `data`:
+ * {
+ *   path: 'admin',
+ *   canMatch: [roleMatchGuard],
+ *   data: { roles: ['admin'] },
+ *   loadChildren: () => import('./features/admin/admin.routes')
+ * }
+ *
+ * canActivate vs canMatch:
+ * ------------------------
+ * - roleGuard (canActivate)    → route is matched, lazy code IS downloaded,
+ *                                then access is checked
+ * - roleMatchGuard (canMatch)  → checked BEFORE matching, so a customer
+ *                                never even downloads the admin bundle
+ *
+ * Results:
+ * - Signed out     → /login?returnUrl=...
+ * - Missing role   → /forbidden (403 page)
+ * - Has any role   → true
+ */
+
+export const roleGuard: CanActivateFn = (route, state) =>
+  checkRoles(route.data['roles'], state.url);
+
+export const roleMatchGuard: CanMatchFn = (route, segments) =>
+  checkRoles(route.data?.['roles'], '/' + segments.map(segment => segment.path).join('/'));
+
+function checkRoles(roles: UserRole[] | undefined, url: string): boolean | UrlTree {
+  const router = inject(Router);
+  const authService = inject(AuthService);
+  const log = inject(LoggerService).for('RoleGuard');
+
+  log.debug('🛡️ Checking roles for:', url, roles);
+
+  if (!authService.isAuthenticated()) {
+    return router.createUrlTree(['/login'], {
+      queryParams: { returnUrl: url }
+    });
+  }
+
+  // No roles declared → any signed-in user may enter
+  if (!roles?.length || authService.hasAnyRole(roles)) {
+    return true;
+  }
+
+  log.info('⛔ Access FORBIDDEN - Missing role');
+  return router.createUrlTree(['/forbidden']);
+}
@@ -0,0 +1,32 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { ValidationError } from '../errors/validation-error';
+import { classifyError } from './error-classifier';
+
+describe('classifyError', () => {
+  it('should map HTTP statuses to friendly messages', () => {
+    const notFound = classifyError(new HttpErrorResponse({ status: 404, error: 'stack trace here' }));
+    const server = classifyError(new HttpErrorResponse({ status: 503 }));
+
+    expect(notFound).toMatchObject({ kind: 'http', key: 'http:404', status: 404 });
+    expect(notFound.message).not.toContain('stack');
+    expect(server.title).toBe('Server error');
+  });
+
+  it('should treat status 0 and navigator offline as offline', () => {
+    expect(classifyError(new HttpErrorResponse({ status: 0 })).kind).toBe('offline');
+    expect(classifyError(new Error('boom'), false).kind).toBe('offline');
+  });
+
+  it('should show ValidationError messages as-is, even inside a promise rejection', () => {
+    const result = classifyError({ rejection: new ValidationError('Quantity must be at least 1') });
+
+    expect(result).toMatchObject({ kind: 'validation', message: 'Quantity must be at least 1' });
+  });
+
+  it('should never expose raw messages of unknown errors', () => {
+    const result = classifyError(new TypeError("Cannot read properties of undefined (reading 'id')"));
+
+    expect(result.kind).toBe('unknown');
+    expect(result.message).toBe('An unexpected error occurred. Please try again.');
+  });
+});
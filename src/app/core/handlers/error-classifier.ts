@@ -0,0 +1,81 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { ValidationError } from '../errors/validation-error';
+import { TranslationKey } from '../i18n/en';
+import { Translate, translateEnglish } from '../i18n/translate';
+
+/**
+ * ===========================================
+ * ERROR CLASSIFIER - Any error → friendly message
+ * ===========================================
+ *
+ *   HttpErrorResponse (status 0)   → offline / network
+ *   HttpErrorResponse (4xx / 5xx)  → http, message per status
+ *   navigator.onLine === false     → offline
+ *   ValidationError                → validation, its own message
+ *   anything else                  → unknown, generic message
+ *
+ * `key` identifies "the same problem" so bursts can be deduplicated.
+ * Titles and messages are English unless a Translate is passed:
+ *
+ *   classifyError(error, navigator.onLine, translation.translator)
+ */
+
+export type ErrorKind = 'http' | 'offline' | 'validation' | 'unknown';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  key: string;
+  title: string;
+  message: string;     // Always safe to show to customers
+  status?: number;
+}
+
+const HTTP_MESSAGES: Record<number, TranslationKey> = {
+  400: 'error.invalidInput',
+  401: 'error.sessionExpired',
+  403: 'error.forbidden',
+  404: 'error.notFound',
+  408: 'error.timeout',
+  409: 'error.conflict',
+  422: 'error.invalidInput',
+  429: 'error.tooManyRequests'
+};
+
+export function classifyError(error: unknown, isOnline = true, translate: Translate = translateEnglish): ClassifiedError {
+  const cause = unwrapError(error);
+
+  if (cause instanceof ValidationError) {
+    return { kind: 'validation', key: `validation:${cause.message}`, title: translate('error.validationTitle'), message: cause.message };
+  }
+
+  if (!isOnline || (cause instanceof HttpErrorResponse && cause.status === 0)) {
+    return {
+      kind: 'offline',
+      key: 'offline',
+      title: translate('error.offlineTitle'),
+      message: translate('error.offline')
+    };
+  }
+
+  if (cause instanceof HttpErrorResponse) {
+    const status = cause.status;
+    const message = translate(HTTP_MESSAGES[status] ?? (status >= 500 ? 'error.server' : 'error.request'));
+    const title = translate(status >= 500 ? 'error.serverTitle' : 'error.requestTitle');
+    return { kind: 'http', key: `http:${status}`, title, message, status };
+  }
+
+  return {
+    kind: 'unknown',
+    key: `unknown:${cause instanceof Error ? cause.name + cause.message : String(cause)}`,
+    title: translate('error.unknownTitle'),
+    message: translate('error.unknown')
+  };
+}
+
+// Promise rejections reach ErrorHandler wrapped as { rejection }
+export function unwrapError(error: unknown): unknown {
+  if (typeof error === 'object' && error !== null && 'rejection' in error) {
+    return (error as { rejection: unknown }).rejection;
+  }
+  return error;
+}
@@ -1,9 +1,40 @@
-import { ErrorHandler, Injectable } from "@angular/core";
+import { DOCUMENT, ErrorHandler, Injectable, inject } from "@angular/core";
+import { ErrorReportingService } from "../services/error-reporting.service";
+import { LoggerService } from "../services/logger.service";
+import { NotificationService } from "../services/notification.service";
+import { TranslationService } from "../services/translation.service";
+import { classifyError } from "./error-classifier";
 
+/**
+ * Global Error Handler - last line of defence
+ *
+ * 1. Logs the FULL error for developers (LoggerService, error level)
+ * 2. Classifies it into a friendly message (never the raw message)
+ * 3. Reports it (batched, with context) via ErrorReportingService
+ * 4. Shows a toast - identical errors in a burst collapse into one toast
+ *
+ * Errors a screen can handle itself (form errors, declined payments)
+ * should be caught there and shown inline instead.
+ */
 @Injectable()
 export class GlobalErrorHandler implements ErrorHandler {
-  handleError(error: any): void {
-    console.error('Global Error:', error);
-    alert(error.message || 'An unexpected error occurred. Please try again later.');
+  private readonly notifications = inject(NotificationService);
+  private readonly reporting = inject(ErrorReportingService);
+  private readonly translation = inject(TranslationService);
+  private readonly log = inject(LoggerService).for('GlobalErrorHandler');
+  private readonly navigator = inject(DOCUMENT).defaultView?.navigator;
+
+  handleError(error: unknown): void {
+    this.log.error('Unhandled error:', error);
+
+    const classified = classifyError(error, this.navigator?.onLine ?? true, this.translation.translator);
+    this.reporting.report(error, classified);
+
+    this.notifications.show({
+      type: classified.kind === 'offline' || classified.kind === 'validation' ? 'warning' : 'error',
+      title: classified.title,
+      message: classified.message,
+      key: classified.key
+    });
   }
 }
@@ -0,0 +1,550 @@
+import { Dictionary } from './en';
+
+/**
+ * ===========================================
+ * ARABIC - Right-to-left, six plural forms
+ * ===========================================
+ *
+ * Arabic plurals depend on the number: 0 → zero, 1 → one, 2 → two,
+ * 3-10 → few, 11-99 → many, 100+ → other (Intl.PluralRules('ar')).
+ */
+export const AR: Dictionary = {
+  // HEADER / NAVIGATION
+  'nav.home': 'الرئيسية',
+  'nav.products': 'المنتجات',
+  'nav.cart': {
+    '=0': 'السلة (فارغة)',
+    one: 'السلة (منتج واحد)',
+    two: 'السلة (منتجان)',
+    few: 'السلة ({count} منتجات)',
+    many: 'السلة ({count} منتجًا)',
+    other: 'السلة ({count} منتج)'
+  },
+  'nav.wishlist': 'المفضلة ({count})',
+  'nav.orders': 'طلباتي',
+  'nav.admin': 'الإدارة',
+  'header.welcomeBack': 'مرحبًا بعودتك، {name}!',
+  'header.welcomeGuest': 'مرحبًا أيها الزائر!',
+  'header.roleAdmin': 'مدير',
+  'header.roleStaff': 'موظف',
+  'header.login': 'تسجيل الدخول',
+  'header.logout': 'تسجيل الخروج',
+  'header.currency': 'العملة',
+  'header.language': 'اللغة',
+  'search.placeholder': 'ابحث عن المنتجات...',
+  'search.title': 'نتائج البحث',
+  'search.showingFor': 'عرض النتائج المطابقة لـ',
+  'search.searching': 'جارٍ البحث...',
+  'search.noResults': 'لم يتم العثور على منتجات.',
+  'search.noResultsFor': 'لم يتم العثور على منتجات لـ "{query}".',
+  'search.browseAll': 'تصفح كل المنتجات',
+
+  // FOOTER
+  'footer.tagline': 'تعلّم Angular بالممارسة',
+  'footer.copyright': '© {year} متجر Angular الإلكتروني',
+  'footer.version': 'الإصدار {version}',
+
+  // LOGIN
+  'login.title': 'تسجيل الدخول',
+  'login.subtitle': 'مرحبًا بعودتك! يرجى إدخال بياناتك.',
+  'login.email': 'البريد الإلكتروني',
+  'login.emailPlaceholder': 'أدخل بريدك الإلكتروني',
+  'login.password': 'كلمة المرور',
+  'login.passwordPlaceholder': 'أدخل كلمة المرور',
+  'login.rememberMe': 'تذكرني',
+  'login.forgotPassword': 'نسيت كلمة المرور؟',
+  'login.submit': 'تسجيل الدخول',
+  'login.submitting': 'جارٍ تسجيل الدخول...',
+  'login.noAccount': 'ليس لديك حساب؟',
+  'login.signUp': 'أنشئ حسابًا',
+  'login.invalidCredentials': 'البريد الإلكتروني أو كلمة المرور غير صحيحة. جرّب test@test.com / 123456',
+
+  // FORM VALIDATION
+  'validation.required': '{field} مطلوب',
+  'validation.email': 'يرجى إدخال بريد إلكتروني صالح',
+  'validation.minlength': {
+    one: 'الحد الأدنى حرف واحد',
+    two: 'الحد الأدنى حرفان',
+    few: 'الحد الأدنى {count} أحرف',
+    many: 'الحد الأدنى {count} حرفًا',
+    other: 'الحد الأدنى {count} حرف'
+  },
+  'validation.maxlength': {
+    one: 'الحد الأقصى حرف واحد',
+    two: 'الحد الأقصى حرفان',
+    few: 'الحد الأقصى {count} أحرف',
+    many: 'الحد الأقصى {count} حرفًا',
+    other: 'الحد الأقصى {count} حرف'
+  },
+  'validation.fieldRequired': 'هذا الحقل مطلوب',
+
+  // HOME
+  'home.tagline': 'أتقن مفاهيم Angular من خلال أمثلة عملية',
+  'home.explore': 'استكشف العرض التوضيحي',
+  'home.topicsCovered': 'الموضوعات المشمولة',
+  'home.clickToExplore': '(انقر للاستكشاف)',
+  'home.topic': 'الموضوع',
+  'home.keyConcepts': 'المفاهيم الأساسية',
+  'home.quickNav': 'تنقل سريع',
+
+  // PRODUCTS
+  'products.title': 'منتجاتنا',
+  'products.subtitle': 'تعلّم @Input() و@Output() واكتشاف التغييرات',
+  'products.controlPanel': '🎮 لوحة التحكم (المكوّن الأب)',
+  'products.inputDemos': 'أمثلة @Input():',
+  'products.showRatings': 'إظهار التقييمات',
+  'products.hideRatings': 'إخفاء التقييمات',
+  'products.toggleFeatured': 'تبديل المنتج المميز (المعرّف: {id})',
+  'products.cartOutput': 'السلة (وصلت عبر @Output):',
+  'products.category': 'الفئة',
+  'products.allCategories': 'الكل',
+  'products.sortBy': 'ترتيب حسب',
+  'products.sortFeatured': 'المميزة',
+  'products.sortPriceAsc': 'السعر: من الأقل إلى الأعلى',
+  'products.sortPriceDesc': 'السعر: من الأعلى إلى الأقل',
+  'products.sortRating': 'الأعلى تقييمًا',
+  'products.sortNameAsc': 'الاسم: أ–ي',
+  'products.sortNameDesc': 'الاسم: ي–أ',
+  'products.minPrice': 'أدنى سعر $',
+  'products.maxPrice': 'أعلى سعر $',
+  'products.rating': 'التقييم',
+  'products.anyRating': 'أي تقييم',
+  'products.ratingAndUp': '{rating}★ فأكثر',
+  'products.inStockOnly': 'المتوفر فقط',
+  'products.clearFilters': 'مسح',
+  'products.loading': 'جارٍ تحميل المنتجات من الخدمة...',
+  'products.refreshToRetry': 'حدّث الصفحة للمحاولة مرة أخرى',
+  'products.noMatches': 'لا توجد منتجات تطابق عوامل التصفية هذه',
+  'products.pageInfo': {
+    '=0': 'لا توجد منتجات · الصفحة {page} من {pages}',
+    one: 'منتج واحد · الصفحة {page} من {pages}',
+    two: 'منتجان · الصفحة {page} من {pages}',
+    few: '{count} منتجات · الصفحة {page} من {pages}',
+    many: '{count} منتجًا · الصفحة {page} من {pages}',
+    other: '{count} منتج · الصفحة {page} من {pages}'
+  },
+  'products.previous': '‹ السابق',
+  'products.next': 'التالي ›',
+  'products.perPage': '{size} / صفحة',
+  'products.reloadFailed': 'تغيّر الكتالوج لكن تعذّرت إعادة تحميله.',
+  'products.featured': '⭐ مميز',
+  'products.total': 'الإجمالي:',
+  'products.viewDetails': 'عرض التفاصيل',
+  'products.addToCart': 'أضف إلى السلة',
+  'products.unavailable': 'غير متوفر',
+  'products.backToProducts': '‹ العودة إلى المنتجات',
+  'products.showImage': 'عرض الصورة {number}',
+  'products.addToCartFor': 'أضف إلى السلة · {amount}',
+  'products.added': 'تمت إضافة {count} × {name} إلى سلتك',
+  'category.electronics': 'إلكترونيات',
+  'category.clothing': 'ملابس',
+  'category.books': 'كتب',
+  'category.home': 'المنزل',
+
+  // STOCK
+  'stock.inStock': '✓ متوفر',
+  'stock.outOfStock': '✗ نفدت الكمية',
+  'stock.low': {
+    one: 'بقيت قطعة واحدة فقط',
+    two: 'بقيت قطعتان فقط',
+    few: 'بقيت {count} قطع فقط',
+    many: 'بقيت {count} قطعة فقط',
+    other: 'بقيت {count} قطعة فقط'
+  },
+  'stock.onlyAvailable': 'المتوفر {count} × {name} فقط.',
+  'stock.itemsUnavailable': {
+    one: 'منتج واحد في سلتك لم يعد متوفرًا بالكمية المطلوبة.',
+    two: 'منتجان في سلتك لم يعودا متوفرين بالكمية المطلوبة.',
+    few: '{count} منتجات في سلتك لم تعد متوفرة بالكمية المطلوبة.',
+    many: '{count} منتجًا في سلتك لم تعد متوفرة بالكمية المطلوبة.',
+    other: '{count} منتج في سلتك لم تعد متوفرة بالكمية المطلوبة.'
+  },
+  'stock.reservationExpired': 'انتهت مدة حجزك. يرجى مراجعة سلتك والمحاولة مرة أخرى.',
+  'stock.checkFailed': 'تعذّر التحقق من المخزون الآن. يرجى المحاولة مرة أخرى.',
+
+  // REVIEWS
+  'reviews.heading': 'آراء العملاء',
+  'reviews.outOf5': 'من 5',
+  'reviews.starsLabel': '{rating} من 5 نجوم',
+  'reviews.count': {
+    '=0': 'لا توجد مراجعات',
+    one: 'مراجعة واحدة',
+    two: 'مراجعتان',
+    few: '{count} مراجعات',
+    many: '{count} مراجعة',
+    other: '{count} مراجعة'
+  },
+  'reviews.none': 'لا توجد مراجعات بعد. كن أول من يكتب مراجعة!',
+  'reviews.yours': 'مراجعتك',
+  'reviews.hiddenNote': 'أخفى أحد المشرفين هذه المراجعة. لا يراها أحد غيرك.',
+  'reviews.signInToWrite': 'سجّل الدخول لكتابة مراجعة.',
+  'reviews.loadError': 'تعذّر تحميل المراجعات. يرجى إعادة تحميل الصفحة.',
+  'reviews.loading': 'جارٍ تحميل المراجعات...',
+  'reviews.formTitle': 'اكتب مراجعة',
+  'reviews.yourRating': 'تقييمك',
+  'reviews.stars': {
+    one: 'نجمة واحدة',
+    two: 'نجمتان',
+    few: '{count} نجوم',
+    many: '{count} نجمة',
+    other: '{count} نجمة'
+  },
+  'reviews.chooseRating': 'يرجى اختيار تقييم',
+  'reviews.text': 'مراجعتك (اختياري)',
+  'reviews.textPlaceholder': 'ما الذي أعجبك أو لم يعجبك؟',
+  'reviews.submit': 'إرسال المراجعة',
+  'reviews.submitting': 'جارٍ الإرسال...',
+  'reviews.signInRequired': 'يرجى تسجيل الدخول لكتابة مراجعة.',
+  'reviews.ratingRequired': 'يرجى اختيار تقييم من نجمة واحدة إلى 5 نجوم.',
+  'reviews.textTooLong': 'يجب ألا تتجاوز المراجعة {max} حرف.',
+  'reviews.duplicate': 'لقد كتبت مراجعة لهذا المنتج من قبل.',
+
+  // WISHLIST
+  'wishlist.title': 'المفضلة',
+  'wishlist.added': 'أُضيف في {date}',
+  'wishlist.outOfStock': 'نفدت الكمية',
+  'wishlist.moveToCart': 'نقل إلى السلة',
+  'wishlist.remove': 'إزالة',
+  'wishlist.savedItems': 'المنتجات المحفوظة: {count}',
+  'wishlist.clear': 'إفراغ المفضلة',
+  'wishlist.empty': 'قائمة المفضلة فارغة',
+  'wishlist.browse': 'تصفح المنتجات',
+  'wishlist.moved': 'تم نقل {name} إلى سلتك.',
+  'wishlist.unavailable': '{name} غير متوفر حاليًا.',
+  'wishlist.moveFailed': 'تعذّر نقل المنتج. يرجى المحاولة مرة أخرى.',
+
+  // CART
+  'cart.title': 'سلة التسوق',
+  'cart.stockIssues': 'بعض المنتجات لم تعد متوفرة بالكمية التي طلبتها:',
+  'cart.soldOut': 'نفدت الكمية',
+  'cart.onlyAvailable': 'المتوفر {count} فقط',
+  'cart.youAskedFor': '(طلبت {count})',
+  'cart.fixStockIssues': 'تحديث سلتي',
+  'cart.remove': 'إزالة',
+  'cart.totalItems': 'إجمالي المنتجات: {count}',
+  'cart.subtotal': 'المجموع الفرعي',
+  'cart.shipping': 'الشحن',
+  'cart.shippingAtCheckout': 'يُحسب عند الدفع',
+  'cart.free': 'مجاني',
+  'cart.tax': 'الضريبة ({region}، {rate})',
+  'cart.total': 'الإجمالي: {amount}',
+  'cart.currencyNote': 'الأسعار معروضة بعملة {currency} للعرض فقط - سيتم الدفع بعملة {base}. يُقرَّب كل مبلغ على حدة، لذلك قد لا يساوي مجموع البنود الإجمالي تمامًا.',
+  'cart.freeShippingHint': 'أضف {amount} للحصول على شحن عادي مجاني.',
+  'cart.couponCode': 'رمز القسيمة',
+  'cart.applyCoupon': 'تطبيق',
+  'cart.checkout': 'المتابعة إلى الدفع',
+  'cart.clear': 'إفراغ السلة',
+  'cart.empty': 'سلتك فارغة',
+  'cart.continueShopping': 'متابعة التسوق',
+
+  // PRICING
+  'pricing.coupon': 'القسيمة {code}',
+  'promotion.booksSale': 'تخفيض الكتب: خصم 15٪',
+  'promotion.tshirt3for2': 'القمصان: اشترِ 2 واحصل على 1 مجانًا',
+  'coupon.unknown': '"{code}" ليس رمز قسيمة صالحًا.',
+  'coupon.expired': 'انتهت صلاحية القسيمة {code} في {date}.',
+  'coupon.categoriesOnly': 'القسيمة {code} تنطبق فقط على: {categories}.',
+  'coupon.notApplicable': 'القسيمة {code} لا تنطبق على أي منتج في سلتك.',
+  'coupon.minimumNotMet': 'تتطلب القسيمة {code} مجموعًا فرعيًا لا يقل عن {minimum} - أضف {missing}.',
+
+  // CHECKOUT
+  'checkout.title': 'الدفع',
+  'checkout.stepShipping': 'الشحن',
+  'checkout.stepDelivery': 'التوصيل',
+  'checkout.stepReview': 'المراجعة',
+  'checkout.stepPayment': 'الدفع',
+  'checkout.orderSummary': 'ملخص الطلب',
+  'checkout.items': {
+    '=0': 'لا توجد منتجات',
+    one: 'منتج واحد',
+    two: 'منتجان',
+    few: '{count} منتجات',
+    many: '{count} منتجًا',
+    other: '{count} منتج'
+  },
+  'checkout.subtotal': 'المجموع الفرعي: {amount}',
+  'checkout.reservedUntil': 'المنتجات محجوزة حتى {time}',
+  'checkout.editCart': 'تعديل السلة',
+  'checkout.back': '‹ رجوع',
+  'checkout.edit': 'تعديل',
+  'checkout.subtotalLabel': 'المجموع الفرعي',
+  'checkout.delivery': 'التوصيل',
+  'checkout.free': 'مجاني',
+  'checkout.tax': 'الضريبة',
+  'checkout.taxRate': 'الضريبة ({rate})',
+  'checkout.total': 'الإجمالي',
+  'checkout.paidWith': 'تم الدفع بـ {brand} •••• {last4}',
+  'shipping.title': 'عنوان الشحن',
+  'shipping.fullName': 'الاسم الكامل',
+  'shipping.address': 'العنوان',
+  'shipping.addressLine2': 'الشقة، الجناح، إلخ (اختياري)',
+  'shipping.city': 'المدينة',
+  'shipping.postalCode': 'الرمز البريدي',
+  'shipping.country': 'الدولة',
+  'shipping.selectCountry': 'اختر دولة',
+  'shipping.phone': 'الهاتف (اختياري)',
+  'shipping.backToCart': '‹ العودة إلى السلة',
+  'shipping.continue': 'المتابعة إلى التوصيل',
+  'shipping.invalidPostalCode': 'يرجى إدخال رمز بريدي صالح',
+  'shipping.invalidPhone': 'يرجى إدخال رقم هاتف صالح',
+  'delivery.title': 'طريقة التوصيل',
+  'delivery.required': 'يرجى اختيار طريقة التوصيل',
+  'delivery.continue': 'المتابعة إلى المراجعة',
+  'delivery.standard': 'عادي',
+  'delivery.standardDescription': '5–7 أيام عمل',
+  'delivery.express': 'سريع',
+  'delivery.expressDescription': '1–2 يوم عمل',
+  'delivery.pickup': 'الاستلام من المتجر',
+  'delivery.pickupDescription': 'جاهز غدًا',
+  'review.title': 'راجع طلبك',
+  'review.items': 'المنتجات',
+  'review.shipTo': 'الشحن إلى',
+  'review.continue': 'المتابعة إلى الدفع',
+  'payment.title': 'الدفع',
+  'payment.verifyCard': 'تحقق من بطاقتك',
+  'payment.verificationCode': 'رمز التحقق',
+  'payment.cancel': 'إلغاء',
+  'payment.verify': 'تحقق',
+  'payment.verifying': 'جارٍ التحقق...',
+  'payment.holderName': 'الاسم على البطاقة',
+  'payment.cardNumber': 'رقم البطاقة',
+  'payment.expiry': 'تاريخ الانتهاء',
+  'payment.cvc': 'رمز CVC',
+  'payment.reviewCart': 'راجع سلتك',
+  'payment.pay': 'ادفع {amount}',
+  'payment.processing': 'جارٍ المعالجة...',
+  'payment.invalidCardNumber': 'يرجى إدخال رقم بطاقة صالح',
+  'payment.expiryFormat': 'استخدم الصيغة MM/YY',
+  'payment.cardExpired': 'انتهت صلاحية هذه البطاقة',
+  'payment.invalidCvc': 'يجب أن يتكون رمز CVC من 3 أو 4 أرقام',
+  'payment.challenge': 'أرسل البنك رمز تحقق. (تلميح: {code})',
+  'payment.declined': 'تم رفض بطاقتك.',
+  'payment.insufficientFunds': 'الرصيد في بطاقتك غير كافٍ.',
+  'payment.verificationFailed': 'فشل التحقق من البطاقة.',
+  'payment.challengeError': 'تعذّر إكمال التحقق من البطاقة. يرجى المحاولة مرة أخرى.',
+  'payment.providerUnreachable': 'تعذّر الوصول إلى مزود الدفع. يرجى المحاولة مرة أخرى.',
+  'payment.detailsMissing': 'بيانات الشحن ناقصة. يرجى الرجوع والتحقق منها - لم يتم خصم أي مبلغ.',
+  'payment.notCharged': '{message} لم يتم خصم أي مبلغ.',
+  'payment.captureFailed': 'تعذّر تحصيل المبلغ - لم يتم خصم أي مبلغ. يرجى المحاولة مرة أخرى.',
+  'payment.refunded': 'تعذّر إتمام الطلب، لذلك تم استرداد المبلغ. يرجى المحاولة مرة أخرى.',
+  'payment.refundFailed': 'تم خصم المبلغ لكن تعذّر إتمام الطلب. اضغط "ادفع" للمحاولة مرة أخرى - لن يُخصم المبلغ مرتين.',
+  'payment.totalChanged': 'تغيّر المبلغ الإجمالي بعد تحصيل الدفعة، لذلك تم استردادها. يرجى الدفع مرة أخرى.',
+  'confirmation.thanks': 'شكرًا لطلبك!',
+  'confirmation.orderNumber': 'رقم طلبك هو',
+  'confirmation.delivery': 'توصيل {option}',
+  'confirmation.shippingTo': 'الشحن إلى {name}، {city}',
+
+  // ORDERS
+  'orders.title': 'طلباتي',
+  'orders.empty': 'لم تقدّم أي طلبات بعد.',
+  'orders.startShopping': 'ابدأ التسوق',
+  'orders.viewDetails': 'عرض التفاصيل',
+  'orders.reorder': 'إعادة الطلب',
+  'orders.adding': 'جارٍ الإضافة...',
+  'orders.addingToCart': 'جارٍ الإضافة إلى السلة...',
+  'orders.loading': 'جارٍ تحميل طلباتك...',
+  'orders.viewCart': 'عرض السلة',
+  'orders.reorderSkipped': {
+    '=0': 'لم تتم إضافة أي منتج إلى سلتك. لم تعد متوفرة: {skipped}.',
+    one: 'تمت إضافة منتج واحد إلى سلتك. لم تعد متوفرة: {skipped}.',
+    two: 'تمت إضافة منتجين إلى سلتك. لم تعد متوفرة: {skipped}.',
+    few: 'تمت إضافة {count} منتجات إلى سلتك. لم تعد متوفرة: {skipped}.',
+    many: 'تمت إضافة {count} منتجًا إلى سلتك. لم تعد متوفرة: {skipped}.',
+    other: 'تمت إضافة {count} منتج إلى سلتك. لم تعد متوفرة: {skipped}.'
+  },
+  'orders.reorderFailed': 'تعذّرت إعادة الطلب الآن. يرجى المحاولة مرة أخرى.',
+  'orders.emptyCart': 'سلتك فارغة - أضف منتجًا قبل تقديم الطلب',
+  'orders.backToOrders': '‹ العودة إلى الطلبات',
+  'orders.order': 'الطلب {id}',
+  'orders.placed': 'تاريخ الطلب {date}',
+  'orders.shippingAddress': 'عنوان الشحن',
+  'orderStatus.placed': 'تم الطلب',
+  'orderStatus.paid': 'مدفوع',
+  'orderStatus.shipped': 'تم الشحن',
+  'orderStatus.delivered': 'تم التوصيل',
+  'orderStatus.cancelled': 'ملغى',
+
+  // ADMIN
+  'admin.productsTitle': 'إدارة المنتجات',
+  'admin.reviewsLink': 'المراجعات',
+  'admin.importExportLink': 'استيراد / تصدير',
+  'admin.newProductLink': '+ منتج جديد',
+  'admin.name': 'الاسم',
+  'admin.category': 'الفئة',
+  'admin.price': 'السعر',
+  'admin.rating': 'التقييم',
+  'admin.stock': 'المخزون',
+  'admin.stockFor': 'الكمية المتوفرة من {name}',
+  'admin.deleteConfirm': 'حذف؟',
+  'admin.yes': 'نعم',
+  'admin.no': 'لا',
+  'admin.edit': 'تعديل',
+  'admin.delete': 'حذف',
+  'admin.noProducts': 'لا توجد منتجات بعد.',
+  'admin.productsLoadError': 'تعذّر تحميل المنتجات. يرجى إعادة تحميل الصفحة.',
+  'admin.loadingProducts': 'جارٍ تحميل المنتجات...',
+  'admin.productDeleted': 'تم حذف المنتج.',
+  'admin.changeFailed': 'تعذّر حفظ التغيير. يرجى المحاولة مرة أخرى.',
+  'admin.backToProducts': '‹ العودة إلى المنتجات',
+  'admin.editProduct': 'تعديل المنتج',
+  'admin.newProduct': 'منتج جديد',
+  'admin.priceLabel': 'السعر ($)',
+  'admin.selectCategory': 'اختر فئة',
+  'admin.imageUrl': 'رابط الصورة',
+  'admin.ratingLabel': 'التقييم (0–5)',
+  'admin.unitsInStock': 'الكمية المتوفرة',
+  'admin.description': 'الوصف (اختياري)',
+  'admin.cancel': 'إلغاء',
+  'admin.saving': 'جارٍ الحفظ...',
+  'admin.saveChanges': 'حفظ التغييرات',
+  'admin.createProduct': 'إنشاء المنتج',
+  'admin.ratingRange': 'يجب أن يكون التقييم بين 0 و5',
+  'admin.stockRange': 'يجب أن يكون المخزون بين 0 و{max}',
+  'admin.priceRange': 'يجب أن يكون السعر بين 0.01$ و{max}$',
+  'admin.stockWholeNumber': 'يجب أن يكون المخزون عددًا صحيحًا',
+  'admin.imagePattern': 'يرجى إدخال رابط صورة يبدأ بـ http(s)',
+  'admin.productSaved': 'تم حفظ "{name}".',
+  'admin.productSaveFailed': 'تعذّر حفظ المنتج. يرجى المحاولة مرة أخرى.',
+  'admin.importTitle': 'استيراد / تصدير المنتجات',
+  'admin.export': 'تصدير',
+  'admin.exportHint': 'نزّل الكتالوج كاملًا لتعديله في جدول بيانات.',
+  'admin.exportCsv': 'تصدير CSV',
+  'admin.exportJson': 'تصدير JSON',
+  'admin.import': 'استيراد',
+  'admin.importHint': 'ارفع ملف .csv أو .json. الصفوف التي تحمل معرّفًا موجودًا تحدّث ذلك المنتج، والصفوف بلا معرّف تنشئ منتجات جديدة. ستظهر لك معاينة قبل حفظ أي شيء.',
+  'admin.chooseFile': 'اختر ملفًا...',
+  'admin.working': 'جارٍ العمل...',
+  'admin.toCreate': '{count} للإنشاء',
+  'admin.toUpdate': '{count} للتحديث',
+  'admin.withErrors': '{count} بها أخطاء (تم تخطيها)',
+  'admin.row': 'الصف',
+  'admin.product': 'المنتج',
+  'admin.action': 'الإجراء',
+  'admin.problems': 'المشكلات',
+  'admin.actionCreate': 'إنشاء',
+  'admin.actionUpdate': 'تحديث',
+  'admin.actionInvalid': 'غير صالح',
+  'admin.noRows': 'لا يحتوي الملف على صفوف منتجات.',
+  'admin.importRows': {
+    '=0': 'لا توجد صفوف للاستيراد',
+    one: 'استيراد صف واحد',
+    two: 'استيراد صفين',
+    few: 'استيراد {count} صفوف',
+    many: 'استيراد {count} صفًا',
+    other: 'استيراد {count} صف'
+  },
+  'admin.imported': 'تم الاستيراد: {created} جديد، {updated} محدّث.',
+  'admin.rowFailed': 'فشل الصف {row}: {message}',
+  'admin.exportFailed': 'تعذّر تصدير الكتالوج. يرجى المحاولة مرة أخرى.',
+  'admin.fileUnreadable': 'تعذّرت قراءة الملف. يرجى اختياره مرة أخرى.',
+  'admin.checkFailed': 'تعذّرت مطابقة الملف مع الكتالوج. يرجى المحاولة مرة أخرى.',
+  'admin.importFailed': 'تعذّر إكمال الاستيراد. يرجى المحاولة مرة أخرى.',
+  'admin.reviewsTitle': 'مراجعة التقييمات',
+  'admin.productsLink': 'المنتجات',
+  'admin.author': 'الكاتب',
+  'admin.review': 'المراجعة',
+  'admin.date': 'التاريخ',
+  'admin.status': 'الحالة',
+  'admin.productNumber': 'المنتج رقم {id}',
+  'admin.hideReviewBy': 'إخفاء مراجعة {name}',
+  'admin.publishReviewBy': 'نشر مراجعة {name}',
+  'admin.published': 'منشورة',
+  'admin.hidden': 'مخفية',
+  'admin.noReviews': 'لا توجد مراجعات بعد.',
+  'admin.reviewsLoadError': 'تعذّر تحميل المراجعات. يرجى إعادة تحميل الصفحة.',
+  'admin.loadingReviews': 'جارٍ تحميل المراجعات...',
+  'admin.reviewHidden': 'تم إخفاء المراجعة.',
+  'admin.reviewPublished': 'تم نشر المراجعة.',
+  'import.empty': 'الملف فارغ',
+  'import.missingColumns': 'أعمدة مفقودة: {columns}',
+  'import.invalidJson': 'الملف ليس JSON صالحًا',
+  'import.notAnArray': 'المتوقع مصفوفة JSON من المنتجات',
+  'import.invalidId': 'معرّف غير صالح "{id}"',
+  'import.duplicateId': 'معرّف مكرر {id}',
+  'import.unknownId': 'معرّف غير معروف {id} (اترك المعرّف فارغًا لإنشاء منتج)',
+  'import.nameRequired': 'الاسم مطلوب',
+  'import.priceNotANumber': 'السعر "{price}" ليس رقمًا',
+  'import.priceNotPositive': 'يجب أن يكون السعر أكبر من 0',
+  'import.unknownCategory': 'فئة غير معروفة "{category}" (المتوقع: {categories})',
+  'import.imageUrl': 'يجب أن تكون الصورة رابط http(s)',
+  'import.ratingRange': 'يجب أن يكون التقييم رقمًا من 0 إلى 5',
+  'import.stockWholeNumber': 'يجب أن يكون المخزون "{stock}" عددًا صحيحًا يساوي 0 أو أكثر',
+
+  // OFFLINE / CART SYNC
+  'offline.message': 'أنت غير متصل - يُعرض الكتالوج المحفوظ في {savedAt}.',
+  'offline.noSnapshot': 'أنت غير متصل - قد لا تُحمَّل بعض الصفحات حتى تعود للاتصال.',
+  'offline.pending': {
+    one: 'ستتم مزامنة تغيير واحد في السلة عند عودة الاتصال.',
+    two: 'ستتم مزامنة تغييرين في السلة عند عودة الاتصال.',
+    few: 'ستتم مزامنة {count} تغييرات في السلة عند عودة الاتصال.',
+    many: 'ستتم مزامنة {count} تغييرًا في السلة عند عودة الاتصال.',
+    other: 'ستتم مزامنة {count} تغيير في السلة عند عودة الاتصال.'
+  },
+  'cartSync.synced': {
+    one: 'تمت مزامنة تغيير السلة الذي أجريته دون اتصال.',
+    two: 'تمت مزامنة تغييرَي السلة اللذين أجريتهما دون اتصال.',
+    few: 'تمت مزامنة {count} تغييرات في السلة أجريتها دون اتصال.',
+    many: 'تمت مزامنة {count} تغييرًا في السلة أجريتها دون اتصال.',
+    other: 'تمت مزامنة {count} تغيير في السلة أجريتها دون اتصال.'
+  },
+  'cartSync.adjusted': 'تمت مزامنة سلتك وتحديثها وفق المخزون والأسعار الحالية: {items}',
+
+  // APP UPDATES
+  'update.available': 'يتوفر إصدار جديد من المتجر.',
+  'update.availableVersion': 'يتوفر الإصدار {version} من المتجر.',
+  'update.reload': 'إعادة التحميل',
+  'update.reloading': 'جارٍ إعادة التحميل...',
+  'update.later': 'لاحقًا',
+  'update.failed': 'تعذّر على المتجر تحديث نفسه. يرجى إغلاق هذه الصفحة وفتح المتجر من جديد.',
+  'update.installFailed': 'تعذّر تنزيل إصدار جديد من المتجر. يمكنك متابعة التسوق - سنحاول مرة أخرى لاحقًا.',
+
+  // ERRORS + NOTIFICATIONS
+  'error.validationTitle': 'يرجى التحقق من المدخلات',
+  'error.offlineTitle': 'أنت غير متصل',
+  'error.offline': 'تحقق من اتصالك بالإنترنت وحاول مرة أخرى.',
+  'error.serverTitle': 'خطأ في الخادم',
+  'error.requestTitle': 'فشل الطلب',
+  'error.invalidInput': 'بعض المعلومات المرسلة غير صالحة. يرجى التحقق والمحاولة مرة أخرى.',
+  'error.sessionExpired': 'انتهت جلستك. يرجى تسجيل الدخول مرة أخرى.',
+  'error.forbidden': 'ليست لديك صلاحية للقيام بذلك.',
+  'error.notFound': 'لم نعثر على ما تبحث عنه.',
+  'error.timeout': 'استغرق الطلب وقتًا طويلًا. يرجى المحاولة مرة أخرى.',
+  'error.conflict': 'قام شخص آخر بتعديل هذا العنصر. يرجى إعادة التحميل والمحاولة مرة أخرى.',
+  'error.tooManyRequests': 'تكرر هذا الإجراء كثيرًا. يرجى الانتظار قليلًا والمحاولة مرة أخرى.',
+  'error.server': 'حدث خطأ من جهتنا. يرجى المحاولة بعد قليل.',
+  'error.request': 'تعذّر إكمال الطلب. يرجى المحاولة مرة أخرى.',
+  'error.unknownTitle': 'حدث خطأ ما',
+  'error.unknown': 'حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.',
+  'toast.dismiss': 'إغلاق الإشعار',
+
+  // ERROR PAGES
+  'notFound.heading': 'الصفحة غير موجودة',
+  'notFound.message': 'الصفحة التي تبحث عنها غير موجودة.',
+  'forbidden.heading': 'الوصول مرفوض',
+  'forbidden.message': 'ليست لديك صلاحية لعرض هذه الصفحة.',
+  'common.goHome': 'العودة إلى الصفحة الرئيسية',
+
+  // ROUTE TITLES
+  'title.home': 'الرئيسية | متجر Angular',
+  'title.products': 'المنتجات | متجر Angular',
+  'title.product': '{name} | متجر Angular',
+  'title.search': 'البحث | متجر Angular',
+  'title.cart': 'السلة | متجر Angular',
+  'title.wishlist': 'المفضلة | متجر Angular',
+  'title.orderConfirmed': 'تم تأكيد الطلب | متجر Angular',
+  'title.checkout': 'الدفع | متجر Angular',
+  'title.checkoutShipping': 'عنوان الشحن | الدفع',
+  'title.checkoutDelivery': 'طريقة التوصيل | الدفع',
+  'title.checkoutReview': 'المراجعة | الدفع',
+  'title.checkoutPayment': 'الدفع بالبطاقة | الدفع',
+  'title.orders': 'طلباتي | متجر Angular',
+  'title.orderDetail': 'تفاصيل الطلب | متجر Angular',
+  'title.adminProducts': 'إدارة المنتجات | الإدارة',
+  'title.adminNewProduct': 'منتج جديد | الإدارة',
+  'title.adminImportExport': 'استيراد / تصدير | الإدارة',
+  'title.adminEditProduct': 'تعديل منتج | الإدارة',
+  'title.adminReviews': 'مراجعة التقييمات | الإدارة',
+  'title.login': 'تسجيل الدخول | متجر Angular',
+  'title.forbidden': '403 - الوصول مرفوض',
+  'title.notFound': '404 - الصفحة غير موجودة'
+};
@@ -0,0 +1,485 @@
+import { Translation } from './languages';
+
+/**
+ * ===========================================
+ * ENGLISH - Source dictionary
+ * ===========================================
+ *
+ * The keys of THIS object are the TranslationKey union, so a typo in
+ * `'nav.cartt' | t` fails the build and every other dictionary must
+ * translate every key. Missing text at runtime falls back to English.
+ *
+ * Keys are grouped by screen: 'nav.*', 'login.*', 'title.*' (route titles)...
+ * Messages thrown by services and backends are translated when they
+ * are created, so ValidationError text is already in the active language.
+ *
+ * Teaching content stays English: the "What's Happening?" panels, the
+ * home page topics and debug counters name Angular APIs, not shop text.
+ */
+export const EN = {
+  // HEADER / NAVIGATION
+  'nav.home': 'Home',
+  'nav.products': 'Products',
+  'nav.cart': { '=0': 'Cart (Empty)', one: 'Cart (1 item)', other: 'Cart ({count} items)' },
+  'nav.wishlist': 'Wishlist ({count})',
+  'nav.orders': 'My Orders',
+  'nav.admin': 'Admin',
+  'header.welcomeBack': 'Welcome back, {name}!',
+  'header.welcomeGuest': 'Welcome, Guest!',
+  'header.roleAdmin': 'Admin',
+  'header.roleStaff': 'Staff',
+  'header.login': 'Login',
+  'header.logout': 'Logout',
+  'header.currency': 'Currency',
+  'header.language': 'Language',
+  'search.placeholder': 'Search products...',
+  'search.title': 'Search results',
+  'search.showingFor': 'Showing matches for',
+  'search.searching': 'Searching...',
+  'search.noResults': 'No products found.',
+  'search.noResultsFor': 'No products found for "{query}".',
+  'search.browseAll': 'Browse all products',
+
+  // FOOTER
+  'footer.tagline': 'Learn Angular by building',
+  'footer.copyright': '© {year} Angular E-Commerce',
+  'footer.version': 'Version {version}',
+
+  // LOGIN
+  'login.title': 'Sign In',
+  'login.subtitle': 'Welcome back! Please enter your details.',
+  'login.email': 'Email',
+  'login.emailPlaceholder': 'Enter your email',
+  'login.password': 'Password',
+  'login.passwordPlaceholder': 'Enter your password',
+  'login.rememberMe': 'Remember me',
+  'login.forgotPassword': 'Forgot password?',
+  'login.submit': 'Sign In',
+  'login.submitting': 'Signing in...',
+  'login.noAccount': "Don't have an account?",
+  'login.signUp': 'Sign up',
+  'login.invalidCredentials': 'Invalid email or password. Try test@test.com / 123456',
+
+  // FORM VALIDATION
+  'validation.required': '{field} is required',
+  'validation.email': 'Please enter a valid email address',
+  'validation.minlength': { one: 'Minimum {count} character required', other: 'Minimum {count} characters required' },
+  'validation.maxlength': { one: 'Maximum {count} character allowed', other: 'Maximum {count} characters allowed' },
+  'validation.fieldRequired': 'This field is required',
+
+  // HOME
+  'home.tagline': 'Master Angular concepts through hands-on examples',
+  'home.explore': 'Explore Demo',
+  'home.topicsCovered': 'Topics Covered',
+  'home.clickToExplore': '(click to explore)',
+  'home.topic': 'Topic',
+  'home.keyConcepts': 'Key Concepts',
+  'home.quickNav': 'Quick Nav',
+
+  // PRODUCTS
+  'products.title': 'Our Products',
+  'products.subtitle': 'Learn @Input(), @Output(), and ChangeDetection',
+  'products.controlPanel': '🎮 Control Panel (Parent Component)',
+  'products.inputDemos': '@Input() Demos:',
+  'products.showRatings': 'Show Ratings',
+  'products.hideRatings': 'Hide Ratings',
+  'products.toggleFeatured': 'Toggle Featured (ID: {id})',
+  'products.cartOutput': 'Cart (@Output received):',
+  'products.category': 'Category',
+  'products.allCategories': 'All',
+  'products.sortBy': 'Sort by',
+  'products.sortFeatured': 'Featured',
+  'products.sortPriceAsc': 'Price: Low to High',
+  'products.sortPriceDesc': 'Price: High to Low',
+  'products.sortRating': 'Top Rated',
+  'products.sortNameAsc': 'Name: A–Z',
+  'products.sortNameDesc': 'Name: Z–A',
+  'products.minPrice': 'Min $',
+  'products.maxPrice': 'Max $',
+  'products.rating': 'Rating',
+  'products.anyRating': 'Any',
+  'products.ratingAndUp': '{rating}★ & up',
+  'products.inStockOnly': 'In stock only',
+  'products.clearFilters': 'Clear',
+  'products.loading': 'Loading products from service...',
+  'products.refreshToRetry': 'Refresh the page to try again',
+  'products.noMatches': 'No products match these filters',
+  'products.pageInfo': { one: '1 product · Page {page} of {pages}', other: '{count} products · Page {page} of {pages}' },
+  'products.previous': '‹ Prev',
+  'products.next': 'Next ›',
+  'products.perPage': '{size} / page',
+  'products.reloadFailed': 'The catalog changed but could not be reloaded.',
+  'products.featured': '⭐ Featured',
+  'products.total': 'Total:',
+  'products.viewDetails': 'View Details',
+  'products.addToCart': 'Add to Cart',
+  'products.unavailable': 'Unavailable',
+  'products.backToProducts': '‹ Back to products',
+  'products.showImage': 'Show image {number}',
+  'products.addToCartFor': 'Add to Cart · {amount}',
+  'products.added': 'Added {count} × {name} to your cart',
+  'category.electronics': 'Electronics',
+  'category.clothing': 'Clothing',
+  'category.books': 'Books',
+  'category.home': 'Home',
+
+  // STOCK
+  'stock.inStock': '✓ In Stock',
+  'stock.outOfStock': '✗ Out of Stock',
+  'stock.low': { one: 'Only 1 left', other: 'Only {count} left' },
+  'stock.onlyAvailable': 'Only {count} × {name} available.',
+  'stock.itemsUnavailable': {
+    one: '1 item in your cart is no longer available in the requested quantity.',
+    other: '{count} items in your cart are no longer available in the requested quantity.'
+  },
+  'stock.reservationExpired': 'Your reservation has expired. Please check your cart and try again.',
+  'stock.checkFailed': 'We could not check stock right now. Please try again.',
+
+  // REVIEWS
+  'reviews.heading': 'Customer Reviews',
+  'reviews.outOf5': 'out of 5',
+  'reviews.starsLabel': '{rating} out of 5 stars',
+  'reviews.count': { one: '1 review', other: '{count} reviews' },
+  'reviews.none': 'No reviews yet. Be the first!',
+  'reviews.yours': 'Your review',
+  'reviews.hiddenNote': 'A moderator has hidden this review. It is only visible to you.',
+  'reviews.signInToWrite': 'Sign in to write a review.',
+  'reviews.loadError': 'Reviews could not be loaded. Please reload the page.',
+  'reviews.loading': 'Loading reviews...',
+  'reviews.formTitle': 'Write a review',
+  'reviews.yourRating': 'Your rating',
+  'reviews.stars': { one: '1 star', other: '{count} stars' },
+  'reviews.chooseRating': 'Please choose a rating',
+  'reviews.text': 'Your review (optional)',
+  'reviews.textPlaceholder': 'What did you like or dislike?',
+  'reviews.submit': 'Submit review',
+  'reviews.submitting': 'Submitting...',
+  'reviews.signInRequired': 'Please sign in to write a review.',
+  'reviews.ratingRequired': 'Please choose a rating from 1 to 5 stars.',
+  'reviews.textTooLong': 'Reviews can be at most {max} characters.',
+  'reviews.duplicate': 'You have already reviewed this product.',
+
+  // WISHLIST
+  'wishlist.title': 'Wishlist',
+  'wishlist.added': 'Added {date}',
+  'wishlist.outOfStock': 'Out of stock',
+  'wishlist.moveToCart': 'Move to Cart',
+  'wishlist.remove': 'Remove',
+  'wishlist.savedItems': 'Saved Items: {count}',
+  'wishlist.clear': 'Clear Wishlist',
+  'wishlist.empty': 'Your wishlist is empty',
+  'wishlist.browse': 'Browse Products',
+  'wishlist.moved': '{name} was moved to your cart.',
+  'wishlist.unavailable': '{name} is currently unavailable.',
+  'wishlist.moveFailed': 'The item could not be moved. Please try again.',
+
+  // CART
+  'cart.title': 'Shopping Cart',
+  'cart.stockIssues': 'Some items are no longer available in the quantity you asked for:',
+  'cart.soldOut': 'sold out',
+  'cart.onlyAvailable': 'only {count} available',
+  'cart.youAskedFor': '(you asked for {count})',
+  'cart.fixStockIssues': 'Update my cart',
+  'cart.remove': 'Remove',
+  'cart.totalItems': 'Total Items: {count}',
+  'cart.subtotal': 'Subtotal',
+  'cart.shipping': 'Shipping',
+  'cart.shippingAtCheckout': 'Calculated at checkout',
+  'cart.free': 'Free',
+  'cart.tax': 'Tax ({region}, {rate})',
+  'cart.total': 'Total: {amount}',
+  'cart.currencyNote': 'Converted to {currency} for display - you will be charged in {base}. Each amount is rounded on its own, so the rows may not add up exactly to the total.',
+  'cart.freeShippingHint': 'Add {amount} more for free standard shipping.',
+  'cart.couponCode': 'Coupon code',
+  'cart.applyCoupon': 'Apply',
+  'cart.checkout': 'Proceed to Checkout',
+  'cart.clear': 'Clear Cart',
+  'cart.empty': 'Your cart is empty',
+  'cart.continueShopping': 'Continue Shopping',
+
+  // PRICING - coupons and automatic promotions
+  'pricing.coupon': 'Coupon {code}',
+  'promotion.booksSale': 'Book sale: 15% off',
+  'promotion.tshirt3for2': 'T-shirts: buy 2, get 1 free',
+  'coupon.unknown': '"{code}" is not a valid coupon code.',
+  'coupon.expired': 'Coupon {code} expired on {date}.',
+  'coupon.categoriesOnly': 'Coupon {code} only applies to {categories}.',
+  'coupon.notApplicable': 'Coupon {code} does not apply to any item in your cart.',
+  'coupon.minimumNotMet': 'Coupon {code} needs a subtotal of at least {minimum} - add {missing} more.',
+
+  // CHECKOUT
+  'checkout.title': 'Checkout',
+  'checkout.stepShipping': 'Shipping',
+  'checkout.stepDelivery': 'Delivery',
+  'checkout.stepReview': 'Review',
+  'checkout.stepPayment': 'Payment',
+  'checkout.orderSummary': 'Order Summary',
+  'checkout.items': { one: '1 item', other: '{count} items' },
+  'checkout.subtotal': 'Subtotal: {amount}',
+  'checkout.reservedUntil': 'Items reserved until {time}',
+  'checkout.editCart': 'Edit cart',
+  'checkout.back': '‹ Back',
+  'checkout.edit': 'Edit',
+  'checkout.subtotalLabel': 'Subtotal',
+  'checkout.delivery': 'Delivery',
+  'checkout.free': 'Free',
+  'checkout.tax': 'Tax',
+  'checkout.taxRate': 'Tax ({rate})',
+  'checkout.total': 'Total',
+  'checkout.paidWith': 'Paid with {brand} •••• {last4}',
+  'shipping.title': 'Shipping Address',
+  'shipping.fullName': 'Full name',
+  'shipping.address': 'Address',
+  'shipping.addressLine2': 'Apartment, suite, etc. (optional)',
+  'shipping.city': 'City',
+  'shipping.postalCode': 'Postal code',
+  'shipping.country': 'Country',
+  'shipping.selectCountry': 'Select a country',
+  'shipping.phone': 'Phone (optional)',
+  'shipping.backToCart': '‹ Back to cart',
+  'shipping.continue': 'Continue to delivery',
+  'shipping.invalidPostalCode': 'Please enter a valid postal code',
+  'shipping.invalidPhone': 'Please enter a valid phone number',
+  'delivery.title': 'Delivery Method',
+  'delivery.required': 'Please choose a delivery method',
+  'delivery.continue': 'Continue to review',
+  'delivery.standard': 'Standard',
+  'delivery.standardDescription': '5–7 business days',
+  'delivery.express': 'Express',
+  'delivery.expressDescription': '1–2 business days',
+  'delivery.pickup': 'Store pickup',
+  'delivery.pickupDescription': 'Ready tomorrow',
+  'review.title': 'Review Your Order',
+  'review.items': 'Items',
+  'review.shipTo': 'Ship to',
+  'review.continue': 'Continue to payment',
+  'payment.title': 'Payment',
+  'payment.verifyCard': 'Verify your card',
+  'payment.verificationCode': 'Verification code',
+  'payment.cancel': 'Cancel',
+  'payment.verify': 'Verify',
+  'payment.verifying': 'Verifying...',
+  'payment.holderName': 'Name on card',
+  'payment.cardNumber': 'Card number',
+  'payment.expiry': 'Expiry',
+  'payment.cvc': 'CVC',
+  'payment.reviewCart': 'Review your cart',
+  'payment.pay': 'Pay {amount}',
+  'payment.processing': 'Processing...',
+  'payment.invalidCardNumber': 'Please enter a valid card number',
+  'payment.expiryFormat': 'Use the format MM/YY',
+  'payment.cardExpired': 'This card has expired',
+  'payment.invalidCvc': 'CVC must be 3 or 4 digits',
+  'payment.challenge': 'Your bank sent a verification code. (Hint: {code})',
+  'payment.declined': 'Your card was declined.',
+  'payment.insufficientFunds': 'Your card has insufficient funds.',
+  'payment.verificationFailed': 'Card verification failed.',
+  'payment.challengeError': 'Card verification could not be completed. Please try again.',
+  'payment.providerUnreachable': 'We could not reach the payment provider. Please try again.',
+  'payment.detailsMissing': 'Your shipping details are missing. Please go back and check them - you have not been charged.',
+  'payment.notCharged': '{message} You have not been charged.',
+  'payment.captureFailed': 'We could not take the payment - you have not been charged. Please try again.',
+  'payment.refunded': 'The order could not be completed, so your payment was refunded. Please try again.',
+  'payment.refundFailed': 'Your payment was taken but the order could not be completed. Press "Pay" to try again - you will not be charged twice.',
+  'payment.totalChanged': 'Your total changed since the payment was taken, so it was refunded. Please pay again.',
+  'confirmation.thanks': 'Thank you for your order!',
+  'confirmation.orderNumber': 'Your order number is',
+  'confirmation.delivery': '{option} delivery',
+  'confirmation.shippingTo': 'Shipping to {name}, {city}',
+
+  // ORDERS
+  'orders.title': 'My Orders',
+  'orders.empty': "You haven't placed any orders yet.",
+  'orders.startShopping': 'Start Shopping',
+  'orders.viewDetails': 'View details',
+  'orders.reorder': 'Reorder',
+  'orders.adding': 'Adding...',
+  'orders.addingToCart': 'Adding to cart...',
+  'orders.loading': 'Loading your orders...',
+  'orders.viewCart': 'View cart',
+  'orders.reorderSkipped': {
+    one: '1 item added to your cart. No longer available: {skipped}.',
+    other: '{count} items added to your cart. No longer available: {skipped}.'
+  },
+  'orders.reorderFailed': 'Could not reorder right now. Please try again.',
+  'orders.emptyCart': 'Your cart is empty - add something before placing an order',
+  'orders.backToOrders': '‹ Back to orders',
+  'orders.order': 'Order {id}',
+  'orders.placed': 'Placed {date}',
+  'orders.shippingAddress': 'Shipping address',
+  'orderStatus.placed': 'Placed',
+  'orderStatus.paid': 'Paid',
+  'orderStatus.shipped': 'Shipped',
+  'orderStatus.delivered': 'Delivered',
+  'orderStatus.cancelled': 'Cancelled',
+
+  // ADMIN
+  'admin.productsTitle': 'Manage Products',
+  'admin.reviewsLink': 'Reviews',
+  'admin.importExportLink': 'Import / Export',
+  'admin.newProductLink': '+ New product',
+  'admin.name': 'Name',
+  'admin.category': 'Category',
+  'admin.price': 'Price',
+  'admin.rating': 'Rating',
+  'admin.stock': 'Stock',
+  'admin.stockFor': 'Units in stock for {name}',
+  'admin.deleteConfirm': 'Delete?',
+  'admin.yes': 'Yes',
+  'admin.no': 'No',
+  'admin.edit': 'Edit',
+  'admin.delete': 'Delete',
+  'admin.noProducts': 'No products yet.',
+  'admin.productsLoadError': 'The products could not be loaded. Please reload the page.',
+  'admin.loadingProducts': 'Loading products...',
+  'admin.productDeleted': 'Product deleted.',
+  'admin.changeFailed': 'The change could not be saved. Please try again.',
+  'admin.backToProducts': '‹ Back to products',
+  'admin.editProduct': 'Edit product',
+  'admin.newProduct': 'New product',
+  'admin.priceLabel': 'Price ($)',
+  'admin.selectCategory': 'Select a category',
+  'admin.imageUrl': 'Image URL',
+  'admin.ratingLabel': 'Rating (0–5)',
+  'admin.unitsInStock': 'Units in stock',
+  'admin.description': 'Description (optional)',
+  'admin.cancel': 'Cancel',
+  'admin.saving': 'Saving...',
+  'admin.saveChanges': 'Save changes',
+  'admin.createProduct': 'Create product',
+  'admin.ratingRange': 'Rating must be between 0 and 5',
+  'admin.stockRange': 'Stock must be between 0 and {max}',
+  'admin.priceRange': 'Price must be between $0.01 and ${max}',
+  'admin.stockWholeNumber': 'Stock must be a whole number',
+  'admin.imagePattern': 'Please enter an http(s) image URL',
+  'admin.productSaved': '"{name}" was saved.',
+  'admin.productSaveFailed': 'The product could not be saved. Please try again.',
+  'admin.importTitle': 'Import / Export Products',
+  'admin.export': 'Export',
+  'admin.exportHint': 'Download the whole catalog to edit in a spreadsheet.',
+  'admin.exportCsv': 'Export CSV',
+  'admin.exportJson': 'Export JSON',
+  'admin.import': 'Import',
+  'admin.importHint': "Upload a .csv or .json file. Rows with an existing id update that product; rows without an id create new products. You'll see a preview before anything is saved.",
+  'admin.chooseFile': 'Choose file...',
+  'admin.working': 'Working...',
+  'admin.toCreate': '{count} to create',
+  'admin.toUpdate': '{count} to update',
+  'admin.withErrors': '{count} with errors (skipped)',
+  'admin.row': 'Row',
+  'admin.product': 'Product',
+  'admin.action': 'Action',
+  'admin.problems': 'Problems',
+  'admin.actionCreate': 'create',
+  'admin.actionUpdate': 'update',
+  'admin.actionInvalid': 'invalid',
+  'admin.noRows': 'The file has no product rows.',
+  'admin.importRows': { one: 'Import 1 row', other: 'Import {count} rows' },
+  'admin.imported': 'Imported: {created} created, {updated} updated.',
+  'admin.rowFailed': 'Row {row} failed: {message}',
+  'admin.exportFailed': 'The catalog could not be exported. Please try again.',
+  'admin.fileUnreadable': 'The file could not be read. Please pick it again.',
+  'admin.checkFailed': 'The file could not be checked against the catalog. Please try again.',
+  'admin.importFailed': 'The import could not be completed. Please try again.',
+  'admin.reviewsTitle': 'Moderate Reviews',
+  'admin.productsLink': 'Products',
+  'admin.author': 'Author',
+  'admin.review': 'Review',
+  'admin.date': 'Date',
+  'admin.status': 'Status',
+  'admin.productNumber': 'Product #{id}',
+  'admin.hideReviewBy': 'Hide review by {name}',
+  'admin.publishReviewBy': 'Publish review by {name}',
+  'admin.published': 'Published',
+  'admin.hidden': 'Hidden',
+  'admin.noReviews': 'No reviews yet.',
+  'admin.reviewsLoadError': 'The reviews could not be loaded. Please reload the page.',
+  'admin.loadingReviews': 'Loading reviews...',
+  'admin.reviewHidden': 'Review hidden.',
+  'admin.reviewPublished': 'Review published.',
+  'import.empty': 'The file is empty',
+  'import.missingColumns': 'Missing column(s): {columns}',
+  'import.invalidJson': 'The file is not valid JSON',
+  'import.notAnArray': 'Expected a JSON array of products',
+  'import.invalidId': 'Invalid id "{id}"',
+  'import.duplicateId': 'Duplicate id {id}',
+  'import.unknownId': 'Unknown id {id} (leave id empty to create a product)',
+  'import.nameRequired': 'Name is required',
+  'import.priceNotANumber': 'Price "{price}" is not a number',
+  'import.priceNotPositive': 'Price must be greater than 0',
+  'import.unknownCategory': 'Unknown category "{category}" (expected {categories})',
+  'import.imageUrl': 'Image must be an http(s) URL',
+  'import.ratingRange': 'Rating must be a number from 0 to 5',
+  'import.stockWholeNumber': 'Stock "{stock}" must be a whole number of 0 or more',
+
+  // OFFLINE / CART SYNC
+  'offline.message': "You're offline - showing the catalog saved {savedAt}.",
+  'offline.noSnapshot': "You're offline - some pages may not load until you reconnect.",
+  'offline.pending': { one: '1 cart change will sync when you reconnect.', other: '{count} cart changes will sync when you reconnect.' },
+  'cartSync.synced': { one: 'Your offline cart change is synced.', other: 'Your {count} offline cart changes are synced.' },
+  'cartSync.adjusted': 'Your cart was synced and updated for current stock and prices: {items}',
+
+  // APP UPDATES
+  'update.available': 'A new version of the shop is available.',
+  'update.availableVersion': 'Version {version} of the shop is available.',
+  'update.reload': 'Reload',
+  'update.reloading': 'Reloading...',
+  'update.later': 'Later',
+  'update.failed': 'The shop could not update itself. Please close this tab and open the shop again.',
+  'update.installFailed': "A new version of the shop could not be downloaded. You can keep shopping - we'll try again later.",
+
+  // ERRORS + NOTIFICATIONS (see classifyError)
+  'error.validationTitle': 'Please check your input',
+  'error.offlineTitle': "You're offline",
+  'error.offline': 'Check your internet connection and try again.',
+  'error.serverTitle': 'Server error',
+  'error.requestTitle': 'Request failed',
+  'error.invalidInput': 'Some of the information sent was not valid. Please check and try again.',
+  'error.sessionExpired': 'Your session has expired. Please sign in again.',
+  'error.forbidden': "You don't have permission to do that.",
+  'error.notFound': "We couldn't find what you were looking for.",
+  'error.timeout': 'The request took too long. Please try again.',
+  'error.conflict': 'This item was changed by someone else. Please reload and try again.',
+  'error.tooManyRequests': "You're doing that too often. Please wait a moment and try again.",
+  'error.server': 'Something went wrong on our side. Please try again in a moment.',
+  'error.request': 'The request could not be completed. Please try again.',
+  'error.unknownTitle': 'Something went wrong',
+  'error.unknown': 'An unexpected error occurred. Please try again.',
+  'toast.dismiss': 'Dismiss notification',
+
+  // ERROR PAGES
+  'notFound.heading': 'Page Not Found',
+  'notFound.message': "The page you're looking for doesn't exist.",
+  'forbidden.heading': 'Access Denied',
+  'forbidden.message': "You don't have permission to view this page.",
+  'common.goHome': 'Go to Homepage',
+
+  // ROUTE TITLES (see TranslatedTitleStrategy)
+  'title.home': 'Home | Angular Shop',
+  'title.products': 'Products | Angular Shop',
+  'title.product': '{name} | Angular Shop',
+  'title.search': 'Search | Angular Shop',
+  'title.cart': 'Cart | Angular Shop',
+  'title.wishlist': 'Wishlist | Angular Shop',
+  'title.orderConfirmed': 'Order Confirmed | Angular Shop',
+  'title.checkout': 'Checkout | Angular Shop',
+  'title.checkoutShipping': 'Shipping | Checkout',
+  'title.checkoutDelivery': 'Delivery | Checkout',
+  'title.checkoutReview': 'Review | Checkout',
+  'title.checkoutPayment': 'Payment | Checkout',
+  'title.orders': 'My Orders | Angular Shop',
+  'title.orderDetail': 'Order Details | Angular Shop',
+  'title.adminProducts': 'Manage Products | Admin',
+  'title.adminNewProduct': 'New Product | Admin',
+  'title.adminImportExport': 'Import / Export | Admin',
+  'title.adminEditProduct': 'Edit Product | Admin',
+  'title.adminReviews': 'Moderate Reviews | Admin',
+  'title.login': 'Login | Angular Shop',
+  'title.forbidden': '403 - Access Denied',
+  'title.notFound': '404 - Page Not Found'
+} satisfies Record<string, Translation>;
+
+export type TranslationKey = keyof typeof EN;
+
+// Every other language must translate every key
+export type Dictionary = Record<TranslationKey, Translation>;
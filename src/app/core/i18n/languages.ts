@@ -0,0 +1,41 @@
+/**
+ * ===========================================
+ * LANGUAGES - What the language selector offers
+ * ===========================================
+ *
+ * locale → Intl / Angular formatting (numbers, dates, currency)
+ * dir    → written to <html dir>, styles use logical properties
+ *          (margin-inline-start, inset-inline-end...) so RTL just works
+ *
+ * Adding a language:
+ *   1. a dictionary next to en.ts (typed as Dictionary → no missing keys)
+ *   2. an entry here + in DICTIONARY_LOADERS (translation.service.ts)
+ *   3. its Angular locale data in provideTranslations()
+ */
+export type LanguageCode = 'en' | 'ar';
+
+export interface Language {
+  readonly code: LanguageCode;
+  readonly label: string;           // In its own language - "العربية", not "Arabic"
+  readonly locale: string;
+  readonly dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: readonly Language[] = [
+  { code: 'en', label: 'English', locale: 'en-US', dir: 'ltr' },
+  { code: 'ar', label: 'العربية', locale: 'ar', dir: 'rtl' }
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+/**
+ * Plural forms use the CLDR categories of Intl.PluralRules:
+ *   English → one, other
+ *   Arabic  → zero, one, two, few, many, other
+ * "=0" (exact match) wins over the category, like ICU messages.
+ */
+export type PluralForms = { readonly other: string } &
+  Partial<Record<'=0' | Intl.LDMLPluralRule, string>>;
+
+// `{name}` placeholders are filled from the params; `{count}` picks the plural form
+export type Translation = string | PluralForms;
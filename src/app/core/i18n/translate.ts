@@ -0,0 +1,46 @@
+import { EN, TranslationKey } from './en';
+import { PluralForms, Translation } from './languages';
+
+export type TranslationParams = Readonly<Record<string, string | number>>;
+
+/**
+ * ===========================================
+ * TRANSLATE FUNCTION - For pure helpers
+ * ===========================================
+ *
+ * Pure functions (pricing engine, error classifier, import validation)
+ * can't inject TranslationService, so they take a Translate argument
+ * and default to English:
+ *
+ *   stockLabel(product)                          → "✓ In Stock"
+ *   stockLabel(product, translation.translator)  → current language
+ *
+ * Called inside a computed(), the second form re-runs when the language changes.
+ */
+export type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+const EN_PLURAL_RULES = new Intl.PluralRules('en-US');
+const EN_NUMBER_FORMAT = new Intl.NumberFormat('en-US');
+
+export const translateEnglish: Translate = (key, params = {}) =>
+  formatTranslation(EN[key], params, EN_PLURAL_RULES, EN_NUMBER_FORMAT);
+
+// Plural form for `{count}`, then `{name}` placeholders (numbers formatted for the locale)
+export function formatTranslation(
+  entry: Translation,
+  params: TranslationParams,
+  pluralRules: Intl.PluralRules,
+  numberFormat: Intl.NumberFormat
+): string {
+  const text = typeof entry === 'string' ? entry : pluralForm(entry, Number(params['count'] ?? 0), pluralRules);
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? numberFormat.format(value) : value;
+  });
+}
+
+function pluralForm(entry: PluralForms, count: number, pluralRules: Intl.PluralRules): string {
+  return (count === 0 ? entry['=0'] : undefined) ?? entry[pluralRules.select(count)] ?? entry.other;
+}
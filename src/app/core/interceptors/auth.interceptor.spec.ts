@@ -0,0 +1,100 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Subject, share, throwError } from 'rxjs';
+import { AuthTokens } from '../../features/auth/models/user.model';
+import { AuthService } from '../services/auth.service';
+import { authInterceptor } from './auth.interceptor';
+
+const fresh: AuthTokens = { accessToken: 'access-2', refreshToken: 'refresh-2' };
+
+describe('authInterceptor', () => {
+  const accessToken = signal<string | null>('access-1');
+  const isRefreshing = signal(false);
+  const expireSession = vi.fn();
+  let refresh$: Subject<AuthTokens>;
+  let refreshCalls: number;
+  let refreshFails: boolean;
+
+  let http: HttpClient;
+  let httpTesting: HttpTestingController;
+
+  beforeEach(() => {
+    accessToken.set('access-1');
+    isRefreshing.set(false);
+    expireSession.mockClear();
+    refresh$ = new Subject<AuthTokens>();
+    refreshCalls = 0;
+    refreshFails = false;
+
+    // Single-flight like the real AuthService: concurrent callers share one refresh
+    const shared$ = refresh$.pipe(share());
+    const refreshSession = () => {
+      if (refreshFails) return throwError(() => new Error('Refresh token is invalid'));
+      if (!isRefreshing()) refreshCalls++;
+      isRefreshing.set(true);
+      return shared$;
+    };
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([authInterceptor])),
+        provideHttpClientTesting(),
+        { provide: AuthService, useValue: { accessToken, isRefreshing, refreshSession, expireSession } }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    httpTesting = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  it('should attach the token to same-origin requests only', () => {
+    http.get('/api/products').subscribe();
+    http.get('https://picsum.photos/seed/lamp/300/200').subscribe();
+
+    expect(httpTesting.expectOne('/api/products').request.headers.get('Authorization')).toBe('Bearer access-1');
+    expect(httpTesting.expectOne('https://picsum.photos/seed/lamp/300/200').request.headers.has('Authorization')).toBe(false);
+  });
+
+  it('should refresh once for concurrent 401s and retry with the new token', () => {
+    const results: unknown[] = [];
+    http.get('/api/orders').subscribe(body => results.push(body));
+    http.get('/api/reviews').subscribe(body => results.push(body));
+
+    httpTesting.expectOne('/api/orders').flush(null, { status: 401, statusText: 'Unauthorized' });
+    httpTesting.expectOne('/api/reviews').flush(null, { status: 401, statusText: 'Unauthorized' });
+    expect(refreshCalls).toBe(1);
+
+    refresh$.next(fresh);
+
+    for (const url of ['/api/orders', '/api/reviews']) {
+      const retry = httpTesting.expectOne(url);
+      expect(retry.request.headers.get('Authorization')).toBe('Bearer access-2');
+      retry.flush({ url });
+    }
+    expect(results).toHaveLength(2);
+  });
+
+  it('should queue new requests behind a refresh in flight', () => {
+    isRefreshing.set(true);
+    http.get('/api/orders').subscribe();
+
+    httpTesting.expectNone('/api/orders');
+    refresh$.next(fresh);
+
+    expect(httpTesting.expectOne('/api/orders').request.headers.get('Authorization')).toBe('Bearer access-2');
+  });
+
+  it('should expire the session when the refresh fails', () => {
+    refreshFails = true;
+    let failed = false;
+    http.get('/api/orders').subscribe({ error: () => (failed = true) });
+
+    httpTesting.expectOne('/api/orders').flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    expect(expireSession).toHaveBeenCalled();
+    expect(failed).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+import { DOCUMENT, inject } from '@angular/core';
+import {
+  HttpContextToken,
+  HttpErrorResponse,
+  HttpHandlerFn,
+  HttpInterceptorFn,
+  HttpRequest
+} from '@angular/common/http';
+import { catchError, switchMap, throwError } from 'rxjs';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * ===========================================
+ * AUTH INTERCEPTOR - Functional HttpInterceptorFn
+ * ===========================================
+ *
+ * What is an Interceptor?
+ * -----------------------
+ * Middleware for HttpClient. EVERY request passes through it,
+ * so auth concerns live in ONE place instead of every service.
+ *
+ * This interceptor:
+ * 1. Attaches `Authorization: Bearer <accessToken>` - to OUR origin only,
+ *    never to third-party hosts (image CDNs, an external error sink...)
+ * 2. Waits for an in-flight refresh before sending (queues requests)
+ * 3. On 401 → refreshes ONCE (shared by all failing requests) and retries
+ * 4. Refresh fails → expireSession() → /login?returnUrl=...
+ *
+ * Usage in app.config.ts:
+ *   provideHttpClient(withInterceptors([authInterceptor]))
+ *
+ * Opt out per request (e.g. the token endpoint itself):
+ *   http.post(url, body, { context: new HttpContext().set(SKIP_AUTH, true) })
+ */
+
+export const SKIP_AUTH = new HttpContextToken<boolean>(() => false);
+
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  if (req.context.get(SKIP_AUTH) || !isSameOrigin(req.url, inject(DOCUMENT))) {
+    return next(req);
+  }
+
+  const authService = inject(AuthService);
+
+  // A refresh is already running - queue behind it instead of sending a stale token
+  if (authService.isRefreshing()) {
+    return authService.refreshSession().pipe(
+      switchMap(tokens => next(withBearer(req, tokens.accessToken)))
+    );
+  }
+
+  const token = authService.accessToken();
+
+  return next(withBearer(req, token)).pipe(
+    catchError((error: unknown) => {
+      if (!(error instanceof HttpErrorResponse) || error.status !== 401 || !token) {
+        return throwError(() => error);
+      }
+
+      return retryAfterRefresh(req, next, authService);
+    })
+  );
+};
+
+function retryAfterRefresh(req: HttpRequest<unknown>, next: HttpHandlerFn, authService: AuthService) {
+  return authService.refreshSession().pipe(
+    catchError((refreshError: unknown) => {
+      authService.expireSession();
+      return throwError(() => refreshError);
+    }),
+    switchMap(tokens => next(withBearer(req, tokens.accessToken)))
+  );
+}
+
+// Relative URLs resolve against the page, so '/api/products' counts as same-origin
+function isSameOrigin(url: string, document: Document): boolean {
+  try {
+    return new URL(url, document.baseURI).origin === document.location.origin;
+  } catch {
+    return false;  // Unparsable URL - don't hand it a token
+  }
+}
+
+function withBearer(req: HttpRequest<unknown>, token: string | null): HttpRequest<unknown> {
+  return token
+    ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } })
+    : req;
+}
@@ -0,0 +1,37 @@
+import { inject } from '@angular/core';
+import { RedirectCommand, ResolveFn, Router } from '@angular/router';
+import { Observable, catchError, map, of } from 'rxjs';
+import { Order } from '../../features/orders/models/order.model';
+import { LoggerService } from '../services/logger.service';
+import { OrderService } from '../services/order.service';
+
+/**
+ * ===========================================
+ * ORDER RESOLVER - Single order for account/orders/:id
+ * ===========================================
+ *
+ * Same shape as productResolver: missing order (or one that
+ * belongs to another user) → RedirectCommand to the 404 page.
+ */
+export const orderResolver: ResolveFn<Order> = (
+  route
+): Observable<Order | RedirectCommand> | RedirectCommand => {
+  const router = inject(Router);
+  const orderService = inject(OrderService);
+  const log = inject(LoggerService).for('OrderResolver');
+
+  const notFound = new RedirectCommand(router.parseUrl('/not-found'), { skipLocationChange: true });
+  const id = route.paramMap.get('id');
+
+  if (!id) {
+    return notFound;
+  }
+
+  return orderService.getOrderById(id).pipe(
+    map(order => order ?? notFound),
+    catchError(error => {
+      log.error('❌ Error fetching order:', error);
+      return of(notFound);
+    })
+  );
+};
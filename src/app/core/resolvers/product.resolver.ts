@@ -0,0 +1,54 @@
+import { inject } from '@angular/core';
+import { RedirectCommand, ResolveFn, Router } from '@angular/router';
+import { Observable, catchError, map, of } from 'rxjs';
+import { Product } from '../../features/products/models/product.model';
+import { LoggerService } from '../services/logger.service';
+import { ProductService } from '../services/product.service';
+
+/**
+ * ===========================================
+ * PRODUCT RESOLVER - Single product for products/:id
+ * ===========================================
+ *
+ * Like productsResolver, but for ONE product:
+ * 1. Reads the :id route param
+ * 2. Calls ProductService.getProductById()
+ * 3. Product missing (or bad id) → RedirectCommand to the 404 page
+ *
+ * RedirectCommand (Angular 18+):
+ * ------------------------------
+ * A resolver can cancel the navigation and redirect instead,
+ * so the detail component NEVER renders without a product.
+ *
+ * Usage in routes:
+ * {
+ *   path: 'products/:id',
+ *   resolve: { product: productResolver },  // ← route.data['product']
+ *   loadComponent: () => ...
+ * }
+ */
+export const productResolver: ResolveFn<Product> = (
+  route,
+  state
+): Observable<Product | RedirectCommand> | RedirectCommand => {
+  const router = inject(Router);
+  const productService = inject(ProductService);
+  const log = inject(LoggerService).for('ProductResolver');
+
+  const notFound = new RedirectCommand(router.parseUrl('/not-found'), { skipLocationChange: true });
+  const id = Number(route.paramMap.get('id'));
+
+  log.debug('📦 Fetching product:', state.url);
+
+  if (!Number.isInteger(id) || id <= 0) {
+    return notFound;
+  }
+
+  return productService.getProductById(id).pipe(
+    map(product => product ?? notFound),
+    catchError(error => {
+      log.error('❌ Error fetching product:', error);
+      return of(notFound);
+    })
+  );
+};
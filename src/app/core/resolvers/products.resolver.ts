@@ -1,8 +1,10 @@
 import { inject } from '@angular/core';
 import { ResolveFn } from '@angular/router';
 import { Observable, catchError, of } from 'rxjs';
-import { Product } from '../../features/products/models/product.model';
+import { ProductPage } from '../../features/products/models/product.model';
+import { LoggerService } from '../services/logger.service';
 import { ProductService } from '../services/product.service';
+import { parseProductQuery } from '../utils/product-query-params';
 
 /**
  * ===========================================
@@ -46,37 +48,40 @@ import { ProductService } from '../services/product.service';
  * PRODUCTS RESOLVER - Functional Resolver (Modern Angular 14+)
  * 
  * This resolver:
- * 1. Calls ProductService.getProducts()
- * 2. Waits for the Observable to complete
- * 3. Makes data available via route.data['products']
+ * 1. Reads page/sort/filters from the URL query params
+ * 2. Calls ProductService.queryProducts() with them
+ * 3. Waits for the Observable to complete
+ * 4. Makes the page envelope available via route.data['products']
  * 
  * Usage in routes:
  * {
  *   path: 'products',
  *   resolve: { products: productsResolver },  // ← Key = 'products'
+ *   runGuardsAndResolvers: 'paramsOrQueryParamsChange',  // ← Re-run on ?page=2
  *   loadComponent: () => ...
  * }
  * 
  * Usage in component:
  * route.data['products'] or toSignal(route.data.pipe(map(d => d['products'])))
  */
-export const productsResolver: ResolveFn<Product[]> = (
+export const productsResolver: ResolveFn<ProductPage> = (
   route,      // ActivatedRouteSnapshot
   state       // RouterStateSnapshot
-): Observable<Product[]> | Promise<Product[]> | Product[] => {
+): Observable<ProductPage> | Promise<ProductPage> | ProductPage => {
   
   // inject() works in functional resolvers!
   const productService = inject(ProductService);
+  const log = inject(LoggerService).for('ProductsResolver');
+  const query = parseProductQuery(route.queryParamMap);
   
-  console.log('📦 [ProductsResolver] Fetching products data...');
-  console.log('📍 [ProductsResolver] Route:', state.url);
+  log.debug('📦 Fetching products for:', state.url, query);
   
-  return productService.getProducts().pipe(
+  return productService.queryProducts(query).pipe(
     catchError(error => {
-      console.error('❌ [ProductsResolver] Error fetching products:', error);
-      // Return empty array on error so component still loads
+      log.error('❌ Error fetching products:', error);
+      // Return an empty page on error so component still loads
       // Alternatively, could redirect to error page
-      return of([]);
+      return of({ items: [], total: 0, page: 1, pageSize: query.pageSize, totalPages: 1 });
     })
   );
 };
@@ -96,18 +101,18 @@ export const productsResolver: ResolveFn<Product[]> = (
  *    // Option A: Using ActivatedRoute (Observable)
  *    private route = inject(ActivatedRoute);
  *    products$ = this.route.data.pipe(
- *      map(data => data['products'] as Product[])
+ *      map(data => data['products'] as ProductPage)
  *    );
  *    
  *    // Option B: Using toSignal (Signal)
  *    private route = inject(ActivatedRoute);
  *    products = toSignal(
- *      this.route.data.pipe(map(d => d['products'] as Product[])),
- *      { initialValue: [] }
+ *      this.route.data.pipe(map(d => d['products'] as ProductPage)),
+ *      { initialValue: undefined }
  *    );
  *    
  *    // Option C: Snapshot (one-time read)
- *    products = this.route.snapshot.data['products'] as Product[];
+ *    products = this.route.snapshot.data['products'] as ProductPage;
  * 
  * ===========================================
  * EXPLANATION: When to Use Resolvers
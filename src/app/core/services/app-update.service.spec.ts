@@ -0,0 +1,98 @@
+import { TestBed } from '@angular/core/testing';
+import { DOCUMENT } from '@angular/core';
+import { Event as RouterEvent, NavigationEnd, Router } from '@angular/router';
+import { SwUpdate, UnrecoverableStateEvent, VersionEvent } from '@angular/service-worker';
+import { Subject } from 'rxjs';
+import { AppUpdateService, FORCED_RELOAD_STORAGE_KEY, UPDATE_CHECK_INTERVAL } from './app-update.service';
+import { NotificationService } from './notification.service';
+import { TranslationService } from './translation.service';
+
+describe('AppUpdateService', () => {
+  const versionUpdates = new Subject<VersionEvent>();
+  const unrecoverable = new Subject<UnrecoverableStateEvent>();
+  const swUpdate = {
+    isEnabled: true,
+    versionUpdates,
+    unrecoverable,
+    checkForUpdate: vi.fn(async () => false),
+    activateUpdate: vi.fn(async () => true)
+  };
+  const reload = vi.fn();
+  const router = { url: '/products', events: new Subject<RouterEvent>() };
+  const errors: string[] = [];
+  const fakeWindow = Object.assign(new EventTarget(), { sessionStorage });
+
+  let service: AppUpdateService;
+
+  beforeEach(() => {
+    sessionStorage.clear();
+    reload.mockClear();
+    swUpdate.checkForUpdate.mockClear();
+    errors.length = 0;
+    router.url = '/products';
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: SwUpdate, useValue: swUpdate },
+        { provide: Router, useValue: router },
+        { provide: DOCUMENT, useValue: { defaultView: fakeWindow, location: { reload } } },
+        { provide: UPDATE_CHECK_INTERVAL, useValue: 60 * 60 * 1000 },
+        { provide: NotificationService, useValue: { error: (message: string) => errors.push(message) } },
+        { provide: TranslationService, useValue: { translate: (key: string) => key } }
+      ]
+    });
+    service = TestBed.inject(AppUpdateService);
+    service.init();
+  });
+
+  it('should offer a downloaded version and reload after activating it', async () => {
+    versionUpdates.next({
+      type: 'VERSION_READY',
+      currentVersion: { hash: 'old' },
+      latestVersion: { hash: 'new', appData: { version: '1.1.0' } }
+    });
+    expect(service.available()).toEqual({ hash: 'new', version: '1.1.0' });
+
+    await service.activateAndReload();
+
+    expect(swUpdate.activateUpdate).toHaveBeenCalled();
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check for updates when the tab gets focus', async () => {
+    fakeWindow.dispatchEvent(new Event('focus'));
+    await Promise.resolve();
+
+    expect(swUpdate.checkForUpdate).toHaveBeenCalled();
+  });
+
+  it('should only tell the user when a new version fails to install', () => {
+    versionUpdates.next({ type: 'VERSION_INSTALLATION_FAILED', version: { hash: 'new' }, error: 'hash mismatch' });
+
+    expect(reload).not.toHaveBeenCalled();
+    expect(errors).toEqual(['update.installFailed']);
+  });
+
+  it('should force one reload per tab when unrecoverable, then stop to avoid a reload loop', () => {
+    unrecoverable.next({ type: 'UNRECOVERABLE_STATE', reason: 'files evicted' });
+    expect(reload).toHaveBeenCalledTimes(1);
+    expect(sessionStorage.getItem(FORCED_RELOAD_STORAGE_KEY)).not.toBeNull();
+
+    unrecoverable.next({ type: 'UNRECOVERABLE_STATE', reason: 'files evicted' });
+    expect(reload).toHaveBeenCalledTimes(1);
+    expect(errors).toEqual(['update.failed']);
+  });
+
+  it('should hold a forced reload until the customer leaves checkout', () => {
+    router.url = '/checkout/payment';
+
+    unrecoverable.next({ type: 'UNRECOVERABLE_STATE', reason: 'files evicted' });
+    unrecoverable.next({ type: 'UNRECOVERABLE_STATE', reason: 'files evicted' });
+    router.events.next(new NavigationEnd(1, '/checkout/confirmation/ORD-1', '/checkout/confirmation/ORD-1'));
+    expect(reload).not.toHaveBeenCalled();
+
+    router.url = '/products';
+    router.events.next(new NavigationEnd(2, '/products', '/products'));
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,236 @@
+import {
+  ApplicationRef,
+  DestroyRef,
+  DOCUMENT,
+  EnvironmentProviders,
+  Injectable,
+  InjectionToken,
+  inject,
+  makeEnvironmentProviders,
+  provideAppInitializer,
+  signal
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { NavigationEnd, Router } from '@angular/router';
+import { SwUpdate, VersionEvent } from '@angular/service-worker';
+import { EMPTY, catchError, exhaustMap, filter, first, from, fromEvent, interval, merge, switchMap } from 'rxjs';
+import { APP_VERSION } from '../tokens/app-version';
+import { getSessionStorage } from '../utils/storage';
+import { LoggerService } from './logger.service';
+import { NotificationService } from './notification.service';
+import { TranslationService } from './translation.service';
+
+/**
+ * How often an open tab asks the service worker for a new version.
+ * Focusing the tab also triggers a check.
+ */
+export const UPDATE_CHECK_INTERVAL = new InjectionToken<number>('UPDATE_CHECK_INTERVAL', {
+  providedIn: 'root',
+  factory: () => 6 * 60 * 60 * 1000   // 6 hours
+});
+
+// sessionStorage marker - at most ONE forced reload per tab, so a broken
+// deployment can't trap the tab in a reload loop
+export const FORCED_RELOAD_STORAGE_KEY = 'angular-shop.forced-reload';
+
+// Never reload under a customer who is paying or verifying their card
+const RELOAD_DEFERRED_URL_PREFIX = '/checkout';
+
+export interface AvailableUpdate {
+  hash: string;
+  version: string | null;   // ngsw-config.json appData.version, when set
+}
+
+/**
+ * ===========================================
+ * APP UPDATE SERVICE - Service worker versions
+ * ===========================================
+ *
+ * The service worker serves the cached bundle and downloads new
+ * deployments in the background. Without this service a tab keeps
+ * running the old bundle until every tab is closed.
+ *
+ *   app stable ──► checkForUpdate() every UPDATE_CHECK_INTERVAL + on focus
+ *                        │
+ *   VERSION_READY ───────┴──► available() ──► update prompt ──► activateAndReload()
+ *
+ *   VERSION_INSTALLATION_FAILED ──► toast   (the running version keeps working,
+ *                                            the worker retries on the next check)
+ *   unrecoverable state ──────────► forceReload()  (fresh bundle from the network)
+ *
+ * forceReload() is the last resort and guarded twice:
+ * - On /checkout it waits until the customer leaves - a reload there
+ *   could interrupt a payment or its card verification
+ * - Once per tab: a second one is skipped and the user is told to
+ *   reopen the shop instead
+ *
+ * Does nothing in development - the service worker is only enabled
+ * in production builds (see provideServiceWorker in app.config.ts).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AppUpdateService {
+  private readonly swUpdate = inject(SwUpdate);
+  private readonly router = inject(Router);
+  private readonly appRef = inject(ApplicationRef);
+  private readonly checkInterval = inject(UPDATE_CHECK_INTERVAL);
+  private readonly notifications = inject(NotificationService);
+  private readonly translation = inject(TranslationService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly document = inject(DOCUMENT);
+  private readonly window = this.document.defaultView;
+  private readonly log = inject(LoggerService).for('AppUpdate');
+
+  // Version of the running bundle - shown in the footer
+  readonly version = inject(APP_VERSION);
+
+  // A downloaded version waiting for a reload - drives the update prompt
+  private readonly _available = signal<AvailableUpdate | null>(null);
+  readonly available = this._available.asReadonly();
+
+  private readonly _reloading = signal(false);
+  readonly reloading = this._reloading.asReadonly();
+
+  private forcedReloadDeferred = false;
+
+  // Called once by provideAppUpdates()
+  init(): void {
+    if (!this.swUpdate.isEnabled) {
+      this.log.debug('Service worker disabled - update checks off');
+      return;
+    }
+
+    this.swUpdate.versionUpdates.pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(event => this.onVersionEvent(event));
+
+    this.swUpdate.unrecoverable.pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(event => {
+      // The cached bundle can't be served anymore (e.g. files evicted) - only a reload fixes it
+      this.log.error('❌ Service worker in unrecoverable state:', event.reason);
+      this.forceReload();
+    });
+
+    // Start checking once the app is stable, so checks don't delay startup
+    const triggers$ = this.window
+      ? merge(interval(this.checkInterval), fromEvent(this.window, 'focus'))
+      : interval(this.checkInterval);
+
+    this.appRef.isStable.pipe(
+      first(stable => stable),
+      switchMap(() => triggers$),
+      exhaustMap(() => from(this.swUpdate.checkForUpdate()).pipe(
+        catchError(error => {
+          this.log.warn('⚠️ Update check failed:', error);
+          return EMPTY;
+        })
+      )),
+      filter(found => found),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(() => this.log.info('📦 New version found, downloading'));
+  }
+
+  /**
+   * Switch to the downloaded version and reload. The reload is required:
+   * lazy chunks of the old bundle may no longer exist in the new one.
+   */
+  async activateAndReload(): Promise<void> {
+    this._reloading.set(true);
+    try {
+      await this.swUpdate.activateUpdate();
+      this.reload();
+    } catch (error) {
+      // Still on the old version, which keeps working - the next check retries
+      this.log.error('❌ Could not activate update:', error);
+      this._reloading.set(false);
+      this._available.set(null);
+      this.notifications.error(this.translation.translate('update.installFailed'));
+    }
+  }
+
+  // "Later" - hide the prompt until the next version arrives
+  dismiss(): void {
+    this._available.set(null);
+  }
+
+  private onVersionEvent(event: VersionEvent): void {
+    switch (event.type) {
+      case 'VERSION_DETECTED':
+        this.log.info('📦 Downloading version', { hash: event.version.hash });
+        break;
+      case 'VERSION_READY':
+        this.log.info('✅ Version ready', { current: event.currentVersion.hash, latest: event.latestVersion.hash });
+        this._available.set({ hash: event.latestVersion.hash, version: appDataVersion(event.latestVersion.appData) });
+        break;
+      case 'VERSION_INSTALLATION_FAILED':
+        // The worker keeps serving the current version - a reload would change nothing
+        this.log.error('❌ Version installation failed:', event.error);
+        this.notifications.error(this.translation.translate('update.installFailed'));
+        break;
+      case 'NO_NEW_VERSION_DETECTED':
+        break;
+    }
+  }
+
+  private forceReload(): void {
+    if (this.router.url.startsWith(RELOAD_DEFERRED_URL_PREFIX)) {
+      this.deferForcedReload();
+      return;
+    }
+
+    const storage = getSessionStorage(this.document);
+    if (storage?.getItem(FORCED_RELOAD_STORAGE_KEY)) {
+      this._reloading.set(false);
+      this.log.error('❌ Skipping forced reload - this tab was already force-reloaded');
+      this.notifications.error(this.translation.translate('update.failed'));
+      return;
+    }
+
+    try {
+      storage?.setItem(FORCED_RELOAD_STORAGE_KEY, new Date().toISOString());
+    } catch {
+      // Without the marker we can't guard - reload anyway, the browser cache is bypassed
+    }
+    this.reload();
+  }
+
+  // One pending reload, however many failures arrive meanwhile
+  private deferForcedReload(): void {
+    if (this.forcedReloadDeferred) return;
+    this.forcedReloadDeferred = true;
+    this.log.warn('⏸️ Forced reload deferred until checkout is left');
+
+    this.router.events.pipe(
+      filter((event): event is NavigationEnd => event instanceof NavigationEnd),
+      first(event => !event.urlAfterRedirects.startsWith(RELOAD_DEFERRED_URL_PREFIX)),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(() => {
+      this.forcedReloadDeferred = false;
+      this.forceReload();
+    });
+  }
+
+  private reload(): void {
+    this._reloading.set(true);
+    this.document.location.reload();
+  }
+}
+
+function appDataVersion(appData: object | undefined): string | null {
+  const version = (appData as { version?: unknown } | undefined)?.version;
+  return typeof version === 'string' ? version : null;
+}
+
+/**
+ * Listens for new service worker versions and keeps tabs up to date.
+ *
+ * Usage in app.config.ts:
+ *   providers: [provideServiceWorker('ngsw-worker.js', { ... }), provideAppUpdates()]
+ */
+export function provideAppUpdates(): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    provideAppInitializer(() => inject(AppUpdateService).init())
+  ]);
+}
@@ -0,0 +1,26 @@
+import { Observable } from 'rxjs';
+import { AuthSession, AuthTokens } from '../../features/auth/models/user.model';
+
+/**
+ * ===========================================
+ * AUTH BACKEND - Pluggable credential check
+ * ===========================================
+ *
+ * Why an abstract class?
+ * ----------------------
+ * An abstract class is both a TYPE and a DI TOKEN.
+ * AuthService injects AuthBackend and never knows which
+ * implementation it gets:
+ *
+ *   { provide: AuthBackend, useClass: InMemoryAuthBackend }  // dev/tests
+ *   { provide: AuthBackend, useClass: HttpAuthBackend }      // real API
+ *
+ * Implementations must ERROR the Observable for bad credentials
+ * and for refresh tokens that are expired or revoked.
+ */
+export abstract class AuthBackend {
+  abstract authenticate(email: string, password: string): Observable<AuthSession>;
+
+  // Exchange a refresh token for a NEW token pair (refresh tokens rotate)
+  abstract refresh(refreshToken: string): Observable<AuthTokens>;
+}
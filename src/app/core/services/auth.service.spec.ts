@@ -0,0 +1,90 @@
+import { TestBed } from '@angular/core/testing';
+import { Observable, Subject, of, throwError } from 'rxjs';
+import { AuthSession, AuthTokens, User } from '../../features/auth/models/user.model';
+import { AuthBackend } from './auth-backend';
+import { AuthService } from './auth.service';
+
+const jane: User = { id: 'u2', email: 'jane@test.com', name: 'Jane Roe', roles: ['customer'] };
+
+const tokens: AuthTokens = { accessToken: 'header.e30.', refreshToken: 'refresh-1' };
+
+class StubAuthBackend extends AuthBackend {
+  refreshCalls = 0;
+
+  authenticate(email: string, password: string): Observable<AuthSession> {
+    return email === jane.email && password === 'secret'
+      ? of({ user: jane, ...tokens })
+      : throwError(() => new Error('Invalid email or password'));
+  }
+
+  refresh(refreshToken: string): Observable<AuthTokens> {
+    this.refreshCalls++;
+    return refreshToken === tokens.refreshToken
+      ? new Subject<AuthTokens>()  // Never resolves - keeps the refresh in flight
+      : throwError(() => new Error('Refresh token is invalid'));
+  }
+}
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let backend: StubAuthBackend;
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: AuthBackend, useClass: StubAuthBackend }]
+    });
+    service = TestBed.inject(AuthService);
+    backend = TestBed.inject(AuthBackend) as StubAuthBackend;
+  });
+
+  it('should expose the signed-in user after login', () => {
+    service.login('jane@test.com', 'secret').subscribe();
+
+    expect(service.currentUser()).toEqual(jane);
+    expect(service.isAuthenticated()).toBe(true);
+    expect(service.accessToken()).toBe(tokens.accessToken);
+  });
+
+  it('should share a single in-flight refresh between concurrent callers', () => {
+    service.login('jane@test.com', 'secret').subscribe();
+
+    service.refreshSession().subscribe();
+    service.refreshSession().subscribe();
+
+    expect(backend.refreshCalls).toBe(1);
+    expect(service.isRefreshing()).toBe(true);
+  });
+
+  it('should clear an in-flight refresh on logout', () => {
+    service.login('jane@test.com', 'secret').subscribe();
+    service.refreshSession().subscribe({ error: () => undefined });
+
+    service.logout();
+
+    expect(service.isRefreshing()).toBe(false);
+  });
+
+  it('should stay signed out when credentials are rejected', () => {
+    let failed = false;
+    service.login('jane@test.com', 'wrong').subscribe({ error: () => (failed = true) });
+
+    expect(failed).toBe(true);
+    expect(service.isAuthenticated()).toBe(false);
+  });
+
+  it('should restore a remembered session and forget it on logout', () => {
+    service.login('jane@test.com', 'secret', { remember: true }).subscribe();
+
+    const restored = TestBed.runInInjectionContext(() => new AuthService());
+    restored.restoreSession();
+    expect(restored.currentUser()).toEqual(jane);
+
+    restored.logout();
+    const afterLogout = TestBed.runInInjectionContext(() => new AuthService());
+    afterLogout.restoreSession();
+    expect(afterLogout.isAuthenticated()).toBe(false);
+  });
+});
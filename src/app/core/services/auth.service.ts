@@ -0,0 +1,224 @@
+import { DestroyRef, Injectable, computed, inject, signal } from '@angular/core';
+import { Router } from '@angular/router';
+import { Observable, finalize, map, share, tap, throwError } from 'rxjs';
+import { AuthSession, AuthTokens, LoginOptions, User, UserRole } from '../../features/auth/models/user.model';
+import { getTokenExpiry } from '../utils/jwt';
+import { AuthBackend } from './auth-backend';
+import { LoggerService } from './logger.service';
+
+const SESSION_KEY = 'angular-shop.session';
+
+// Refresh this long BEFORE the access token expires
+const REFRESH_LEEWAY_MS = 30_000;
+
+// setTimeout fires IMMEDIATELY for delays above 2^31 - 1 ms (~24.8 days)
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * ===========================================
+ * AUTH SERVICE - Single source of truth for the user
+ * ===========================================
+ *
+ * Consumers:
+ * - authGuard       → isAuthenticated()
+ * - roleGuard       → hasAnyRole()
+ * - authInterceptor → accessToken(), refreshSession(), expireSession()
+ * - LoginComponent  → login()
+ * - HeaderComponent → currentUser(), logout()
+ *
+ * State is a private writable signal exposed as READ-ONLY,
+ * so only this service can change who is signed in.
+ *
+ * Token Lifecycle:
+ * ----------------
+ *   login() ──► access + refresh token
+ *      │
+ *      ├─► timer fires 30s before `exp` ──► refreshSession() (silent)
+ *      └─► API returns 401 ──────────────► refreshSession() (interceptor)
+ *                                               │
+ *                          refresh fails ◄──────┘
+ *                                │
+ *                                ▼
+ *               expireSession() → /login?returnUrl=...
+ *
+ * Session Restore:
+ * ----------------
+ * "Remember me" sessions go to localStorage, others to sessionStorage.
+ * restoreSession() runs on startup (see app.config.ts) BEFORE the
+ * first navigation, so guards see the restored user.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService {
+  private readonly backend = inject(AuthBackend);
+  private readonly router = inject(Router);
+  private readonly log = inject(LoggerService).for('AuthService');
+
+  private readonly session = signal<AuthSession | null>(null);
+
+  readonly currentUser = computed<User | null>(() => this.session()?.user ?? null);
+  readonly isAuthenticated = computed(() => this.session() !== null);
+  readonly accessToken = computed(() => this.session()?.accessToken ?? null);
+  readonly roles = computed<UserRole[]>(() => this.currentUser()?.roles ?? []);
+
+  // Single-flight refresh: every caller shares the same in-flight request
+  private refreshInFlight: Observable<AuthTokens> | null = null;
+  private readonly refreshing = signal(false);
+  readonly isRefreshing = this.refreshing.asReadonly();
+
+  private expiryTimer: ReturnType<typeof setTimeout> | undefined;
+  private remember = false;
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => clearTimeout(this.expiryTimer));
+  }
+
+  login(email: string, password: string, options: LoginOptions = {}): Observable<User> {
+    return this.backend.authenticate(email, password).pipe(
+      tap(session => {
+        this.remember = options.remember ?? false;
+        this.startSession(session);
+        this.log.info('🔐 Signed in', { userId: session.user.id, roles: session.user.roles });
+      }),
+      map(session => session.user)
+    );
+  }
+
+  /**
+   * True when the user has AT LEAST ONE of the given roles.
+   * Reads a signal, so it is reactive inside computed()/effect().
+   */
+  hasAnyRole(roles: readonly UserRole[]): boolean {
+    const userRoles = this.roles();
+    return roles.some(role => userRoles.includes(role));
+  }
+
+  logout(): void {
+    clearTimeout(this.expiryTimer);
+    // Drop a refresh in flight too - requests must not keep queuing behind it
+    this.refreshInFlight = null;
+    this.refreshing.set(false);
+    this.session.set(null);
+    this.clearSession();
+    this.log.info('🔐 Signed out');
+  }
+
+  /**
+   * Sign out because the session can no longer be renewed,
+   * sending the user to login the same way authGuard does.
+   */
+  expireSession(returnUrl = this.router.url): void {
+    if (!this.session()) return;  // Several failing requests may report the same expiry
+
+    this.log.info('⌛ Session expired');
+    this.logout();
+    this.router.navigate(['/login'], { queryParams: { returnUrl } });
+  }
+
+  /**
+   * Exchange the refresh token for new tokens.
+   * Concurrent callers get the SAME in-flight request.
+   */
+  refreshSession(): Observable<AuthTokens> {
+    const refreshToken = this.session()?.refreshToken;
+    if (!refreshToken) {
+      return throwError(() => new Error('No refresh token available'));
+    }
+
+    if (this.refreshInFlight) return this.refreshInFlight;
+
+    const refresh$: Observable<AuthTokens> = this.backend.refresh(refreshToken).pipe(
+      tap(tokens => {
+        const current = this.session();
+        if (current) this.startSession({ ...current, ...tokens });
+      }),
+      finalize(() => {
+        // A logout (and new login) may have replaced this refresh meanwhile
+        if (this.refreshInFlight !== refresh$) return;
+        this.refreshInFlight = null;
+        this.refreshing.set(false);
+      }),
+      share()
+    );
+    this.refreshInFlight = refresh$;
+    this.refreshing.set(true);
+
+    return refresh$;
+  }
+
+  restoreSession(): void {
+    const fromLocal = this.readStorage(localStorage);
+    const raw = fromLocal ?? this.readStorage(sessionStorage);
+    if (!raw) return;
+
+    try {
+      const session = JSON.parse(raw) as AuthSession;
+      if (session?.user?.id && session.accessToken && session.refreshToken) {
+        this.remember = fromLocal !== null;
+        this.startSession(session);  // Expired access token → refreshes immediately
+      }
+    } catch {
+      this.clearSession();  // Corrupted value - start signed out
+    }
+  }
+
+  // ========================================
+  // SESSION HELPERS
+  // ========================================
+  private startSession(session: AuthSession): void {
+    this.session.set(session);
+    this.saveSession(session);
+    this.scheduleRefresh(session.accessToken);
+  }
+
+  // Proactive refresh from the token's `exp` claim
+  private scheduleRefresh(accessToken: string): void {
+    clearTimeout(this.expiryTimer);
+
+    const expiresAt = getTokenExpiry(accessToken);
+    if (expiresAt === null) return;
+
+    const delayMs = Math.max(0, expiresAt - Date.now() - REFRESH_LEEWAY_MS);
+    if (delayMs > MAX_TIMEOUT_MS) {
+      // Long-lived token - check again later instead of overflowing the timer
+      this.expiryTimer = setTimeout(() => this.scheduleRefresh(accessToken), MAX_TIMEOUT_MS);
+      return;
+    }
+
+    this.expiryTimer = setTimeout(() => {
+      this.refreshSession().subscribe({
+        error: () => this.expireSession()
+      });
+    }, delayMs);
+  }
+
+  // ========================================
+  // STORAGE HELPERS
+  // ========================================
+  private saveSession(session: AuthSession): void {
+    this.clearSession();
+    try {
+      (this.remember ? localStorage : sessionStorage).setItem(SESSION_KEY, JSON.stringify(session));
+    } catch {
+      // Storage blocked - session lasts until reload
+    }
+  }
+
+  private clearSession(): void {
+    try {
+      localStorage.removeItem(SESSION_KEY);
+      sessionStorage.removeItem(SESSION_KEY);
+    } catch {
+      // Storage blocked - nothing to clear
+    }
+  }
+
+  private readStorage(storage: Storage): string | null {
+    try {
+      return storage.getItem(SESSION_KEY);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { Product } from '../../features/products/models/product.model';
+import { IndexedDbStore } from '../utils/indexed-db';
+import { LoggerService } from './logger.service';
+
+export interface CatalogSnapshot {
+  products: Product[];
+  savedAt: string;        // ISO date string
+}
+
+const SNAPSHOT_KEY = 'latest';
+
+/**
+ * ===========================================
+ * CATALOG CACHE - Last full catalog, in IndexedDB
+ * ===========================================
+ *
+ * ProductService saves every successful getProducts() here and reads
+ * it back when the network is gone:
+ *
+ *   online   getAll() ──► API ──► save(products) ──► caller
+ *   offline  getAll() ──► API ✗ ──► load() ──► caller (stale but usable)
+ *
+ * Only FULL catalog fetches are saved - a partial list would make the
+ * cart reconcile drop products that simply weren't on that page.
+ *
+ * Failures (no IndexedDB, quota) are logged and swallowed: the cache
+ * is a fallback, never a reason for a request to fail.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CatalogCacheService {
+  private readonly store = new IndexedDbStore<CatalogSnapshot>('angular-shop', 'catalog');
+  private readonly log = inject(LoggerService).for('CatalogCache');
+
+  // When the snapshot being used was taken - shown by the offline banner
+  private readonly _savedAt = signal<string | null>(null);
+  readonly savedAt = this._savedAt.asReadonly();
+
+  constructor() {
+    // The banner needs the snapshot's age from startup, not only after
+    // this session saved or read one (a newer save wins the race)
+    this.store.get(SNAPSHOT_KEY).then(
+      snapshot => {
+        if (snapshot && this._savedAt() === null) this._savedAt.set(snapshot.savedAt);
+      },
+      () => undefined   // No IndexedDB - load() logs it when the snapshot is needed
+    );
+  }
+
+  async save(products: Product[]): Promise<void> {
+    const snapshot: CatalogSnapshot = { products, savedAt: new Date().toISOString() };
+    try {
+      await this.store.put(SNAPSHOT_KEY, snapshot);
+      this._savedAt.set(snapshot.savedAt);
+    } catch (error) {
+      this.log.warn('⚠️ Could not cache catalog:', error);
+    }
+  }
+
+  async load(): Promise<CatalogSnapshot | undefined> {
+    try {
+      const snapshot = await this.store.get(SNAPSHOT_KEY);
+      if (snapshot) this._savedAt.set(snapshot.savedAt);
+      return snapshot;
+    } catch (error) {
+      this.log.warn('⚠️ Could not read cached catalog:', error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { User } from '../../features/auth/models/user.model';
+import { ShippingAddress } from '../../features/checkout/models/checkout.model';
+import { AuthService } from './auth.service';
+import { CheckoutStateService } from './checkout-state.service';
+
+const jane: User = { id: 'u2', email: 'jane@test.com', name: 'Jane Roe', roles: ['customer'] };
+
+const address: ShippingAddress = { fullName: 'Jane Roe', addressLine1: '1 Main St', city: 'Town', postalCode: '12345', country: 'Canada' };
+
+describe('CheckoutStateService', () => {
+  const currentUser = signal<User | null>(jane);
+
+  let state: CheckoutStateService;
+
+  beforeEach(() => {
+    currentUser.set(jane);
+    TestBed.configureTestingModule({
+      providers: [{ provide: AuthService, useValue: { currentUser } }]
+    });
+    state = TestBed.inject(CheckoutStateService);
+    TestBed.tick();
+  });
+
+  it('should only open a step once every step before it is complete', () => {
+    expect(state.canEnter('shipping')).toBe(true);
+    expect(state.canEnter('delivery')).toBe(false);
+
+    state.shippingAddress.set(address);
+    state.deliveryMethodId.set('express');
+    expect(state.canEnter('review')).toBe(true);
+    expect(state.canEnter('payment')).toBe(false);
+
+    state.reviewed.set(true);
+    expect(state.canEnter('payment')).toBe(true);
+  });
+
+  it('should forget the checkout when the user signs out', () => {
+    state.shippingAddress.set(address);
+    state.deliveryMethodId.set('express');
+
+    currentUser.set(null);
+    TestBed.tick();
+
+    expect(state.shippingAddress()).toBeNull();
+    expect(state.deliveryOption()).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import {
+  CheckoutStep,
+  DELIVERY_OPTIONS,
+  DeliveryMethodId,
+  ShippingAddress
+} from '../../features/checkout/models/checkout.model';
+import { UnrefundedCapture } from '../../features/checkout/models/payment.model';
+import { AuthService } from './auth.service';
+
+/**
+ * ===========================================
+ * CHECKOUT STATE - Survives step navigation
+ * ===========================================
+ *
+ * Each checkout step is its own routed component and is DESTROYED
+ * when the user moves on. Keeping the answers in a root service
+ * means going "Back" (or even to the cart and back) shows the
+ * form exactly as the user left it.
+ *
+ * reset() after the order is placed - and automatically when the
+ * signed-in user changes, so the next user never inherits an address
+ * (or the shipping and tax PricingService derives from it).
+ *
+ * unrefundedCapture outlives the payment step too: money taken for an
+ * order that failed (and could not be refunded) is placed with the
+ * next "Pay" instead of charging the card again.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CheckoutStateService {
+  private readonly authService = inject(AuthService);
+
+  readonly shippingAddress = signal<ShippingAddress | null>(null);
+  readonly deliveryMethodId = signal<DeliveryMethodId | null>(null);
+  readonly reviewed = signal(false);
+  readonly unrefundedCapture = signal<UnrefundedCapture | null>(null);
+
+  readonly deliveryOption = computed(() =>
+    DELIVERY_OPTIONS.find(option => option.id === this.deliveryMethodId()) ?? null
+  );
+
+  // A step is reachable once every step before it is complete
+  readonly completedSteps = computed<CheckoutStep[]>(() => {
+    const steps: CheckoutStep[] = [];
+    if (this.shippingAddress()) {
+      steps.push('shipping');
+      if (this.deliveryOption()) {
+        steps.push('delivery');
+        if (this.reviewed()) steps.push('review');
+      }
+    }
+    return steps;
+  });
+
+  private owner: string | null | undefined;
+
+  constructor() {
+    effect(() => {
+      const userId = this.authService.currentUser()?.id ?? null;
+      untracked(() => {
+        if (this.owner !== undefined && userId !== this.owner) this.reset();
+        this.owner = userId;
+      });
+    });
+  }
+
+  canEnter(step: CheckoutStep): boolean {
+    const completed = this.completedSteps();
+    switch (step) {
+      case 'shipping': return true;
+      case 'delivery': return completed.includes('shipping');
+      case 'review': return completed.includes('delivery');
+      case 'payment': return completed.includes('review');
+    }
+  }
+
+  reset(): void {
+    this.shippingAddress.set(null);
+    this.deliveryMethodId.set(null);
+    this.reviewed.set(false);
+    this.unrefundedCapture.set(null);
+  }
+}
@@ -0,0 +1,43 @@
+import { DOCUMENT, DestroyRef, Injectable, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { EMPTY, Observable, fromEvent } from 'rxjs';
+import { LoggerService } from './logger.service';
+
+/**
+ * ===========================================
+ * CONNECTIVITY SERVICE - Online / offline status
+ * ===========================================
+ *
+ * navigator.onLine + the window 'online' / 'offline' events as a signal:
+ *
+ *   online()       → drives the offline banner, offline fallbacks
+ *   reconnected$   → emits when the connection comes back
+ *                    (replay queued cart changes, refresh data)
+ *
+ * "online" only means the device has a network - requests can still
+ * fail, so callers keep handling errors (see classifyError 'offline').
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectivityService {
+  private readonly window = inject(DOCUMENT).defaultView;
+  private readonly log = inject(LoggerService).for('Connectivity');
+
+  private readonly _online = signal(this.window?.navigator.onLine ?? true);
+  readonly online = this._online.asReadonly();
+
+  readonly reconnected$: Observable<Event> = this.window ? fromEvent(this.window, 'online') : EMPTY;
+
+  constructor() {
+    if (!this.window) return;
+
+    const destroyRef = inject(DestroyRef);
+    for (const [type, online] of [['online', true], ['offline', false]] as const) {
+      fromEvent(this.window, type).pipe(takeUntilDestroyed(destroyRef)).subscribe(() => {
+        this._online.set(online);
+        this.log.info(online ? '🌐 Back online' : '📴 Offline');
+      });
+    }
+  }
+}
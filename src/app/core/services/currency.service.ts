@@ -0,0 +1,91 @@
+import { DOCUMENT, Injectable, InjectionToken, LOCALE_ID, computed, inject, signal } from '@angular/core';
+import { BASE_CURRENCY, CurrencyCode, ExchangeRates, Money, convert, formatMoney, fromMajor } from '../utils/money';
+import { getLocalStorage } from '../utils/storage';
+import { LoggerService } from './logger.service';
+
+export interface CurrencyConfig {
+  currencies: readonly CurrencyCode[];   // Offered in the selector, in this order
+  rates: ExchangeRates;                  // Units per 1 BASE_CURRENCY
+}
+
+/**
+ * Display currencies and exchange rates. Demo rates - in production
+ * provide them from a rates feed at startup:
+ *   { provide: CURRENCY_CONFIG, useValue: { currencies: ['USD', 'EUR'], rates } }
+ */
+export const CURRENCY_CONFIG = new InjectionToken<CurrencyConfig>('CURRENCY_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({
+    currencies: ['USD', 'EUR', 'GBP', 'INR', 'JPY'],
+    rates: { USD: 1, EUR: 0.92, GBP: 0.79, INR: 83.2, JPY: 149.5 }
+  })
+});
+
+export const CURRENCY_STORAGE_KEY = 'angular-shop.currency';
+
+/**
+ * ===========================================
+ * CURRENCY SERVICE - Display currency + formatting
+ * ===========================================
+ *
+ * Prices are stored and charged in BASE_CURRENCY. The customer can
+ * pick a DISPLAY currency; amounts are converted only when shown:
+ *
+ *   Money (USD) ──► convert(rates) ──► formatMoney(locale) ──► "92,00 €"
+ *
+ * - currency()  chosen display currency, remembered in localStorage
+ * - locale()    decides symbol placement and separators (Intl.NumberFormat)
+ * - format()    what the `money` pipe calls
+ *
+ * Historical amounts (placed orders, the card charge) are shown in the
+ * currency they were charged in: format(value, BASE_CURRENCY).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CurrencyService {
+  private readonly config = inject(CURRENCY_CONFIG);
+  private readonly storage = getLocalStorage(inject(DOCUMENT));
+  private readonly log = inject(LoggerService).for('CurrencyService');
+
+  readonly currencies = this.config.currencies;
+
+  private readonly _currency = signal<CurrencyCode>(this.restore());
+  readonly currency = this._currency.asReadonly();
+
+  private readonly _locale = signal(inject(LOCALE_ID));
+  readonly locale = this._locale.asReadonly();
+
+  readonly isBaseCurrency = computed(() => this._currency() === BASE_CURRENCY);
+
+  setCurrency(currency: CurrencyCode): void {
+    if (!this.currencies.includes(currency)) return;
+
+    this._currency.set(currency);
+    try {
+      this.storage?.setItem(CURRENCY_STORAGE_KEY, currency);
+    } catch (error) {
+      this.log.warn('⚠️ Could not remember display currency:', error);
+    }
+    this.log.debug('💱 Display currency changed', { currency });
+  }
+
+  setLocale(locale: string): void {
+    this._locale.set(locale);
+  }
+
+  // Plain numbers are decimal BASE_CURRENCY amounts (Product.price, Order totals)
+  convert(value: Money | number, to: CurrencyCode = this._currency()): Money {
+    const amount = typeof value === 'number' ? fromMajor(value) : value;
+    return convert(amount, to, this.config.rates);
+  }
+
+  format(value: Money | number, to: CurrencyCode = this._currency()): string {
+    return formatMoney(this.convert(value, to), this._locale());
+  }
+
+  private restore(): CurrencyCode {
+    const stored = this.storage?.getItem(CURRENCY_STORAGE_KEY) as CurrencyCode | null | undefined;
+    return stored && this.currencies.includes(stored) ? stored : BASE_CURRENCY;
+  }
+}
@@ -0,0 +1,46 @@
+import { Observable } from 'rxjs';
+
+/**
+ * ===========================================
+ * ERROR REPORT - What gets sent for one error
+ * ===========================================
+ */
+
+export interface Breadcrumb {
+  type: 'navigation' | 'click';
+  message: string;       // URL, or a short description of the clicked element
+  timestamp: string;     // ISO
+}
+
+export interface ErrorReport {
+  id: string;
+  timestamp: string;
+  appVersion: string;
+  url: string;
+  userId: string | null;
+  userAgent: string;
+  error: {
+    name: string;
+    message: string;
+    stack?: string;
+    kind: string;        // ErrorKind from classifyError()
+    status?: number;
+  };
+  breadcrumbs: Breadcrumb[];
+}
+
+/**
+ * ===========================================
+ * ERROR REPORT SINK - Where reports go
+ * ===========================================
+ *
+ * Same pattern as AuthBackend: the abstract class is the DI token.
+ *
+ *   { provide: ErrorReportSink, useClass: InMemoryErrorReportSink }  // default, no service needed
+ *   { provide: ErrorReportSink, useClass: HttpErrorReportSink }      // real endpoint
+ *
+ * send() must ERROR when delivery fails, so the batch is kept and retried.
+ */
+export abstract class ErrorReportSink {
+  abstract send(reports: ErrorReport[]): Observable<void>;
+}
@@ -0,0 +1,117 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { Router, provideRouter } from '@angular/router';
+import { Observable, Subject, of, throwError } from 'rxjs';
+import { classifyError } from '../handlers/error-classifier';
+import { APP_VERSION } from '../tokens/app-version';
+import { AuthService } from './auth.service';
+import { ErrorReport, ErrorReportSink } from './error-report-sink';
+import { ErrorReportingService } from './error-reporting.service';
+import { InMemoryErrorReportSink } from './in-memory-error-report-sink';
+
+class FlakySink extends ErrorReportSink {
+  online = false;
+  readonly delivered: ErrorReport[] = [];
+
+  send(reports: ErrorReport[]): Observable<void> {
+    if (!this.online) return throwError(() => new Error('Network down'));
+    this.delivered.push(...reports);
+    return of(undefined);
+  }
+}
+
+describe('ErrorReportingService', () => {
+  const setup = (sink: ErrorReportSink) => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: ErrorReportSink, useValue: sink },
+        { provide: APP_VERSION, useValue: '1.2.3' },
+        { provide: AuthService, useValue: { currentUser: signal({ id: 'u7' }) } },
+        provideRouter([{ path: 'search', children: [] }])
+      ]
+    });
+    return TestBed.inject(ErrorReportingService);
+  };
+
+  const report = (service: ErrorReportingService, message: string) => {
+    const error = new Error(message);
+    service.report(error, classifyError(error));
+  };
+
+  it('should batch reports with context and send them on flush', async () => {
+    const sink = new InMemoryErrorReportSink();
+    const service = setup(sink);
+
+    report(service, 'first');
+    report(service, 'second');
+    expect(sink.sent).toEqual([]);   // Waiting for the batch window
+
+    await service.flush();
+
+    expect(sink.sent.map(r => r.error.message)).toEqual(['first', 'second']);
+    expect(sink.sent[0]).toMatchObject({ appVersion: '1.2.3', userId: 'u7', error: { kind: 'unknown' } });
+  });
+
+  it('should keep failed batches and deliver them on the next flush', async () => {
+    const sink = new FlakySink();
+    const service = setup(sink);
+
+    report(service, 'lost?');
+    await service.flush();
+    expect(sink.delivered).toEqual([]);
+
+    sink.online = true;
+    await service.flush();
+
+    expect(sink.delivered.map(r => r.error.message)).toEqual(['lost?']);
+  });
+
+  it('should reschedule a flush that was skipped while another was in flight', async () => {
+    vi.useFakeTimers();
+    try {
+      const inFlight = new Subject<void>();
+      const sink = new InMemoryErrorReportSink();
+      const send = vi.spyOn(sink, 'send').mockReturnValueOnce(inFlight);
+      const service = setup(sink);
+
+      report(service, 'first');
+      const firstFlush = service.flush();
+      report(service, 'second');
+      await vi.advanceTimersByTimeAsync(5000);   // Skipped - 'first' is still being sent
+
+      inFlight.complete();
+      await firstFlush;
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(sink.sent.map(r => r.error.message)).toEqual(['second']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should report the path without the query string', async () => {
+    const sink = new InMemoryErrorReportSink();
+    const service = setup(sink);
+    const originalUrl = location.href;
+    history.replaceState(null, '', '/search?q=jane@example.com');
+
+    report(service, 'boom');
+    history.replaceState(null, '', originalUrl);
+    await service.flush();
+
+    expect(sink.sent[0].url).toBe('/search');
+  });
+
+  it('should record navigation breadcrumbs without the query string', async () => {
+    const sink = new InMemoryErrorReportSink();
+    const service = setup(sink);
+    service.init();
+
+    await TestBed.inject(Router).navigateByUrl('/search?q=jane@example.com#top');
+    report(service, 'boom');
+    await service.flush();
+
+    expect(sink.sent[0].breadcrumbs).toEqual([expect.objectContaining({ type: 'navigation', message: '/search' })]);
+  });
+});
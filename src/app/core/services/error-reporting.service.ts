@@ -0,0 +1,274 @@
+import {
+  DestroyRef,
+  DOCUMENT,
+  EnvironmentProviders,
+  Injectable,
+  Injector,
+  inject,
+  makeEnvironmentProviders,
+  provideAppInitializer
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { NavigationEnd, Router } from '@angular/router';
+import { filter, fromEvent } from 'rxjs';
+import { ClassifiedError, unwrapError } from '../handlers/error-classifier';
+import { APP_VERSION } from '../tokens/app-version';
+import { IndexedDbStore } from '../utils/indexed-db';
+import { AuthService } from './auth.service';
+import { Breadcrumb, ErrorReport, ErrorReportSink } from './error-report-sink';
+import { LoggerService, redactText } from './logger.service';
+
+const MAX_BREADCRUMBS = 20;
+const BATCH_SIZE = 10;
+const FLUSH_DELAY_MS = 5000;
+
+/**
+ * ===========================================
+ * ERROR REPORTING - Batched, offline-safe telemetry
+ * ===========================================
+ *
+ *   GlobalErrorHandler.handleError(error)
+ *          │
+ *          ▼
+ *   report() ── adds context: URL, user id, app version, breadcrumbs
+ *          │
+ *          ▼
+ *   queue ──(10 reports OR 5s later)──► flush() ──► ErrorReportSink.send()
+ *                                          │
+ *              offline / send failed ──────┘
+ *                       │
+ *                       ▼
+ *              IndexedDB buffer ──(window 'online')──► flush()
+ *
+ * Buffered reports are only deleted AFTER the sink accepted them, so a
+ * tab closed mid-send loses nothing (the backend dedupes by report id).
+ *
+ * Breadcrumbs = the last 20 navigations and clicks, so a report
+ * shows what the user did right before the error.
+ *
+ * Router and AuthService are resolved LAZILY through the Injector:
+ * ErrorHandler is created very early and must not pull them in.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ErrorReportingService {
+  private readonly injector = inject(Injector);
+  private readonly sink = inject(ErrorReportSink);
+  private readonly appVersion = inject(APP_VERSION);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly document = inject(DOCUMENT);
+  private readonly window = this.document.defaultView;
+  private readonly log = inject(LoggerService).for('ErrorReporting');
+
+  private readonly offlineBuffer = new IndexedDbStore<ErrorReport>('angular-shop', 'error-reports');
+  // Used when IndexedDB is unavailable
+  private memoryBuffer: ErrorReport[] = [];
+
+  private readonly breadcrumbs: Breadcrumb[] = [];
+  private queue: ErrorReport[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+
+  /**
+   * Starts collecting breadcrumbs and retries buffered reports.
+   * Called once from provideErrorReporting().
+   */
+  init(): void {
+    this.injector.get(Router).events.pipe(
+      filter((event): event is NavigationEnd => event instanceof NavigationEnd),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(event => this.addBreadcrumb('navigation', pathOnly(event.urlAfterRedirects)));
+
+    fromEvent<MouseEvent>(this.document, 'click', { capture: true }).pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(event => {
+      const description = describeElement(event.target);
+      if (description) this.addBreadcrumb('click', description);
+    });
+
+    if (this.window) {
+      fromEvent(this.window, 'online').pipe(
+        takeUntilDestroyed(this.destroyRef)
+      ).subscribe(() => this.flush());
+    }
+
+    // Reports buffered during an earlier (offline) visit
+    this.flush();
+  }
+
+  report(error: unknown, classified: ClassifiedError): void {
+    const cause = toErrorDetails(unwrapError(error));
+
+    this.queue.push({
+      id: createReportId(),
+      timestamp: new Date().toISOString(),
+      appVersion: this.appVersion,
+      // Path only - query strings can carry tokens, emails or search terms
+      url: this.window?.location.pathname ?? '',
+      userId: this.injector.get(AuthService).currentUser()?.id ?? null,
+      userAgent: this.window?.navigator.userAgent ?? '',
+      error: {
+        name: cause.name,
+        message: redactText(cause.message),    // Same masking as the logger
+        stack: cause.stack && redactText(cause.stack),
+        kind: classified.kind,
+        status: classified.status
+      },
+      breadcrumbs: [...this.breadcrumbs]
+    });
+
+    if (this.queue.length >= BATCH_SIZE) {
+      this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Sends everything queued + buffered. Anything that cannot be
+   * delivered goes (back) into the offline buffer.
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.flushing) {
+      // Reports queued meanwhile must not wait for the next error
+      this.scheduleFlush();
+      return;
+    }
+
+    const pending = this.queue;
+    this.queue = [];
+
+    if (!this.isOnline()) {
+      await this.buffer(pending);
+      return;
+    }
+
+    this.flushing = true;
+    try {
+      const stored = await this.readStored();
+      const unstored = [...this.memoryBuffer, ...pending];
+      this.memoryBuffer = [];
+
+      const reports = [...stored.map(entry => entry.value), ...unstored];
+      if (reports.length === 0) return;
+
+      try {
+        await new Promise<void>((resolve, reject) =>
+          this.sink.send(reports).subscribe({ complete: resolve, error: reject })
+        );
+      } catch (sendError) {
+        // Stored reports are still in IndexedDB - only buffer the rest
+        this.log.warn('⚠️ Could not send reports, buffering:', sendError);
+        await this.buffer(unstored);
+        return;
+      }
+
+      await this.deleteStored(stored.map(entry => entry.key));
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  // ========================================
+  // PRIVATE HELPERS
+  // ========================================
+  private addBreadcrumb(type: Breadcrumb['type'], message: string): void {
+    this.breadcrumbs.push({ type, message, timestamp: new Date().toISOString() });
+    if (this.breadcrumbs.length > MAX_BREADCRUMBS) this.breadcrumbs.shift();
+  }
+
+  private scheduleFlush(): void {
+    this.flushTimer ??= setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+  }
+
+  private isOnline(): boolean {
+    return this.window?.navigator.onLine ?? true;
+  }
+
+  private async buffer(reports: ErrorReport[]): Promise<void> {
+    if (reports.length === 0) return;
+    try {
+      for (const report of reports) await this.offlineBuffer.add(report);
+    } catch {
+      this.memoryBuffer.push(...reports);
+    }
+  }
+
+  private async readStored(): Promise<{ key: IDBValidKey; value: ErrorReport }[]> {
+    try {
+      return await this.offlineBuffer.entries();
+    } catch {
+      return [];
+    }
+  }
+
+  // Only the sent keys - reports buffered by another tab meanwhile stay
+  private async deleteStored(keys: IDBValidKey[]): Promise<void> {
+    try {
+      for (const key of keys) await this.offlineBuffer.delete(key);
+    } catch (error) {
+      this.log.warn('⚠️ Could not clear sent reports, they may be sent again:', error);
+    }
+  }
+}
+
+// crypto.randomUUID() only exists in secure contexts (HTTPS, localhost)
+function createReportId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+// Same rule as report(): query strings and fragments can carry tokens, emails or search terms
+function pathOnly(url: string): string {
+  return url.split(/[?#]/)[0];
+}
+
+// Errors, HttpErrorResponse (not an Error subclass) and thrown strings
+function toErrorDetails(error: unknown): { name: string; message: string; stack?: string } {
+  if (error instanceof Error) return error;
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    const { name, message } = error as { name?: unknown; message: unknown };
+    return { name: typeof name === 'string' ? name : 'Error', message: String(message) };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+/**
+ * Short, PII-free description of a clicked element:
+ *   button "Add to Cart", a#checkout, input[name=email]
+ * Never includes what the user TYPED.
+ */
+function describeElement(target: EventTarget | null): string | null {
+  if (!(target instanceof Element)) return null;
+
+  const element = target.closest('button, a, input, select, textarea, [role=button]') ?? target;
+  const tag = element.tagName.toLowerCase();
+
+  if (element.id) return `${tag}#${element.id}`;
+  if (tag === 'input' || tag === 'select' || tag === 'textarea') {
+    const name = element.getAttribute('name') ?? element.getAttribute('formcontrolname');
+    return name ? `${tag}[name=${name}]` : tag;
+  }
+
+  const text = element.textContent?.trim().replace(/\s+/g, ' ').slice(0, 40);
+  return text ? `${tag} "${text}"` : tag;
+}
+
+/**
+ * Starts breadcrumb collection and offline retry on startup.
+ *
+ * Usage in app.config.ts:
+ *   providers: [{ provide: ErrorReportSink, useClass: ... }, provideErrorReporting()]
+ */
+export function provideErrorReporting(): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    provideAppInitializer(() => inject(ErrorReportingService).init())
+  ]);
+}
@@ -0,0 +1,140 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, of, delay, throwError } from 'rxjs';
+import {
+  CardBrand,
+  CardDetails,
+  PaymentAuthorization,
+  PaymentCapture,
+  PaymentRequest
+} from '../../features/checkout/models/payment.model';
+import { PaymentProvider } from './payment-provider';
+import { TranslationService } from './translation.service';
+
+// Magic card numbers (any future expiry, any CVC)
+export const FAKE_CARDS = {
+  success: '4242424242424242',
+  declined: '4000000000000002',
+  insufficientFunds: '4000000000009995',
+  challenge: '4000000000003220'
+} as const;
+
+// The "bank" accepts this code on the challenge screen
+export const FAKE_CHALLENGE_CODE = '123456';
+
+interface PendingAuthorization {
+  amount: number;
+  card: CardDetails;
+  status: 'challenge_required' | 'authorized' | 'captured' | 'refunded';
+  captureId?: string;
+}
+
+/**
+ * Local fake gateway - no network, no real money.
+ * Any other Luhn-valid number is authorized.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FakePaymentProvider extends PaymentProvider {
+  private readonly translation = inject(TranslationService);
+
+  private readonly authorizations = new Map<string, PendingAuthorization>();
+
+  authorize(request: PaymentRequest): Observable<PaymentAuthorization> {
+    const { card, amount } = request;
+
+    if (card.number === FAKE_CARDS.declined) {
+      return this.respond({ status: 'declined', reason: 'card_declined', message: this.translation.translate('payment.declined') });
+    }
+    if (card.number === FAKE_CARDS.insufficientFunds) {
+      return this.respond({ status: 'declined', reason: 'insufficient_funds', message: this.translation.translate('payment.insufficientFunds') });
+    }
+
+    const authorizationId = `auth_${crypto.randomUUID()}`;
+
+    if (card.number === FAKE_CARDS.challenge) {
+      this.authorizations.set(authorizationId, { amount, card, status: 'challenge_required' });
+      return this.respond({
+        status: 'challenge_required',
+        authorizationId,
+        message: this.translation.translate('payment.challenge', { code: FAKE_CHALLENGE_CODE })
+      });
+    }
+
+    this.authorizations.set(authorizationId, { amount, card, status: 'authorized' });
+    return this.respond(this.authorized(authorizationId, card));
+  }
+
+  completeChallenge(authorizationId: string, code: string): Observable<PaymentAuthorization> {
+    const pending = this.authorizations.get(authorizationId);
+    if (!pending || pending.status !== 'challenge_required') {
+      return throwError(() => new Error('Unknown or expired authorization'));
+    }
+
+    if (code.trim() !== FAKE_CHALLENGE_CODE) {
+      this.authorizations.delete(authorizationId);
+      return this.respond({ status: 'declined', reason: 'challenge_failed', message: this.translation.translate('payment.verificationFailed') });
+    }
+
+    pending.status = 'authorized';
+    return this.respond(this.authorized(authorizationId, pending.card));
+  }
+
+  capture(authorizationId: string): Observable<PaymentCapture> {
+    const pending = this.authorizations.get(authorizationId);
+    if (!pending || pending.status !== 'authorized') {
+      return throwError(() => new Error('Payment is not authorized'));
+    }
+
+    pending.status = 'captured';
+    pending.captureId = `cap_${crypto.randomUUID()}`;
+    return of({
+      captureId: pending.captureId,
+      authorizationId,
+      amount: pending.amount
+    }).pipe(delay(400));
+  }
+
+  voidAuthorization(authorizationId: string): Observable<void> {
+    const pending = this.authorizations.get(authorizationId);
+    if (!pending || pending.status === 'captured' || pending.status === 'refunded') {
+      return throwError(() => new Error('Only an uncaptured authorization can be voided'));
+    }
+
+    this.authorizations.delete(authorizationId);
+    return of(undefined).pipe(delay(200));
+  }
+
+  refund(captureId: string): Observable<void> {
+    const pending = [...this.authorizations.values()].find(candidate => candidate.captureId === captureId);
+    if (!pending || pending.status !== 'captured') {
+      return throwError(() => new Error('Unknown or already refunded capture'));
+    }
+
+    pending.status = 'refunded';
+    return of(undefined).pipe(delay(400));
+  }
+
+  // ========================================
+  // PRIVATE HELPERS
+  // ========================================
+  private authorized(authorizationId: string, card: CardDetails): PaymentAuthorization {
+    return {
+      status: 'authorized',
+      authorizationId,
+      brand: detectCardBrand(card.number),
+      last4: card.number.slice(-4)
+    };
+  }
+
+  private respond(result: PaymentAuthorization): Observable<PaymentAuthorization> {
+    return of(result).pipe(delay(700));
+  }
+}
+
+export function detectCardBrand(cardNumber: string): CardBrand {
+  if (/^4/.test(cardNumber)) return 'visa';
+  if (/^(5[1-5]|2[2-7])/.test(cardNumber)) return 'mastercard';
+  if (/^3[47]/.test(cardNumber)) return 'amex';
+  return 'unknown';
+}
@@ -0,0 +1,36 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable, map } from 'rxjs';
+import { SKIP_AUTH } from '../interceptors/auth.interceptor';
+import { ErrorReport, ErrorReportSink } from './error-report-sink';
+
+/**
+ * Endpoint that receives error report batches.
+ *   { provide: ERROR_REPORTING_URL, useValue: 'https://errors.example.com/v1/reports' }
+ */
+export const ERROR_REPORTING_URL = new InjectionToken<string>('ERROR_REPORTING_URL', {
+  providedIn: 'root',
+  factory: () => '/api/error-reports'
+});
+
+/**
+ * HTTP ErrorReportSink
+ *
+ *   POST /api/error-reports  { reports: ErrorReport[] }
+ *
+ * SKIP_AUTH: a report about an expired session must not itself
+ * trigger a token refresh (or a loop of failing reports).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HttpErrorReportSink extends ErrorReportSink {
+  private readonly http = inject(HttpClient);
+  private readonly url = inject(ERROR_REPORTING_URL);
+
+  send(reports: ErrorReport[]): Observable<void> {
+    return this.http.post(this.url, { reports }, {
+      context: new HttpContext().set(SKIP_AUTH, true)
+    }).pipe(map(() => undefined));
+  }
+}
@@ -0,0 +1,101 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpParams } from '@angular/common/http';
+import { Observable, catchError, of, throwError } from 'rxjs';
+import { CreateProduct, Product, ProductPage, ProductQuery, UpdateProduct } from '../../features/products/models/product.model';
+import { ProductDataSource } from './product-data-source';
+
+/**
+ * Base URL of the products REST API.
+ * Override to point at another host:
+ *   { provide: PRODUCTS_API_URL, useValue: 'https://api.example.com/products' }
+ */
+export const PRODUCTS_API_URL = new InjectionToken<string>('PRODUCTS_API_URL', {
+  providedIn: 'root',
+  factory: () => '/api/products'
+});
+
+/**
+ * Paged catalog queries. A separate resource, NOT /api/products/page -
+ * that path would collide with /api/products/:id.
+ */
+export const PRODUCT_PAGES_API_URL = new InjectionToken<string>('PRODUCT_PAGES_API_URL', {
+  providedIn: 'root',
+  factory: () => '/api/product-pages'
+});
+
+/**
+ * HTTP ProductDataSource - REST API
+ *
+ * Endpoints:
+ *   GET /api/products                 → Product[]
+ *   GET /api/product-pages?page=2&... → ProductPage (paged/sorted/filtered)
+ *   GET /api/products/:id             → Product (404 → undefined)
+ *   GET /api/products?category=books  → Product[]
+ *   GET /api/products?q=lamp          → Product[] (name, description, category)
+ *   POST /api/products                → Product (server assigns id)
+ *   PATCH /api/products/:id           → Product
+ *   DELETE /api/products/:id          → 204
+ *
+ * Auth headers are added by authInterceptor, not here.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HttpProductDataSource extends ProductDataSource {
+  private readonly http = inject(HttpClient);
+  private readonly baseUrl = inject(PRODUCTS_API_URL);
+  private readonly pagesUrl = inject(PRODUCT_PAGES_API_URL);
+
+  getAll(): Observable<Product[]> {
+    return this.http.get<Product[]>(this.baseUrl);
+  }
+
+  query(query: ProductQuery): Observable<ProductPage> {
+    let params = new HttpParams()
+      .set('page', query.page)
+      .set('pageSize', query.pageSize);
+
+    if (query.sort) params = params.set('sort', query.sort).set('direction', query.direction ?? 'asc');
+    if (query.category) params = params.set('category', query.category);
+    if (query.minPrice !== undefined) params = params.set('minPrice', query.minPrice);
+    if (query.maxPrice !== undefined) params = params.set('maxPrice', query.maxPrice);
+    if (query.inStockOnly) params = params.set('inStock', true);
+    if (query.minRating !== undefined) params = params.set('minRating', query.minRating);
+
+    return this.http.get<ProductPage>(this.pagesUrl, { params });
+  }
+
+  getById(id: number): Observable<Product | undefined> {
+    return this.http.get<Product>(`${this.baseUrl}/${id}`).pipe(
+      catchError((error: unknown) =>
+        error instanceof HttpErrorResponse && error.status === 404
+          ? of(undefined)  // Missing product is a valid answer, not a failure
+          : throwError(() => error)
+      )
+    );
+  }
+
+  getByCategory(category: string): Observable<Product[]> {
+    return this.http.get<Product[]>(this.baseUrl, {
+      params: new HttpParams().set('category', category)
+    });
+  }
+
+  search(query: string): Observable<Product[]> {
+    return this.http.get<Product[]>(this.baseUrl, {
+      params: new HttpParams().set('q', query)
+    });
+  }
+
+  create(product: CreateProduct): Observable<Product> {
+    return this.http.post<Product>(this.baseUrl, product);
+  }
+
+  update({ id, ...changes }: UpdateProduct): Observable<Product> {
+    return this.http.patch<Product>(`${this.baseUrl}/${id}`, changes);
+  }
+
+  delete(id: number): Observable<void> {
+    return this.http.delete<void>(`${this.baseUrl}/${id}`);
+  }
+}
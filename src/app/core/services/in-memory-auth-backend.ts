@@ -0,0 +1,82 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, of, switchMap, throwError, timer } from 'rxjs';
+import { ValidationError } from '../errors/validation-error';
+import { AuthSession, AuthTokens, User } from '../../features/auth/models/user.model';
+import { AuthBackend } from './auth-backend';
+import { TranslationService } from './translation.service';
+
+interface StoredAccount extends User {
+  password: string;
+}
+
+// Short access token lifetime so refreshes actually happen during a demo
+const ACCESS_TOKEN_TTL_SECONDS = 5 * 60;
+
+/**
+ * In-memory AuthBackend - works offline, no server needed.
+ * Simulates network latency like ProductService does.
+ *
+ * Tokens are UNSIGNED JWTs (alg: none) - just enough for the
+ * client to read `exp`. Refresh tokens look like `rt.<userId>.<nonce>`
+ * so they survive a page reload without a server-side table.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InMemoryAuthBackend extends AuthBackend {
+  private readonly translation = inject(TranslationService);
+
+  // Simulated user table (later replace with a real API)
+  private readonly accounts: StoredAccount[] = [
+    { id: 'u1', email: 'test@test.com', password: '123456', name: 'John Doe', roles: ['customer'] },
+    { id: 'u2', email: 'staff@test.com', password: '123456', name: 'Sam Staff', roles: ['staff'] },
+    { id: 'u3', email: 'admin@test.com', password: '123456', name: 'Ada Admin', roles: ['admin'] }
+  ];
+
+  authenticate(email: string, password: string): Observable<AuthSession> {
+    const account = this.accounts.find(a =>
+      a.email.toLowerCase() === email.trim().toLowerCase() && a.password === password
+    );
+
+    return timer(800).pipe(  // Simulate 800ms network delay
+      switchMap(() => {
+        if (!account) {
+          return throwError(() => new ValidationError(this.translation.translate('login.invalidCredentials')));
+        }
+        const user = this.toUser(account);
+        return of({ user, ...this.issueTokens(user) });
+      })
+    );
+  }
+
+  refresh(refreshToken: string): Observable<AuthTokens> {
+    const [prefix, userId] = refreshToken.split('.');
+    const account = prefix === 'rt' ? this.accounts.find(a => a.id === userId) : undefined;
+
+    return timer(300).pipe(
+      switchMap(() => account
+        ? of(this.issueTokens(this.toUser(account)))
+        : throwError(() => new Error('Refresh token is invalid or expired'))
+      )
+    );
+  }
+
+  private toUser(account: StoredAccount): User {
+    const { password: _password, ...user } = account;
+    return user;
+  }
+
+  private issueTokens(user: User): AuthTokens {
+    const now = Math.floor(Date.now() / 1000);
+    const payload = { sub: user.id, iat: now, exp: now + ACCESS_TOKEN_TTL_SECONDS };
+
+    return {
+      accessToken: `${base64Url({ alg: 'none', typ: 'JWT' })}.${base64Url(payload)}.`,
+      refreshToken: `rt.${user.id}.${crypto.randomUUID()}`
+    };
+  }
+}
+
+function base64Url(value: object): string {
+  return btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
@@ -0,0 +1,22 @@
+import { Injectable } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { ErrorReport, ErrorReportSink } from './error-report-sink';
+
+/**
+ * In-memory ErrorReportSink - keeps the last reports in `sent`
+ * (handy in tests and from the devtools console). Never fails.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InMemoryErrorReportSink extends ErrorReportSink {
+  private static readonly MAX_KEPT = 100;
+
+  readonly sent: ErrorReport[] = [];
+
+  send(reports: ErrorReport[]): Observable<void> {
+    this.sent.push(...reports);
+    this.sent.splice(0, Math.max(0, this.sent.length - InMemoryErrorReportSink.MAX_KEPT));
+    return of(undefined);
+  }
+}
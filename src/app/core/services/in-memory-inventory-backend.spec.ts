@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+import { Observable, firstValueFrom, of } from 'rxjs';
+import { InsufficientStockError } from '../errors/insufficient-stock-error';
+import { RESERVATION_TTL_MS } from '../../features/checkout/models/inventory.model';
+import { Product, UpdateProduct } from '../../features/products/models/product.model';
+import { InMemoryInventoryBackend } from './in-memory-inventory-backend';
+import { InMemoryProductDataSource } from './in-memory-product-data-source';
+
+const lamp: Product = { id: 5, name: 'Desk Lamp', price: 49.99, image: 'lamp.png', category: 'home', stock: 1, rating: 4 };
+
+describe('InMemoryInventoryBackend', () => {
+  let products: Product[];
+  let backend: InMemoryInventoryBackend;
+
+  beforeEach(() => {
+    products = [lamp];
+
+    TestBed.configureTestingModule({
+      providers: [{
+        provide: InMemoryProductDataSource,
+        useValue: {
+          getAll: () => of(products),
+          update: ({ id, stock }: UpdateProduct): Observable<Product> => {
+            products = products.map(p => p.id === id ? { ...p, stock: stock ?? p.stock } : p);
+            return of(products.find(p => p.id === id)!);
+          }
+        }
+      }]
+    });
+    backend = TestBed.inject(InMemoryInventoryBackend);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not let two customers reserve the last unit', async () => {
+    const reservation = await firstValueFrom(backend.reserve('u1', [{ productId: lamp.id, quantity: 1 }]));
+
+    const second = firstValueFrom(backend.reserve('u2', [{ productId: lamp.id, quantity: 1 }]));
+    await expect(second).rejects.toBeInstanceOf(InsufficientStockError);
+    await expect(second).rejects.toMatchObject({ issues: [{ productId: lamp.id, requested: 1, available: 0 }] });
+
+    // A sale decrements stock; releasing instead would free the unit
+    await firstValueFrom(backend.commit(reservation.id));
+    expect(products[0].stock).toBe(0);
+  });
+
+  it('should free units once a reservation expires', async () => {
+    await firstValueFrom(backend.reserve('u1', [{ productId: lamp.id, quantity: 1 }]));
+
+    vi.setSystemTime(Date.now() + RESERVATION_TTL_MS + 1000);
+
+    const reservation = await firstValueFrom(backend.reserve('u2', [{ productId: lamp.id, quantity: 1 }]));
+    expect(reservation.holderId).toBe('u2');
+  });
+});
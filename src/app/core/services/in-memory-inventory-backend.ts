@@ -0,0 +1,105 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, delay, forkJoin, map, of, switchMap, throwError } from 'rxjs';
+import { InsufficientStockError } from '../errors/insufficient-stock-error';
+import { ValidationError } from '../errors/validation-error';
+import {
+  RESERVATION_TTL_MS,
+  ReservationLine,
+  StockIssue,
+  StockReservation
+} from '../../features/checkout/models/inventory.model';
+import { Product } from '../../features/products/models/product.model';
+import { InMemoryProductDataSource } from './in-memory-product-data-source';
+import { InventoryBackend } from './inventory-backend';
+import { TranslationService } from './translation.service';
+
+/**
+ * In-memory InventoryBackend - reservations live until the page reloads.
+ * Stock levels are read from (and written back to) the in-memory catalog -
+ * never the configured ProductDataSource, which may be the REST API.
+ *
+ * Expired reservations are dropped lazily on every call - no timers.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InMemoryInventoryBackend extends InventoryBackend {
+  private readonly catalog = inject(InMemoryProductDataSource);
+  private readonly translation = inject(TranslationService);
+
+  private reservations: StockReservation[] = [];
+
+  reserve(holderId: string, lines: ReservationLine[]): Observable<StockReservation> {
+    return this.catalog.getAll().pipe(
+      switchMap(products => {
+        this.dropExpired();
+        const others = this.reservations.filter(reservation => reservation.holderId !== holderId);
+
+        const issues = lines
+          .map(line => this.checkLine(line, products, others))
+          .filter((issue): issue is StockIssue => issue !== null);
+        if (issues.length > 0) {
+          return throwError(() => new InsufficientStockError(issues, this.translation.translator));
+        }
+
+        const reservation: StockReservation = {
+          id: `RES-${Date.now().toString(36).toUpperCase()}`,
+          holderId,
+          lines: lines.map(line => ({ ...line })),
+          expiresAt: new Date(Date.now() + RESERVATION_TTL_MS).toISOString()
+        };
+        this.reservations = [...others, reservation];
+
+        return of(reservation).pipe(delay(300));
+      })
+    );
+  }
+
+  release(reservationId: string): Observable<void> {
+    this.reservations = this.reservations.filter(reservation => reservation.id !== reservationId);
+    return of(undefined).pipe(delay(100));
+  }
+
+  commit(reservationId: string): Observable<void> {
+    this.dropExpired();
+    const reservation = this.reservations.find(candidate => candidate.id === reservationId);
+    if (!reservation) {
+      return throwError(() => new ValidationError(this.translation.translate('stock.reservationExpired')));
+    }
+    this.reservations = this.reservations.filter(candidate => candidate.id !== reservationId);
+
+    return this.catalog.getAll().pipe(
+      switchMap(products => forkJoin(reservation.lines.map(line => {
+        const stock = products.find(product => product.id === line.productId)?.stock ?? 0;
+        return this.catalog.update({ id: line.productId, stock: Math.max(0, stock - line.quantity) });
+      }))),
+      map(() => undefined)
+    );
+  }
+
+  // ========================================
+  // PRIVATE HELPERS
+  // ========================================
+  private checkLine(line: ReservationLine, products: Product[], others: StockReservation[]): StockIssue | null {
+    const product = products.find(candidate => candidate.id === line.productId);
+    const reservedByOthers = others
+      .flatMap(reservation => reservation.lines)
+      .filter(reserved => reserved.productId === line.productId)
+      .reduce((sum, reserved) => sum + reserved.quantity, 0);
+    const available = Math.max(0, (product?.stock ?? 0) - reservedByOthers);
+
+    if (product && line.quantity <= available) return null;
+
+    return {
+      productId: line.productId,
+      productName: product?.name ?? `Product #${line.productId}`,
+      requested: line.quantity,
+      available
+    };
+  }
+
+  private dropExpired(): void {
+    const now = new Date().toISOString();
+    this.reservations = this.reservations.filter(reservation => reservation.expiresAt > now);
+  }
+}
@@ -0,0 +1,105 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, delay } from 'rxjs';
+import { DELIVERY_OPTIONS } from '../../features/checkout/models/checkout.model';
+import { NewOrder, Order } from '../../features/orders/models/order.model';
+import { Product } from '../../features/products/models/product.model';
+import { add, fromMajor, multiply, sum, toMajor } from '../utils/money';
+import { OrderBackend } from './order-backend';
+
+/**
+ * In-memory OrderBackend - orders live until the page reloads.
+ * Simulates network latency like ProductService does.
+ *
+ * Seeded with a few past orders for test@test.com (u1)
+ * so the order history page has something to show.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InMemoryOrderBackend extends OrderBackend {
+
+  private readonly orders: Order[] = createDemoOrders();
+
+  placeOrder(order: NewOrder): Observable<Order> {
+    const placed: Order = {
+      ...order,
+      id: `ORD-${Date.now().toString(36).toUpperCase()}`,
+      createdAt: new Date().toISOString(),
+      status: order.payment ? 'paid' : 'placed'
+    };
+    this.orders.push(placed);
+
+    return of(placed).pipe(delay(800));
+  }
+
+  getOrdersForUser(userId: string): Observable<Order[]> {
+    const orders = this.orders
+      .filter(order => order.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return of(orders).pipe(delay(400));
+  }
+
+  getOrderById(id: string): Observable<Order | undefined> {
+    return of(this.orders.find(order => order.id === id)).pipe(delay(300));
+  }
+}
+
+// ========================================
+// DEMO DATA
+// ========================================
+function createDemoOrders(): Order[] {
+  const headphones: Product = {
+    id: 1, name: 'Wireless Headphones', price: 79.99, category: 'electronics', stock: 24, rating: 4,
+    image: 'https://picsum.photos/seed/headphones/300/200'
+  };
+  const book: Product = {
+    id: 4, name: 'JavaScript Book', price: 39.99, category: 'books', stock: 40, rating: 5,
+    image: 'https://picsum.photos/seed/book/300/200'
+  };
+  const tshirt: Product = {
+    id: 3, name: 'Cotton T-Shirt', price: 24.99, category: 'clothing', stock: 0, rating: 3,
+    image: 'https://picsum.photos/seed/tshirt/300/200'
+  };
+  const lamp: Product = {
+    id: 5, name: 'Desk Lamp', price: 49.99, category: 'home', stock: 1, rating: 4,
+    image: 'https://picsum.photos/seed/lamp/300/200'
+  };
+
+  const [standard, express] = DELIVERY_OPTIONS;
+  const shippingAddress = {
+    fullName: 'John Doe',
+    addressLine1: '1 Market Street',
+    city: 'Springfield',
+    postalCode: '12345',
+    country: 'United States'
+  };
+
+  const order = (
+    id: string,
+    createdAt: string,
+    status: Order['status'],
+    items: [Product, number][],
+    deliveryOption = standard
+  ): Order => {
+    const lineTotals = items.map(([product, quantity]) => multiply(fromMajor(product.price), quantity));
+    const lines = items.map(([product, quantity], i) => ({
+      product,
+      quantity,
+      unitPrice: product.price,
+      lineTotal: toMajor(lineTotals[i])
+    }));
+    const subtotal = sum(lineTotals);
+    return {
+      id, userId: 'u1', createdAt, status, lines, shippingAddress, deliveryOption,
+      subtotal: toMajor(subtotal), discounts: [], discountTotal: 0, deliveryCost: deliveryOption.cost, tax: 0,
+      total: toMajor(add(subtotal, fromMajor(deliveryOption.cost)))
+    };
+  };
+
+  return [
+    order('ORD-DEMO1', '2025-09-02T10:15:00.000Z', 'delivered', [[headphones, 1], [book, 2]]),
+    order('ORD-DEMO2', '2025-10-20T16:40:00.000Z', 'cancelled', [[tshirt, 3]]),
+    order('ORD-DEMO3', '2025-11-28T09:05:00.000Z', 'shipped', [[lamp, 1]], express)
+  ];
+}
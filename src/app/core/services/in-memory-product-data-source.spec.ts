@@ -0,0 +1,88 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { ProductQuery } from '../../features/products/models/product.model';
+import { InMemoryProductDataSource } from './in-memory-product-data-source';
+
+describe('InMemoryProductDataSource.query', () => {
+  let dataSource: InMemoryProductDataSource;
+
+  const query = (overrides: Partial<ProductQuery>) =>
+    firstValueFrom(dataSource.query({ page: 1, pageSize: 12, ...overrides }));
+
+  beforeEach(() => {
+    dataSource = TestBed.inject(InMemoryProductDataSource);
+  });
+
+  it('should filter by category, price range, stock and rating', async () => {
+    const page = await query({
+      category: 'electronics',
+      minPrice: 50,
+      maxPrice: 100,
+      inStockOnly: true,
+      minRating: 4
+    });
+
+    expect(page.items.map(p => p.name)).toEqual(['Wireless Headphones', 'Bluetooth Speaker']);
+    expect(page.total).toBe(2);
+  });
+
+  it('should sort by price descending', async () => {
+    const page = await query({ sort: 'price', direction: 'desc' });
+
+    const prices = page.items.map(p => p.price);
+    expect(prices).toEqual([...prices].sort((a, b) => b - a));
+  });
+
+  it('should slice pages and report totals', async () => {
+    const page = await query({ page: 2, pageSize: 4, sort: 'name' });
+
+    expect(page.items.map(p => p.name)).toEqual(['Smart Watch', 'Wireless Headphones']);
+    expect(page.total).toBe(6);
+    expect(page.totalPages).toBe(2);
+  });
+
+  it('should clamp an out-of-range page to the last page', async () => {
+    const page = await query({ page: 9, pageSize: 4 });
+
+    expect(page.page).toBe(2);
+    expect(page.items.length).toBe(2);
+  });
+});
+
+describe('InMemoryProductDataSource writes', () => {
+  let dataSource: InMemoryProductDataSource;
+
+  beforeEach(() => {
+    dataSource = TestBed.inject(InMemoryProductDataSource);
+  });
+
+  it('should create, update and delete products', async () => {
+    const created = await firstValueFrom(dataSource.create({
+      name: 'Notebook',
+      price: 4.99,
+      image: 'https://example.com/notebook.png',
+      category: 'books',
+      stock: 25,
+      rating: 4
+    }));
+    expect(created.id).toBe(7);
+
+    const updated = await firstValueFrom(dataSource.update({ id: created.id, price: 5.49, stock: 0 }));
+    expect(updated).toEqual({ ...created, price: 5.49, stock: 0 });
+
+    await firstValueFrom(dataSource.delete(created.id));
+    expect(await firstValueFrom(dataSource.getById(created.id))).toBeUndefined();
+  });
+
+  it('should clear a description updated to null', async () => {
+    const [product] = await firstValueFrom(dataSource.getAll());
+    expect(product.description).toBeDefined();
+
+    const updated = await firstValueFrom(dataSource.update({ id: product.id, description: null }));
+    expect('description' in updated).toBe(false);
+  });
+
+  it('should fail to update a missing product', async () => {
+    await expect(firstValueFrom(dataSource.update({ id: 99, price: 1 }))).rejects.toThrow('Product 99 not found');
+  });
+});
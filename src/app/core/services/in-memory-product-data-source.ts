@@ -0,0 +1,156 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, delay, throwError } from 'rxjs';
+import { CreateProduct, Product, ProductPage, ProductQuery, UpdateProduct } from '../../features/products/models/product.model';
+import { queryCatalog, searchCatalog } from '../utils/catalog-query';
+import { ProductDataSource } from './product-data-source';
+
+/**
+ * In-memory ProductDataSource - the built-in demo catalog.
+ * Used for tests, demos and offline development.
+ * delay() simulates API latency.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InMemoryProductDataSource extends ProductDataSource {
+
+  // Simulated database
+  private products: Product[] = [
+    { 
+      id: 1, 
+      name: 'Wireless Headphones', 
+      price: 79.99,
+      description: 'High-quality wireless headphones with noise cancellation',
+      image: 'https://picsum.photos/seed/headphones/300/200',
+      images: [
+        'https://picsum.photos/seed/headphones-2/300/200',
+        'https://picsum.photos/seed/headphones-3/300/200'
+      ],
+      category: 'electronics',
+      stock: 24,
+      rating: 4.5   // Products with demo reviews carry their average (InMemoryReviewBackend)
+    },
+    { 
+      id: 2, 
+      name: 'Smart Watch', 
+      price: 199.99,
+      description: 'Feature-rich smartwatch with health tracking',
+      image: 'https://picsum.photos/seed/watch/300/200',
+      images: [
+        'https://picsum.photos/seed/watch-2/300/200',
+        'https://picsum.photos/seed/watch-3/300/200'
+      ],
+      category: 'electronics',
+      stock: 3,
+      rating: 5
+    },
+    { 
+      id: 3, 
+      name: 'Cotton T-Shirt', 
+      price: 24.99,
+      description: 'Comfortable cotton t-shirt for everyday wear',
+      image: 'https://picsum.photos/seed/tshirt/300/200',
+      category: 'clothing',
+      stock: 0,
+      rating: 3
+    },
+    { 
+      id: 4, 
+      name: 'JavaScript Book', 
+      price: 39.99,
+      description: 'Complete guide to modern JavaScript',
+      image: 'https://picsum.photos/seed/book/300/200',
+      category: 'books',
+      stock: 40,
+      rating: 5
+    },
+    { 
+      id: 5, 
+      name: 'Desk Lamp', 
+      price: 49.99,
+      description: 'Modern LED desk lamp with adjustable brightness',
+      image: 'https://picsum.photos/seed/lamp/300/200',
+      images: [
+        'https://picsum.photos/seed/lamp-2/300/200',
+        'https://picsum.photos/seed/lamp-3/300/200'
+      ],
+      category: 'home',
+      stock: 1,
+      rating: 3
+    },
+    { 
+      id: 6, 
+      name: 'Bluetooth Speaker', 
+      price: 59.99,
+      description: 'Portable speaker with powerful bass',
+      image: 'https://picsum.photos/seed/speaker/300/200',
+      category: 'electronics',
+      stock: 12,
+      rating: 4
+    }
+  ];
+
+  getAll(): Observable<Product[]> {
+    return of(this.products).pipe(
+      delay(500)  // Simulate 500ms network delay
+    );
+  }
+
+  /**
+   * Same filter → sort → slice pipeline a server would run
+   */
+  query(query: ProductQuery): Observable<ProductPage> {
+    return of(queryCatalog(this.products, query)).pipe(delay(400));
+  }
+
+  getById(id: number): Observable<Product | undefined> {
+    const product = this.products.find(p => p.id === id);
+    return of(product).pipe(delay(300));
+  }
+
+  getByCategory(category: string): Observable<Product[]> {
+    const filtered = this.products.filter(p => p.category === category);
+    return of(filtered).pipe(delay(400));
+  }
+
+  // Every word must appear in the name, description or category
+  search(query: string): Observable<Product[]> {
+    return of(searchCatalog(this.products, query)).pipe(delay(300));
+  }
+
+  // ========================================
+  // WRITE - replaces the array so getAll() callers never see it mutate
+  // ========================================
+  create(product: CreateProduct): Observable<Product> {
+    const created: Product = {
+      ...product,
+      id: Math.max(0, ...this.products.map(p => p.id)) + 1
+    };
+    this.products = [...this.products, created];
+    return of(created).pipe(delay(400));
+  }
+
+  update({ id, ...changes }: UpdateProduct): Observable<Product> {
+    const existing = this.products.find(p => p.id === id);
+    if (!existing) {
+      return throwError(() => new Error(`Product ${id} not found`));
+    }
+
+    const { description, ...rest } = changes;
+    const updated: Product = { ...existing, ...rest, id };
+    if (description === null) delete updated.description;
+    else if (description !== undefined) updated.description = description;
+
+    this.products = this.products.map(p => p.id === id ? updated : p);
+    return of(updated).pipe(delay(400));
+  }
+
+  delete(id: number): Observable<void> {
+    if (!this.products.some(p => p.id === id)) {
+      return throwError(() => new Error(`Product ${id} not found`));
+    }
+
+    this.products = this.products.filter(p => p.id !== id);
+    return of(undefined).pipe(delay(400));
+  }
+}
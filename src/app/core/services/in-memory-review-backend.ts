@@ -0,0 +1,109 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, delay, map, of, switchMap, throwError } from 'rxjs';
+import { ValidationError } from '../errors/validation-error';
+import { NewReview, Review, ReviewStatus } from '../../features/reviews/models/review.model';
+import { summarizeRatings } from '../utils/rating-summary';
+import { InMemoryProductDataSource } from './in-memory-product-data-source';
+import { ReviewBackend } from './review-backend';
+import { TranslationService } from './translation.service';
+
+/**
+ * In-memory ReviewBackend - reviews live until the page reloads.
+ * Simulates network latency like InMemoryOrderBackend does.
+ *
+ * Seeded with reviews from Sam Staff (u2) and Ada Admin (u3), so
+ * test@test.com (u1) can still write a review for every product.
+ *
+ * Product ratings are written back to the in-memory catalog (never
+ * the configured ProductDataSource, which may be the REST API) - like
+ * InMemoryInventoryBackend does with stock.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InMemoryReviewBackend extends ReviewBackend {
+  private readonly catalog = inject(InMemoryProductDataSource);
+  private readonly translation = inject(TranslationService);
+
+  private reviews: Review[] = createDemoReviews();
+
+  getReviewsForProduct(productId: number): Observable<Review[]> {
+    return of(newestFirst(this.reviews.filter(review => review.productId === productId))).pipe(delay(300));
+  }
+
+  getAllReviews(): Observable<Review[]> {
+    return of(newestFirst(this.reviews)).pipe(delay(300));
+  }
+
+  addReview(review: NewReview): Observable<Review> {
+    const duplicate = this.reviews.some(existing =>
+      existing.productId === review.productId && existing.userId === review.userId
+    );
+    if (duplicate) {
+      return throwError(() => new ValidationError(this.translation.translate('reviews.duplicate')));
+    }
+
+    const created: Review = {
+      ...review,
+      id: `REV-${Date.now().toString(36).toUpperCase()}`,
+      createdAt: new Date().toISOString(),
+      status: 'published'
+    };
+    this.reviews = [...this.reviews, created];
+
+    return this.syncRating(created.productId).pipe(map(() => created), delay(500));
+  }
+
+  setStatus(reviewId: string, status: ReviewStatus): Observable<Review> {
+    const existing = this.reviews.find(review => review.id === reviewId);
+    if (!existing) {
+      return throwError(() => new Error(`Review ${reviewId} not found`));
+    }
+
+    const updated: Review = { ...existing, status };
+    this.reviews = this.reviews.map(review => review.id === reviewId ? updated : review);
+
+    return this.syncRating(updated.productId).pipe(map(() => updated), delay(300));
+  }
+
+  // Hidden reviews don't count; no published reviews → 0 (unrated).
+  // Reviews of a deleted product can still be moderated - nothing to update then
+  private syncRating(productId: number): Observable<void> {
+    const { average } = summarizeRatings(this.reviews.filter(review => review.productId === productId));
+    return this.catalog.getById(productId).pipe(
+      switchMap(product => product ? this.catalog.update({ id: productId, rating: average }) : of(null)),
+      map(() => undefined)
+    );
+  }
+}
+
+function newestFirst(reviews: Review[]): Review[] {
+  return [...reviews].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// ========================================
+// DEMO DATA
+// ========================================
+function createDemoReviews(): Review[] {
+  const review = (
+    id: string,
+    productId: number,
+    author: 'u2' | 'u3',
+    rating: number,
+    text: string,
+    createdAt: string,
+    status: ReviewStatus = 'published'
+  ): Review => ({
+    id, productId, rating, text, createdAt, status,
+    userId: author,
+    authorName: author === 'u2' ? 'Sam Staff' : 'Ada Admin'
+  });
+
+  return [
+    review('REV-DEMO1', 1, 'u2', 5, 'Great sound and the battery lasts all week.', '2025-08-14T12:00:00.000Z'),
+    review('REV-DEMO2', 1, 'u3', 4, 'Comfortable, but the case feels cheap.', '2025-09-03T08:30:00.000Z'),
+    review('REV-DEMO3', 4, 'u2', 5, 'Finally understood closures. Recommended.', '2025-07-21T19:45:00.000Z'),
+    review('REV-DEMO4', 5, 'u3', 3, 'Bright enough, a bit wobbly.', '2025-10-02T16:10:00.000Z'),
+    review('REV-DEMO5', 5, 'u2', 1, 'BUY CHEAP LAMPS AT spam.example!!!', '2025-10-05T03:00:00.000Z', 'hidden')
+  ];
+}
@@ -0,0 +1,28 @@
+import { Observable } from 'rxjs';
+import { ReservationLine, StockReservation } from '../../features/checkout/models/inventory.model';
+
+/**
+ * ===========================================
+ * INVENTORY BACKEND - Stock reservations
+ * ===========================================
+ *
+ * Same pattern as OrderBackend: the abstract class is the DI token.
+ *
+ *   { provide: InventoryBackend, useClass: InMemoryInventoryBackend }  // local use
+ *
+ * Available stock = product.stock − units reserved by OTHER holders.
+ *
+ *   reserve()  checks every line against available stock and holds
+ *              the units until expiresAt (replaces the holder's
+ *              previous reservation) - errors with InsufficientStockError
+ *   release()  gives the units back early (checkout abandoned)
+ *   commit()   turns the hold into a sale: stock is decremented
+ */
+export abstract class InventoryBackend {
+  abstract reserve(holderId: string, lines: ReservationLine[]): Observable<StockReservation>;
+
+  abstract release(reservationId: string): Observable<void>;
+
+  // Errors when the reservation no longer exists (expired or released)
+  abstract commit(reservationId: string): Observable<void>;
+}
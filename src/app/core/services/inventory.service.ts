@@ -0,0 +1,131 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { Observable, catchError, of, tap, throwError } from 'rxjs';
+import { InsufficientStockError } from '../errors/insufficient-stock-error';
+import { StockIssue, StockReservation } from '../../features/checkout/models/inventory.model';
+import { CartStore } from '../store/cart/cart.store';
+import { AuthService } from './auth.service';
+import { InventoryBackend } from './inventory-backend';
+import { LoggerService } from './logger.service';
+import { ProductService } from './product.service';
+
+// Re-reserve when less than this is left, so payment never races the expiry
+const RENEW_MARGIN_MS = 60 * 1000;
+
+/**
+ * ===========================================
+ * INVENTORY SERVICE - Holds the cart's stock during checkout
+ * ===========================================
+ *
+ *   /checkout (checkoutGuard) ──► reserveCart()   units held for 10 min
+ *        │                            │
+ *        │                            └─ not enough stock? issues() → /cart
+ *        ▼
+ *   Pay (PaymentStepComponent) ──► ensureReservation() → authorize
+ *                                  → ensureReservation() → capture → order → commit()
+ *        │
+ *   leave checkout ──► release()
+ *
+ * Two customers can't both buy the last unit: the second reserve()
+ * sees it held by the first and fails with InsufficientStockError.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InventoryService {
+  private readonly backend = inject(InventoryBackend);
+  private readonly authService = inject(AuthService);
+  private readonly cartStore = inject(CartStore);
+  private readonly productService = inject(ProductService);
+  private readonly log = inject(LoggerService).for('Inventory');
+
+  private readonly _reservation = signal<StockReservation | null>(null);
+  readonly reservation = this._reservation.asReadonly();
+
+  // Lines that failed the last stock check - shown on the cart page
+  private readonly _issues = signal<StockIssue[]>([]);
+  readonly issues = this._issues.asReadonly();
+
+  reserveCart(): Observable<StockReservation> {
+    const user = this.authService.currentUser();
+    if (!user) {
+      return throwError(() => new Error('You must be signed in to check out'));
+    }
+
+    const lines = this.cartStore.items().map(item => ({ productId: item.product.id, quantity: item.quantity }));
+
+    return this.backend.reserve(user.id, lines).pipe(
+      tap(reservation => {
+        this.log.debug('📦 Stock reserved until', reservation.expiresAt);
+        this._reservation.set(reservation);
+        this._issues.set([]);
+      }),
+      catchError(error => {
+        if (error instanceof InsufficientStockError) {
+          this._issues.set(error.issues);
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+
+  // Current reservation if it still covers the cart, otherwise a fresh one
+  ensureReservation(): Observable<StockReservation> {
+    const reservation = this._reservation();
+    if (reservation && this.coversCart(reservation) &&
+        Date.parse(reservation.expiresAt) - Date.now() > RENEW_MARGIN_MS) {
+      return of(reservation);
+    }
+    return this.reserveCart();
+  }
+
+  /**
+   * Turns the reservation into a sale after the order is placed.
+   * Errors (e.g. an expired reservation) reach the caller - the
+   * payment flow renews the reservation right before capture.
+   *
+   * The reservation is handed over SYNCHRONOUSLY, before the backend
+   * answers: navigating to the confirmation destroys checkout, and its
+   * release() must not free stock that was just sold.
+   */
+  commit(): Observable<void> {
+    const reservation = this._reservation();
+    if (!reservation) return of(undefined);
+
+    this._reservation.set(null);
+    return this.backend.commit(reservation.id).pipe(
+      // Stock levels changed - product lists and search results refresh
+      tap(() => reservation.lines.forEach(line => this.productService.notifyUpdated(line.productId)))
+    );
+  }
+
+  // Fire-and-forget: the reservation expires on its own anyway.
+  // A committed reservation is already gone, so only abandoned ones are freed.
+  release(): void {
+    const reservation = this._reservation();
+    if (!reservation) return;
+
+    this._reservation.set(null);
+    this.backend.release(reservation.id).subscribe({
+      error: error => this.log.warn('⚠️ Could not release stock reservation:', error)
+    });
+  }
+
+  // Lower every problem line to what is available (0 removes it)
+  applyIssuesToCart(): void {
+    for (const issue of this._issues()) {
+      this.cartStore.setQuantity(issue.productId, issue.available);
+    }
+    this._issues.set([]);
+  }
+
+  dismissIssues(): void {
+    this._issues.set([]);
+  }
+
+  private coversCart(reservation: StockReservation): boolean {
+    const items = this.cartStore.items();
+    return items.length === reservation.lines.length && items.every(item =>
+      reservation.lines.some(line => line.productId === item.product.id && line.quantity === item.quantity)
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { TestBed } from '@angular/core/testing';
+import { LOGGER_CONFIG, LoggerConfig, LoggerService, redact } from './logger.service';
+
+describe('LoggerService', () => {
+  const setup = (config: LoggerConfig) => {
+    TestBed.configureTestingModule({
+      providers: [{ provide: LOGGER_CONFIG, useValue: config }]
+    });
+    return TestBed.inject(LoggerService);
+  };
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it('should drop messages below the configured level', () => {
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const log = setup({ level: 'warn', namespaces: '*' }).for('Cart');
+
+    log.debug('hidden');
+    log.warn('shown');
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('[Cart] shown');
+  });
+
+  it('should enable and exclude namespaces with wildcards', () => {
+    const logger = setup({ level: 'debug', namespaces: 'Auth*,-AuthGuard' });
+
+    expect(logger.isEnabled('info', 'AuthService')).toBe(true);
+    expect(logger.isEnabled('info', 'AuthGuard')).toBe(false);
+    expect(logger.isEnabled('info', 'ProductService')).toBe(false);
+  });
+
+  it('should redact sensitive fields, e-mails and tokens', () => {
+    const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    const log = setup({ level: 'debug', namespaces: '*' }).for('Login');
+
+    log.info('Submitting jane@test.com', { email: 'jane@test.com', nested: { password: 'secret', remember: true } });
+
+    expect(info).toHaveBeenCalledWith('[Login] Submitting [redacted]', {
+      email: '[redacted]',
+      nested: { password: '[redacted]', remember: true }
+    });
+    expect(redact('Bearer eyJhbGciOi.eyJzdWIi.sig')).toBe('Bearer [redacted]');
+  });
+
+  it('should match sensitive key words, not substrings', () => {
+    expect(redact({ accessToken: 'a', card_number: '4242', 'X-Auth-Token': 't', cardBrand: 'visa', discard: true }))
+      .toEqual({ accessToken: '[redacted]', card_number: '[redacted]', 'X-Auth-Token': '[redacted]', cardBrand: 'visa', discard: true });
+  });
+
+  it('should redact error messages and stacks without mutating the error', () => {
+    const error = new TypeError('No account for jane@test.com');
+
+    const redacted = redact(error) as Error;
+
+    expect(redacted).toBeInstanceOf(TypeError);
+    expect(redacted.message).toBe('No account for [redacted]');
+    expect(redacted.stack).not.toContain('jane@test.com');
+    expect(error.message).toBe('No account for jane@test.com');
+  });
+});
@@ -0,0 +1,151 @@
+import { DOCUMENT, Injectable, InjectionToken, inject, isDevMode } from '@angular/core';
+import { getLocalStorage } from '../utils/storage';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+export interface LoggerConfig {
+  level: LogLevel;
+  /**
+   * Comma-separated namespace patterns, `*` = wildcard, `-` = exclude
+   *   '*'                  → everything
+   *   'Auth*,CartPersistence' → only those
+   *   '*,-ProductCard'     → everything except ProductCard
+   */
+  namespaces: string;
+}
+
+/**
+ * Logger settings. Defaults: everything in dev, warnings and errors only in production.
+ *   { provide: LOGGER_CONFIG, useValue: { level: 'info', namespaces: 'Auth*' } }
+ */
+export const LOGGER_CONFIG = new InjectionToken<LoggerConfig>('LOGGER_CONFIG', {
+  providedIn: 'root',
+  factory: () => isDevMode()
+    ? { level: 'debug', namespaces: '*' }
+    : { level: 'warn', namespaces: '*' }
+});
+
+// Dev override without rebuilding: localStorage.setItem('angular-shop.log', 'Auth*,Checkout')
+export const LOG_NAMESPACES_KEY = 'angular-shop.log';
+
+// Key WORDS whose values are never printed - matched per word, so `accessToken`
+// and `card_number` are masked but `discard` or `cardBrand` are not
+const SENSITIVE_WORDS = new Set(['email', 'password', 'passwd', 'token', 'secret', 'authorization', 'cookie', 'cvc', 'cvv']);
+const EMAIL = /[^\s@"'<>]+@[^\s@"'<>]+\.[a-z]{2,}/gi;
+const JWT = /\beyJ[\w-]+\.[\w-]*\.[\w-]*/g;
+const REDACTED = '[redacted]';
+
+/**
+ * ===========================================
+ * LOGGER SERVICE - Levels, namespaces, redaction
+ * ===========================================
+ *
+ * Replaces ad-hoc console.log calls:
+ *
+ *   private readonly log = inject(LoggerService).for('AuthService');
+ *   this.log.info('Signed in', { userId, email });
+ *   // → [AuthService] Signed in { userId: 'u1', email: '[redacted]' }
+ *
+ * - LEVELS      debug < info < warn < error; below config.level is dropped
+ * - NAMESPACES  enable/disable per area (see LoggerConfig.namespaces)
+ * - REDACTION   sensitive keys, e-mail addresses and JWTs are masked
+ *               in messages AND nested context objects
+ * - PRODUCTION  isDevMode() === false → only warn/error by default
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LoggerService {
+  private readonly config = inject(LOGGER_CONFIG);
+  private readonly storage = getLocalStorage(inject(DOCUMENT));
+
+  private readonly patterns = parseNamespaces(
+    (isDevMode() && this.storage?.getItem(LOG_NAMESPACES_KEY)) || this.config.namespaces
+  );
+
+  for(namespace: string): Logger {
+    return {
+      debug: (message, ...context) => this.write('debug', namespace, message, context),
+      info: (message, ...context) => this.write('info', namespace, message, context),
+      warn: (message, ...context) => this.write('warn', namespace, message, context),
+      error: (message, ...context) => this.write('error', namespace, message, context)
+    };
+  }
+
+  isEnabled(level: Exclude<LogLevel, 'silent'>, namespace: string): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.config.level] && this.matches(namespace);
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, namespace: string, message: string, context: unknown[]): void {
+    if (!this.isEnabled(level, namespace)) return;
+    console[level](`[${namespace}] ${redactText(message)}`, ...context.map(value => redact(value)));
+  }
+
+  private matches(namespace: string): boolean {
+    if (this.patterns.exclude.some(pattern => pattern.test(namespace))) return false;
+    return this.patterns.include.some(pattern => pattern.test(namespace));
+  }
+}
+
+export interface Logger {
+  debug(message: string, ...context: unknown[]): void;
+  info(message: string, ...context: unknown[]): void;
+  warn(message: string, ...context: unknown[]): void;
+  error(message: string, ...context: unknown[]): void;
+}
+
+// ========================================
+// REDACTION (exported for tests and error reports)
+// ========================================
+
+export function redactText(text: string): string {
+  return text.replace(EMAIL, REDACTED).replace(JWT, REDACTED);
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactText(value);
+  // Errors, plain objects and arrays are copied, never mutated
+  if (value === null || typeof value !== 'object' || depth > 5) return value;
+  if (value instanceof Error) return redactError(value, depth);
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+    [key, isSensitiveKey(key) && item !== undefined && item !== null ? REDACTED : redact(item, depth + 1)]
+  ));
+}
+
+// ========================================
+// PRIVATE HELPERS
+// ========================================
+
+// Same class (instanceof still works), masked message and stack
+function redactError(error: Error, depth: number): Error {
+  const copy = Object.create(Object.getPrototypeOf(error)) as Error;
+  Object.assign(copy, redact({ ...error }, depth + 1));   // Own fields like `code` or `status`
+  copy.message = redactText(error.message);
+  copy.stack = error.stack && redactText(error.stack);
+  return copy;
+}
+
+// accessToken → [access, token], card_number → [card, number], Cookies → [cookies]
+function isSensitiveKey(key: string): boolean {
+  const words = key.replace(/([a-z\d])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z\d]+/);
+  return words.some(word => SENSITIVE_WORDS.has(word) || SENSITIVE_WORDS.has(word.replace(/s$/, '')))
+    || words.includes('cardnumber')
+    || (words.includes('card') && words.includes('number'));
+}
+
+function parseNamespaces(spec: string): { include: RegExp[]; exclude: RegExp[] } {
+  const include: RegExp[] = [];
+  const exclude: RegExp[] = [];
+
+  for (const raw of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    const excluded = raw.startsWith('-');
+    const source = (excluded ? raw.slice(1) : raw).replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    (excluded ? exclude : include).push(new RegExp(`^${source}$`, 'i'));
+  }
+
+  return { include, exclude };
+}
@@ -0,0 +1,43 @@
+import { TestBed } from '@angular/core/testing';
+import { NotificationService } from './notification.service';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    service = TestBed.inject(NotificationService);
+  });
+
+  afterEach(() => {
+    service.clear();
+    vi.useRealTimers();
+  });
+
+  it('should auto-dismiss after the type duration', () => {
+    service.success('Saved');
+    expect(service.notifications().length).toBe(1);
+
+    vi.advanceTimersByTime(3000);
+    expect(service.notifications()).toEqual([]);
+  });
+
+  it('should collapse a burst of the same key into one toast', () => {
+    for (let i = 0; i < 3; i++) {
+      service.show({ type: 'error', message: 'Server error', key: 'http:500' });
+    }
+
+    expect(service.notifications().length).toBe(1);
+    expect(service.notifications()[0].count).toBe(3);
+  });
+
+  it('should keep at most five toasts, dropping the oldest', () => {
+    for (let i = 1; i <= 7; i++) {
+      service.info(`Message ${i}`);
+    }
+
+    expect(service.notifications().map(n => n.message)).toEqual([
+      'Message 3', 'Message 4', 'Message 5', 'Message 6', 'Message 7'
+    ]);
+  });
+});
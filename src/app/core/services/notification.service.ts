@@ -0,0 +1,129 @@
+import { Injectable, signal } from '@angular/core';
+
+export type NotificationType = 'success' | 'info' | 'warning' | 'error';
+
+export interface Notification {
+  readonly id: number;
+  readonly type: NotificationType;
+  readonly title?: string;
+  readonly message: string;
+  readonly key: string;      // Same key = same notification (deduplicated)
+  readonly count: number;    // How many times it fired while visible
+}
+
+export interface NotificationOptions {
+  type?: NotificationType;
+  title?: string;
+  message: string;
+  key?: string;
+  duration?: number;         // ms, 0 = stays until dismissed
+}
+
+// Errors stay a little longer - they usually need reading
+const DEFAULT_DURATION: Record<NotificationType, number> = {
+  success: 3000,
+  info: 4000,
+  warning: 6000,
+  error: 8000
+};
+
+const MAX_VISIBLE = 5;
+
+/**
+ * ===========================================
+ * NOTIFICATION SERVICE - Toasts
+ * ===========================================
+ *
+ * Non-blocking replacement for alert():
+ * - Stacked (newest last, at most MAX_VISIBLE)
+ * - Dismissible (dismiss(id))
+ * - Auto-expiring (per-type duration)
+ * - Deduplicated: showing a key that is already visible bumps its
+ *   count and restarts its timer instead of stacking a copy
+ *
+ * Usage:
+ *   notifications.success('Product saved');
+ *   notifications.show({ type: 'error', title: 'Oops', message: '...' });
+ *
+ * Rendered once by ToastContainerComponent in app.html.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private readonly _notifications = signal<Notification[]>([]);
+  readonly notifications = this._notifications.asReadonly();
+
+  private readonly timers = new Map<number, ReturnType<typeof setTimeout>>();
+  private nextId = 1;
+
+  show(options: NotificationOptions): number {
+    const type = options.type ?? 'info';
+    const key = options.key ?? `${type}:${options.title ?? ''}:${options.message}`;
+    const duration = options.duration ?? DEFAULT_DURATION[type];
+
+    const existing = this._notifications().find(n => n.key === key);
+    if (existing) {
+      this._notifications.update(list =>
+        list.map(n => n.id === existing.id ? { ...n, count: n.count + 1 } : n)
+      );
+      this.scheduleDismiss(existing.id, duration);
+      return existing.id;
+    }
+
+    const notification: Notification = {
+      id: this.nextId++,
+      type,
+      title: options.title,
+      message: options.message,
+      key,
+      count: 1
+    };
+
+    const overflow = [...this._notifications(), notification];
+    overflow.slice(0, -MAX_VISIBLE).forEach(n => this.clearTimer(n.id));
+    this._notifications.set(overflow.slice(-MAX_VISIBLE));
+    this.scheduleDismiss(notification.id, duration);
+
+    return notification.id;
+  }
+
+  success(message: string, title?: string): number {
+    return this.show({ type: 'success', message, title });
+  }
+
+  info(message: string, title?: string): number {
+    return this.show({ type: 'info', message, title });
+  }
+
+  warning(message: string, title?: string): number {
+    return this.show({ type: 'warning', message, title });
+  }
+
+  error(message: string, title?: string): number {
+    return this.show({ type: 'error', message, title });
+  }
+
+  dismiss(id: number): void {
+    this.clearTimer(id);
+    this._notifications.update(list => list.filter(n => n.id !== id));
+  }
+
+  clear(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this._notifications.set([]);
+  }
+
+  private scheduleDismiss(id: number, duration: number): void {
+    this.clearTimer(id);
+    if (duration > 0) {
+      this.timers.set(id, setTimeout(() => this.dismiss(id), duration));
+    }
+  }
+
+  private clearTimer(id: number): void {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+  }
+}
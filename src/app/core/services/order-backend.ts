@@ -0,0 +1,21 @@
+import { Observable } from 'rxjs';
+import { NewOrder, Order } from '../../features/orders/models/order.model';
+
+/**
+ * ===========================================
+ * ORDER BACKEND - Pluggable order storage
+ * ===========================================
+ *
+ * Same pattern as AuthBackend: the abstract class is the DI token.
+ *
+ *   { provide: OrderBackend, useClass: InMemoryOrderBackend }  // local use
+ */
+export abstract class OrderBackend {
+  abstract placeOrder(order: NewOrder): Observable<Order>;
+
+  // Newest first
+  abstract getOrdersForUser(userId: string): Observable<Order[]>;
+
+  // Emits undefined when the order does not exist
+  abstract getOrderById(id: string): Observable<Order | undefined>;
+}
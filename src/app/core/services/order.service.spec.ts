@@ -0,0 +1,124 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { User } from '../../features/auth/models/user.model';
+import { DELIVERY_OPTIONS } from '../../features/checkout/models/checkout.model';
+import { NewOrder, Order } from '../../features/orders/models/order.model';
+import { Product } from '../../features/products/models/product.model';
+import { ValidationError } from '../errors/validation-error';
+import { CartStore } from '../store/cart/cart.store';
+import { fromMajor, multiply } from '../utils/money';
+import { priceCart } from '../utils/pricing';
+import { AuthService } from './auth.service';
+import { OrderBackend } from './order-backend';
+import { OrderService } from './order.service';
+import { ProductService } from './product.service';
+
+const jane: User = { id: 'u2', email: 'jane@test.com', name: 'Jane Roe', roles: ['customer'] };
+
+const lamp: Product = { id: 5, name: 'Desk Lamp', price: 49.99, image: 'lamp.png', category: 'home', stock: 10, rating: 4 };
+const shirt: Product = { id: 3, name: 'Cotton T-Shirt', price: 24.99, image: 'shirt.png', category: 'clothing', stock: 10, rating: 3 };
+
+const order: Order = {
+  id: 'ORD-1',
+  userId: jane.id,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  status: 'delivered',
+  lines: [
+    { product: lamp, quantity: 2, unitPrice: 45, lineTotal: 90 },
+    { product: shirt, quantity: 1, unitPrice: 24.99, lineTotal: 24.99 }
+  ],
+  shippingAddress: { fullName: 'Jane Roe', addressLine1: '1 Main St', city: 'Town', postalCode: '12345', country: 'Canada' },
+  deliveryOption: DELIVERY_OPTIONS[0],
+  subtotal: 114.99,
+  discounts: [],
+  discountTotal: 0,
+  deliveryCost: 4.99,
+  tax: 0,
+  total: 119.98
+};
+
+class StubOrderBackend extends OrderBackend {
+  placeOrder(newOrder: NewOrder): Observable<Order> {
+    return of({ ...newOrder, id: 'ORD-2', createdAt: '', status: 'placed' });
+  }
+
+  getOrdersForUser(userId: string): Observable<Order[]> {
+    return of(userId === order.userId ? [order] : []);
+  }
+
+  getOrderById(id: string): Observable<Order | undefined> {
+    return of(id === order.id ? order : undefined);
+  }
+}
+
+describe('OrderService', () => {
+  const currentUser = signal<User | null>(jane);
+  const added: [Product, number][] = [];
+
+  let service: OrderService;
+
+  beforeEach(() => {
+    currentUser.set(jane);
+    added.length = 0;
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: OrderBackend, useClass: StubOrderBackend },
+        { provide: AuthService, useValue: { currentUser } },
+        // Today's catalog: lamp is cheaper, the t-shirt is sold out
+        { provide: ProductService, useValue: { getProducts: () => of([{ ...lamp, price: 39.99 }, { ...shirt, stock: 0 }]) } },
+        { provide: CartStore, useValue: { add: (product: Product, quantity: number) => added.push([product, quantity]) } }
+      ]
+    });
+    service = TestBed.inject(OrderService);
+  });
+
+  it('should place an order with the totals the customer saw', () => {
+    const lines = [{ product: lamp, quantity: 2, lineTotal: multiply(fromMajor(lamp.price), 2) }];
+    const deliveryOption = DELIVERY_OPTIONS[0];
+    let placed: Order | undefined;
+
+    service.placeOrder({
+      lines,
+      shippingAddress: order.shippingAddress,
+      deliveryOption,
+      pricing: priceCart({ lines, deliveryOption })
+    }).subscribe(result => placed = result);
+
+    expect(placed?.userId).toBe(jane.id);
+    expect(placed?.lines).toEqual([{ product: lamp, quantity: 2, unitPrice: 49.99, lineTotal: 99.98 }]);
+    expect(placed?.subtotal).toBe(99.98);
+  });
+
+  it('should refuse an order without lines', () => {
+    let error: unknown;
+
+    service.placeOrder({
+      lines: [],
+      shippingAddress: order.shippingAddress,
+      deliveryOption: DELIVERY_OPTIONS[0],
+      pricing: priceCart({ lines: [] })
+    }).subscribe({ error: caught => error = caught });
+
+    expect(error).toBeInstanceOf(ValidationError);
+  });
+
+  it('should hide orders that belong to another user', () => {
+    let result: Order | undefined = order;
+
+    currentUser.set({ ...jane, id: 'someone-else' });
+    service.getOrderById(order.id).subscribe(found => result = found);
+
+    expect(result).toBeUndefined();
+  });
+
+  it('should reorder with current catalog data and report unavailable products', () => {
+    let skipped: string[] = [];
+
+    service.reorder(order).subscribe(result => skipped = result.skipped);
+
+    expect(added).toEqual([[{ ...lamp, price: 39.99 }, 2]]);
+    expect(skipped).toEqual(['Cotton T-Shirt']);
+  });
+});
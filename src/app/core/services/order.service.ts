@@ -0,0 +1,122 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, map, of, throwError } from 'rxjs';
+import { CartLine } from '../../features/cart/models/cart.model';
+import { PricingBreakdown } from '../../features/cart/models/pricing.model';
+import { DeliveryOption, ShippingAddress } from '../../features/checkout/models/checkout.model';
+import { OrderPayment } from '../../features/checkout/models/payment.model';
+import { Order, ReorderResult } from '../../features/orders/models/order.model';
+import { ValidationError } from '../errors/validation-error';
+import { CartStore } from '../store/cart/cart.store';
+import { toMajor } from '../utils/money';
+import { isInStock, purchaseLimit } from '../utils/stock';
+import { AuthService } from './auth.service';
+import { OrderBackend } from './order-backend';
+import { ProductService } from './product.service';
+import { TranslationService } from './translation.service';
+
+export interface PlaceOrderRequest {
+  lines: CartLine[];
+  shippingAddress: ShippingAddress;
+  deliveryOption: DeliveryOption;
+  pricing: PricingBreakdown;     // PricingService.breakdown() - what the customer saw
+  payment?: OrderPayment;
+}
+
+/**
+ * ===========================================
+ * ORDER SERVICE - Turns a checkout into an Order
+ * ===========================================
+ *
+ * Responsibilities:
+ * 1. Snapshot cart lines (price at purchase time)
+ * 2. Copy the itemized totals (discounts, shipping, tax) from the breakdown
+ * 3. Attach the signed-in user
+ * 4. Hand the order to the OrderBackend
+ * 5. Only ever return the SIGNED-IN user's orders
+ * 6. Reorder: put a past order's items back in the cart
+ *
+ * Payment happens BEFORE this call (see PaymentStepComponent) -
+ * an order is only created once the money is captured.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OrderService {
+  private readonly backend = inject(OrderBackend);
+  private readonly authService = inject(AuthService);
+  private readonly productService = inject(ProductService);
+  private readonly cartStore = inject(CartStore);
+  private readonly translation = inject(TranslationService);
+
+  placeOrder(request: PlaceOrderRequest): Observable<Order> {
+    const user = this.authService.currentUser();
+    if (!user) {
+      return throwError(() => new Error('You must be signed in to place an order'));
+    }
+    if (request.lines.length === 0) {
+      return throwError(() => new ValidationError(this.translation.translate('orders.emptyCart')));
+    }
+
+    const lines = request.lines.map(line => ({
+      product: line.product,
+      quantity: line.quantity,
+      unitPrice: line.product.price,
+      lineTotal: toMajor(line.lineTotal)
+    }));
+    const { pricing } = request;
+
+    return this.backend.placeOrder({
+      userId: user.id,
+      lines,
+      shippingAddress: request.shippingAddress,
+      deliveryOption: request.deliveryOption,
+      ...(request.payment ? { payment: request.payment } : {}),
+      subtotal: toMajor(pricing.subtotal),
+      discounts: pricing.adjustments.map(adjustment => ({ ...adjustment, amount: toMajor(adjustment.amount) })),
+      discountTotal: toMajor(pricing.discountTotal),
+      deliveryCost: pricing.shipping !== null ? toMajor(pricing.shipping) : request.deliveryOption.cost,
+      tax: toMajor(pricing.tax),
+      total: toMajor(pricing.total)
+    });
+  }
+
+  getMyOrders(): Observable<Order[]> {
+    const user = this.authService.currentUser();
+    return user ? this.backend.getOrdersForUser(user.id) : of([]);
+  }
+
+  // Someone else's order looks exactly like a missing one
+  getOrderById(id: string): Observable<Order | undefined> {
+    const userId = this.authService.currentUser()?.id;
+    return this.backend.getOrderById(id).pipe(
+      map(order => order && order.userId === userId ? order : undefined)
+    );
+  }
+
+  /**
+   * Adds the order's items to the cart using CURRENT catalog data
+   * (today's price, today's stock). Discontinued or out-of-stock
+   * products are skipped and reported back; quantities are capped
+   * at the current stock.
+   */
+  reorder(order: Order): Observable<ReorderResult> {
+    return this.productService.getProducts().pipe(
+      map(products => {
+        const result: ReorderResult = { addedCount: 0, skipped: [] };
+
+        for (const line of order.lines) {
+          const product = products.find(candidate => candidate.id === line.product.id);
+          if (!product || !isInStock(product)) {
+            result.skipped.push(line.product.name);
+            continue;
+          }
+          const quantity = Math.min(line.quantity, purchaseLimit(product));
+          this.cartStore.add(product, quantity);
+          result.addedCount += quantity;
+        }
+
+        return result;
+      })
+    );
+  }
+}
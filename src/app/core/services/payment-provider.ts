@@ -0,0 +1,41 @@
+import { Observable } from 'rxjs';
+import {
+  PaymentAuthorization,
+  PaymentCapture,
+  PaymentRequest
+} from '../../features/checkout/models/payment.model';
+
+/**
+ * ===========================================
+ * PAYMENT PROVIDER - Pluggable payment gateway
+ * ===========================================
+ *
+ * Same pattern as AuthBackend / OrderBackend: the abstract class is
+ * the DI token, so switching vendor is one line in app.config.ts.
+ *
+ *   { provide: PaymentProvider, useClass: FakePaymentProvider }
+ *
+ * Flow:
+ * 1. authorize()          → authorized | challenge_required | declined
+ * 2. completeChallenge()  → (only after challenge_required, 3-D-Secure style)
+ * 3. capture()            → actually take the money
+ *
+ * Undo:
+ * - voidAuthorization()   → release an authorization that won't be captured
+ *                           (challenge cancelled, checkout can't continue)
+ * - refund()              → give captured money back (order could not be placed)
+ *
+ * A decline is a normal RESULT, not an error. Errors are reserved for
+ * "the gateway is unreachable" style failures.
+ */
+export abstract class PaymentProvider {
+  abstract authorize(request: PaymentRequest): Observable<PaymentAuthorization>;
+
+  abstract completeChallenge(authorizationId: string, code: string): Observable<PaymentAuthorization>;
+
+  abstract capture(authorizationId: string): Observable<PaymentCapture>;
+
+  abstract voidAuthorization(authorizationId: string): Observable<void>;
+
+  abstract refund(captureId: string): Observable<void>;
+}
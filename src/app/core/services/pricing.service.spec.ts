@@ -0,0 +1,56 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { CartLine } from '../../features/cart/models/cart.model';
+import { Product } from '../../features/products/models/product.model';
+import { CartStore } from '../store/cart/cart.store';
+import { fromMajor, multiply } from '../utils/money';
+import { CheckoutStateService } from './checkout-state.service';
+import { PricingService } from './pricing.service';
+
+const headphones: Product = { id: 1, name: 'Wireless Headphones', price: 79.99, image: 'h.png', category: 'electronics', stock: 10, rating: 4 };
+const tshirt: Product = { id: 3, name: 'Cotton T-Shirt', price: 24.99, image: 't.png', category: 'clothing', stock: 10, rating: 3 };
+
+const line = (product: Product, quantity: number): CartLine => ({ product, quantity, lineTotal: multiply(fromMajor(product.price), quantity) });
+
+describe('PricingService', () => {
+  const lines = signal<CartLine[]>([]);
+  let pricing: PricingService;
+
+  beforeEach(() => {
+    lines.set([line(headphones, 1)]);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: CartStore, useValue: { lines } },
+        { provide: CheckoutStateService, useValue: { deliveryOption: signal(null), shippingAddress: signal(null) } }
+      ]
+    });
+    pricing = TestBed.inject(PricingService);
+  });
+
+  it('should normalize and keep a coupon that applies to the cart', () => {
+    expect(pricing.applyCoupon('  save10 ')).toBeNull();
+
+    expect(pricing.couponCode()).toBe('SAVE10');
+    expect(pricing.breakdown().adjustments.at(-1)).toMatchObject({ id: 'coupon-SAVE10', amount: fromMajor(8) });
+    expect(pricing.total()).toEqual(fromMajor(71.99));
+  });
+
+  it('should reject a coupon without replacing the current one', () => {
+    pricing.applyCoupon('SAVE10');
+
+    expect(pricing.applyCoupon('NOPE')?.reason).toBe('unknown');
+    expect(pricing.applyCoupon('   ')).toBeNull();
+    expect(pricing.couponCode()).toBe('SAVE10');
+  });
+
+  it('should report a kept coupon that stops applying after the cart changes', () => {
+    pricing.applyCoupon('SAVE10');
+
+    lines.set([line(tshirt, 1)]);
+
+    expect(pricing.couponCode()).toBe('SAVE10');
+    expect(pricing.breakdown().couponRejection?.reason).toBe('minimum_not_met');
+    expect(pricing.total()).toEqual(fromMajor(24.99));
+  });
+});
@@ -0,0 +1,70 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { CouponRejection, PricingBreakdown } from '../../features/cart/models/pricing.model';
+import { CartStore } from '../store/cart/cart.store';
+import { priceCart } from '../utils/pricing';
+import { CheckoutStateService } from './checkout-state.service';
+import { TranslationService } from './translation.service';
+
+/**
+ * ===========================================
+ * PRICING SERVICE - Live cart totals
+ * ===========================================
+ *
+ *   CartStore.lines() ─────────────────────┐
+ *   couponCode() ──────────────────────────┼──► priceCart() ──► breakdown()
+ *   CheckoutState delivery + country ──────┘
+ *
+ * One computed() feeds the products page, the cart, the review
+ * and payment steps and the placed order - they can never disagree.
+ *
+ * Shipping and tax stay unknown (null / 0) until checkout has
+ * a delivery option and a shipping country. Labels and coupon
+ * messages follow the language (re-priced when it changes).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PricingService {
+  private readonly cartStore = inject(CartStore);
+  private readonly checkoutState = inject(CheckoutStateService);
+  private readonly translation = inject(TranslationService);
+
+  private readonly _couponCode = signal<string | null>(null);
+  readonly couponCode = this._couponCode.asReadonly();
+
+  readonly breakdown = computed<PricingBreakdown>(() => priceCart({
+    lines: this.cartStore.lines(),
+    couponCode: this._couponCode(),
+    deliveryOption: this.checkoutState.deliveryOption(),
+    country: this.checkoutState.shippingAddress()?.country ?? null,
+    translate: this.translation.translator,
+    locale: this.translation.locale()
+  }));
+
+  readonly total = computed(() => this.breakdown().total);
+
+  /**
+   * Validates against the CURRENT cart before keeping the code.
+   * A kept coupon that stops applying later (e.g. the cart drops
+   * below its minimum) shows up as breakdown().couponRejection.
+   */
+  applyCoupon(code: string): CouponRejection | null {
+    const normalized = code.trim().toUpperCase();
+    if (!normalized) return null;
+
+    const { couponRejection } = priceCart({
+      lines: this.cartStore.lines(),
+      couponCode: normalized,
+      translate: this.translation.translator,
+      locale: this.translation.locale()
+    });
+    if (couponRejection) return couponRejection;
+
+    this._couponCode.set(normalized);
+    return null;
+  }
+
+  removeCoupon(): void {
+    this._couponCode.set(null);
+  }
+}
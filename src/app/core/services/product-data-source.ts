@@ -0,0 +1,42 @@
+import { Observable } from 'rxjs';
+import { CreateProduct, Product, ProductPage, ProductQuery, UpdateProduct } from '../../features/products/models/product.model';
+
+/**
+ * ===========================================
+ * PRODUCT DATA SOURCE - Swappable catalog backend
+ * ===========================================
+ *
+ * ProductService asks a ProductDataSource for data and never
+ * cares WHERE it comes from. The abstract class doubles as the
+ * injection token, so the source is chosen in app.config.ts:
+ *
+ *   { provide: ProductDataSource, useExisting: HttpProductDataSource }      // REST API
+ *   { provide: ProductDataSource, useExisting: InMemoryProductDataSource }  // tests, demos, offline dev
+ *
+ *                 ┌──► HttpProductDataSource ──► /api/products
+ *   ProductService┤
+ *                 └──► InMemoryProductDataSource (hard-coded catalog)
+ */
+export abstract class ProductDataSource {
+  abstract getAll(): Observable<Product[]>;
+
+  // One filtered + sorted page of the catalog (server-side for HTTP)
+  abstract query(query: ProductQuery): Observable<ProductPage>;
+
+  // Emits undefined when the product does not exist
+  abstract getById(id: number): Observable<Product | undefined>;
+
+  abstract getByCategory(category: string): Observable<Product[]>;
+
+  abstract search(query: string): Observable<Product[]>;
+
+  // ========================================
+  // WRITE (admin)
+  // ========================================
+  abstract create(product: CreateProduct): Observable<Product>;
+
+  // Partial update - only the given fields change
+  abstract update(changes: UpdateProduct): Observable<Product>;
+
+  abstract delete(id: number): Observable<void>;
+}
@@ -0,0 +1,85 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, concatMap, from, map, of, toArray } from 'rxjs';
+import { Product } from '../../features/products/models/product.model';
+import { classifyError } from '../handlers/error-classifier';
+import {
+  ImportFormat,
+  ImportPreview,
+  previewProductImport,
+  productsToCsv,
+  productsToJson
+} from '../utils/product-import';
+import { ProductService } from './product.service';
+import { TranslationService } from './translation.service';
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  failed: { rowNumber: number; message: string }[];
+}
+
+/**
+ * ===========================================
+ * PRODUCT IMPORT SERVICE - Bulk catalog changes
+ * ===========================================
+ *
+ * Parsing/validation lives in core/utils/product-import.ts (pure functions).
+ * This service adds the parts that need the catalog:
+ * - export()  → current catalog as CSV / JSON text
+ * - preview() → dry run against the current catalog (nothing is saved)
+ * - commit()  → valid rows, ONE AT A TIME, through ProductService
+ *               (so catalogChanged$ fires and every view refreshes)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProductImportService {
+  private readonly productService = inject(ProductService);
+  private readonly translation = inject(TranslationService);
+
+  export(format: ImportFormat): Observable<string> {
+    return this.productService.getProducts().pipe(
+      map(products => format === 'csv' ? productsToCsv(products) : productsToJson(products))
+    );
+  }
+
+  preview(text: string, format: ImportFormat): Observable<ImportPreview> {
+    return this.productService.getProducts().pipe(
+      map(products => previewProductImport(text, format, products, this.translation.translator))
+    );
+  }
+
+  // One failing row does not stop the rest - failures are collected
+  commit(preview: ImportPreview): Observable<ImportResult> {
+    return from(preview.rows).pipe(
+      concatMap(row => {
+        let request: Observable<Product>;
+        switch (row.action) {
+          case 'create': request = this.productService.createProduct(row.product); break;
+          case 'update': request = this.productService.updateProduct(row.product); break;
+          case 'invalid': return of(null);
+        }
+
+        return request.pipe(
+          map(() => ({ rowNumber: row.rowNumber, action: row.action, message: '' })),
+          catchError((error: unknown) => of({
+            rowNumber: row.rowNumber,
+            action: 'failed' as const,
+            message: classifyError(error, true, this.translation.translator).message
+          }))
+        );
+      }),
+      toArray(),
+      map(outcomes => {
+        const result: ImportResult = { created: 0, updated: 0, failed: [] };
+        for (const outcome of outcomes) {
+          if (!outcome) continue;
+          if (outcome.action === 'create') result.created++;
+          else if (outcome.action === 'update') result.updated++;
+          else result.failed.push({ rowNumber: outcome.rowNumber, message: outcome.message });
+        }
+        return result;
+      })
+    );
+  }
+}
@@ -1,6 +1,19 @@
-import { Injectable } from '@angular/core';
-import { Observable, of, delay } from 'rxjs';
-import { Product } from '../../features/products/models/product.model';
+import { Injectable, inject } from '@angular/core';
+import { MonoTypeOperatorFunction, Observable, Subject, catchError, from, of, switchMap, tap, throwError } from 'rxjs';
+import {
+  CatalogChange,
+  CreateProduct,
+  Product,
+  ProductPage,
+  ProductQuery,
+  UpdateProduct
+} from '../../features/products/models/product.model';
+import { classifyError } from '../handlers/error-classifier';
+import { queryCatalog, searchCatalog } from '../utils/catalog-query';
+import { CatalogCacheService } from './catalog-cache.service';
+import { ConnectivityService } from './connectivity.service';
+import { LoggerService } from './logger.service';
+import { ProductDataSource } from './product-data-source';
 
 /**
  * ===========================================
@@ -19,6 +32,17 @@ import { Product } from '../../features/products/models/product.model';
  * - @Injectable: Makes class available for DI
  * - providedIn: 'root': Singleton (one instance app-wide)
  * - Observable: Async data stream from RxJS
+ * - inject(ProductDataSource): WHERE data comes from is decided
+ *   in app.config.ts (HTTP API or in-memory catalog)
+ * - catalogChanged$: emits after every create/update/delete so
+ *   product lists, search results and the cart can refresh
+ *
+ * Offline fallback:
+ * -----------------
+ * Every full catalog fetch is saved to IndexedDB (CatalogCacheService).
+ * When a READ fails because the network is gone, it is answered from
+ * that snapshot instead - same filtering and paging, possibly stale.
+ * Other errors (404, 500...) still reach the caller. Writes never fall back.
  */
 
 @Injectable({
@@ -26,108 +50,116 @@ import { Product } from '../../features/products/models/product.model';
 })
 export class ProductService {
 
-  // Simulated database (later replace with HTTP calls)
-  private readonly products: Product[] = [
-    { 
-      id: 1, 
-      name: 'Wireless Headphones', 
-      price: 79.99,
-      description: 'High-quality wireless headphones with noise cancellation',
-      image: 'https://picsum.photos/seed/headphones/300/200',
-      category: 'electronics',
-      inStock: true,
-      rating: 4
-    },
-    { 
-      id: 2, 
-      name: 'Smart Watch', 
-      price: 199.99,
-      description: 'Feature-rich smartwatch with health tracking',
-      image: 'https://picsum.photos/seed/watch/300/200',
-      category: 'electronics',
-      inStock: true,
-      rating: 5
-    },
-    { 
-      id: 3, 
-      name: 'Cotton T-Shirt', 
-      price: 24.99,
-      description: 'Comfortable cotton t-shirt for everyday wear',
-      image: 'https://picsum.photos/seed/tshirt/300/200',
-      category: 'clothing',
-      inStock: false,
-      rating: 3
-    },
-    { 
-      id: 4, 
-      name: 'JavaScript Book', 
-      price: 39.99,
-      description: 'Complete guide to modern JavaScript',
-      image: 'https://picsum.photos/seed/book/300/200',
-      category: 'books',
-      inStock: true,
-      rating: 5
-    },
-    { 
-      id: 5, 
-      name: 'Desk Lamp', 
-      price: 49.99,
-      description: 'Modern LED desk lamp with adjustable brightness',
-      image: 'https://picsum.photos/seed/lamp/300/200',
-      category: 'home',
-      inStock: true,
-      rating: 4
-    },
-    { 
-      id: 6, 
-      name: 'Bluetooth Speaker', 
-      price: 59.99,
-      description: 'Portable speaker with powerful bass',
-      image: 'https://picsum.photos/seed/speaker/300/200',
-      category: 'electronics',
-      inStock: true,
-      rating: 4
-    }
-  ];
+  private readonly dataSource = inject(ProductDataSource);
+  private readonly catalogCache = inject(CatalogCacheService);
+  private readonly connectivity = inject(ConnectivityService);
+  private readonly log = inject(LoggerService).for('ProductService');
+
+  private readonly catalogChanges = new Subject<CatalogChange>();
+  readonly catalogChanged$ = this.catalogChanges.asObservable();
 
   constructor() {
-    console.log('✅ ProductService instantiated (singleton)');
+    this.log.debug('✅ Instantiated (singleton)');
   }
 
   /**
    * Get all products
-   * of() creates Observable from static data
-   * delay() simulates API latency
+   * allowCached: false → fail instead of answering from the offline
+   * snapshot (when the caller needs LIVE data, e.g. cart sync)
    */
-  getProducts(): Observable<Product[]> {
-    return of(this.products).pipe(
-      delay(500)  // Simulate 500ms network delay
+  getProducts({ allowCached = true }: { allowCached?: boolean } = {}): Observable<Product[]> {
+    const products$ = this.dataSource.getAll().pipe(
+      tap(products => void this.catalogCache.save(products))
+    );
+    return allowCached ? products$.pipe(this.offlineFallback(products => products)) : products$;
+  }
+
+  /**
+   * Get one page of products (filtered + sorted server-side)
+   * Use this for catalog views - getProducts() loads EVERYTHING
+   */
+  queryProducts(query: ProductQuery): Observable<ProductPage> {
+    return this.dataSource.query(query).pipe(
+      this.offlineFallback(products => queryCatalog(products, query))
     );
   }
 
   /**
    * Get single product by ID
+   * Emits undefined when the product does not exist
    */
   getProductById(id: number): Observable<Product | undefined> {
-    const product = this.products.find(p => p.id === id);
-    return of(product).pipe(delay(300));
+    return this.dataSource.getById(id).pipe(
+      this.offlineFallback(products => products.find(product => product.id === id))
+    );
   }
 
   /**
    * Get products by category
    */
   getProductsByCategory(category: string): Observable<Product[]> {
-    const filtered = this.products.filter(p => p.category === category);
-    return of(filtered).pipe(delay(400));
+    return this.dataSource.getByCategory(category).pipe(
+      this.offlineFallback(products => products.filter(product => product.category === category))
+    );
   }
 
   /**
-   * Search products by name
+   * Search products by name, description and category
    */
   searchProducts(query: string): Observable<Product[]> {
-    const results = this.products.filter(p =>
-      p.name.toLowerCase().includes(query.toLowerCase())
+    return this.dataSource.search(query).pipe(
+      this.offlineFallback(products => searchCatalog(products, query))
+    );
+  }
+
+  // ========================================
+  // ADMIN - Create / Update / Delete
+  // ========================================
+
+  createProduct(product: CreateProduct): Observable<Product> {
+    return this.dataSource.create(product).pipe(
+      tap(created => this.catalogChanges.next({ type: 'created', productId: created.id }))
+    );
+  }
+
+  updateProduct(changes: UpdateProduct): Observable<Product> {
+    return this.dataSource.update(changes).pipe(
+      tap(updated => this.catalogChanges.next({ type: 'updated', productId: updated.id }))
     );
-    return of(results).pipe(delay(300));
+  }
+
+  deleteProduct(id: number): Observable<void> {
+    return this.dataSource.delete(id).pipe(
+      tap(() => this.catalogChanges.next({ type: 'deleted', productId: id }))
+    );
+  }
+
+  /**
+   * A backend changed a product as a side effect (stock sold, new
+   * average rating) - lets product lists and search results refresh
+   */
+  notifyUpdated(productId: number): void {
+    this.catalogChanges.next({ type: 'updated', productId });
+  }
+
+  // ========================================
+  // OFFLINE FALLBACK
+  // ========================================
+
+  // Offline error + a cached snapshot → answer from the snapshot; otherwise rethrow
+  private offlineFallback<T>(read: (products: Product[]) => T): MonoTypeOperatorFunction<T> {
+    return catchError((error: unknown) => {
+      if (classifyError(error, this.connectivity.online()).kind !== 'offline') {
+        return throwError(() => error);
+      }
+
+      return from(this.catalogCache.load()).pipe(
+        switchMap(snapshot => {
+          if (!snapshot) return throwError(() => error);
+          this.log.info('📦 Offline - answered from the cached catalog', { savedAt: snapshot.savedAt });
+          return of(read(snapshot.products));
+        })
+      );
+    });
   }
 }
@@ -0,0 +1,30 @@
+import { Observable } from 'rxjs';
+import { NewReview, Review, ReviewStatus } from '../../features/reviews/models/review.model';
+
+/**
+ * ===========================================
+ * REVIEW BACKEND - Pluggable review storage
+ * ===========================================
+ *
+ * Same pattern as OrderBackend: the abstract class is the DI token.
+ *
+ *   { provide: ReviewBackend, useClass: InMemoryReviewBackend }  // local use
+ *
+ * The backend is the source of truth for "one review per user per
+ * product" - addReview() errors with a ValidationError on a duplicate.
+ *
+ * It also keeps Product.rating equal to the average of the PUBLISHED
+ * reviews after every addReview()/setStatus(), so product cards, the
+ * minRating filter and the rating sort agree with the review section.
+ */
+export abstract class ReviewBackend {
+  // Newest first, ALL statuses - ReviewService decides who sees what
+  abstract getReviewsForProduct(productId: number): Observable<Review[]>;
+
+  // Moderation queue - every review, newest first
+  abstract getAllReviews(): Observable<Review[]>;
+
+  abstract addReview(review: NewReview): Observable<Review>;
+
+  abstract setStatus(reviewId: string, status: ReviewStatus): Observable<Review>;
+}
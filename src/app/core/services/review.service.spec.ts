@@ -0,0 +1,103 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { Observable, firstValueFrom, of } from 'rxjs';
+import { User } from '../../features/auth/models/user.model';
+import { Product, UpdateProduct } from '../../features/products/models/product.model';
+import { ReviewChange } from '../../features/reviews/models/review.model';
+import { classifyError } from '../handlers/error-classifier';
+import { AuthService } from './auth.service';
+import { InMemoryReviewBackend } from './in-memory-review-backend';
+import { InMemoryProductDataSource } from './in-memory-product-data-source';
+import { ProductService } from './product.service';
+import { ReviewBackend } from './review-backend';
+import { ReviewService } from './review.service';
+
+const jane: User = { id: 'u1', email: 'jane@test.com', name: 'Jane Roe', roles: ['customer'] };
+
+// Demo reviews for the lamp: Ada 3 ★ (published), Sam 1 ★ (hidden spam)
+const lamp: Product = { id: 5, name: 'Desk Lamp', price: 49.99, image: 'lamp.png', category: 'home', stock: 1, rating: 3 };
+
+describe('ReviewService', () => {
+  const currentUser = signal<User | null>(jane);
+  let products: Product[];
+  let changes: ReviewChange[];
+  let catalogUpdates: number[];
+  let service: ReviewService;
+
+  // In-memory backend delays every answer - run its timers to completion
+  const settle = async <T>(source: Observable<T>): Promise<T> => {
+    const result = firstValueFrom(source);
+    result.catch(() => undefined);   // Inspected by the caller
+    await vi.runAllTimersAsync();
+    return result;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    currentUser.set(jane);
+    products = [lamp];
+    changes = [];
+    catalogUpdates = [];
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: ReviewBackend, useClass: InMemoryReviewBackend },
+        { provide: AuthService, useValue: { currentUser } },
+        { provide: ProductService, useValue: { notifyUpdated: (id: number) => catalogUpdates.push(id) } },
+        { provide: InMemoryProductDataSource, useValue: {
+          getById: (id: number) => of(products.find(p => p.id === id)),
+          update: ({ id, rating }: UpdateProduct): Observable<Product> => {
+            products = products.map(p => p.id === id ? { ...p, rating: rating ?? p.rating } : p);
+            return of(products.find(p => p.id === id)!);
+          }
+        } }
+      ]
+    });
+    service = TestBed.inject(ReviewService);
+    service.reviewsChanged$.subscribe(change => changes.push(change));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should accept one review per user and product', async () => {
+    await settle(service.submitReview({ productId: lamp.id, rating: 5, text: ' Bright! ' }));
+
+    const second = settle(service.submitReview({ productId: lamp.id, rating: 1, text: 'Changed my mind' }));
+    await expect(second).rejects.toThrow('You have already reviewed this product.');
+
+    const { reviews, summary, myReview } = await settle(service.getProductReviews(lamp.id));
+    expect(myReview).toMatchObject({ rating: 5, text: 'Bright!' });
+    expect(reviews).toHaveLength(2);
+    expect(summary.average).toBe(4);
+    expect(products[0].rating).toBe(4);
+    expect(changes).toEqual([{ type: 'created', productId: lamp.id }]);
+    expect(catalogUpdates).toEqual([lamp.id]);
+  });
+
+  it('should ask guests to sign in with an error safe to show', async () => {
+    currentUser.set(null);
+
+    const error = await settle(service.submitReview({ productId: lamp.id, rating: 5, text: '' })).catch(e => e);
+
+    expect(classifyError(error)).toMatchObject({ kind: 'validation', message: 'Please sign in to write a review.' });
+  });
+
+  it('should drop hidden reviews from the summary but still show them to their author', async () => {
+    const created = await settle(service.submitReview({ productId: lamp.id, rating: 5, text: '' }));
+
+    await settle(service.setStatus(created.id, 'hidden'));
+
+    const own = await settle(service.getProductReviews(lamp.id));
+    expect(own.myReview?.status).toBe('hidden');
+    expect(own.summary).toMatchObject({ count: 1, average: 3 });
+    expect(products[0].rating).toBe(3);
+    expect(changes.at(-1)).toEqual({ type: 'moderated', productId: lamp.id });
+
+    currentUser.set(null);
+    const guest = await settle(service.getProductReviews(lamp.id));
+    expect(guest.reviews.map(review => review.id)).not.toContain(created.id);
+    expect(guest.myReview).toBeUndefined();
+  });
+});
@@ -0,0 +1,110 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, Subject, map, tap, throwError } from 'rxjs';
+import { ValidationError } from '../errors/validation-error';
+import { ProductRatingEvent } from '../../features/products/models/product.model';
+import {
+  ProductReviews,
+  REVIEW_TEXT_MAX_LENGTH,
+  Review,
+  ReviewChange,
+  ReviewStatus
+} from '../../features/reviews/models/review.model';
+import { summarizeRatings } from '../utils/rating-summary';
+import { AuthService } from './auth.service';
+import { LoggerService } from './logger.service';
+import { ProductService } from './product.service';
+import { ReviewBackend } from './review-backend';
+import { TranslationService } from './translation.service';
+
+/**
+ * ===========================================
+ * REVIEW SERVICE - Ratings + reviews per product
+ * ===========================================
+ *
+ *   ReviewFormComponent ──(ratingSubmitted: ProductRatingEvent)──►
+ *   ProductReviewsComponent ──submitReview()──► ReviewBackend
+ *                                                   │
+ *   reviewsChanged$ ◄───────────────────────────────┘
+ *        │
+ *        ├─► product page + moderation table re-fetch
+ *        └─► ProductService.notifyUpdated() - the rating on product cards changed
+ *
+ * Rules:
+ * 1. Only signed-in users can review
+ * 2. One review per user per product (enforced by the backend)
+ * 3. Hidden reviews never count towards the average or histogram
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReviewService {
+  private readonly backend = inject(ReviewBackend);
+  private readonly authService = inject(AuthService);
+  private readonly translation = inject(TranslationService);
+  private readonly productService = inject(ProductService);
+  private readonly log = inject(LoggerService).for('Reviews');
+
+  private readonly reviewChanges = new Subject<ReviewChange>();
+  readonly reviewsChanged$ = this.reviewChanges.asObservable();
+
+  getProductReviews(productId: number): Observable<ProductReviews> {
+    const userId = this.authService.currentUser()?.id;
+
+    return this.backend.getReviewsForProduct(productId).pipe(
+      map(all => {
+        const reviews = all.filter(review => review.status === 'published');
+        const myReview = userId ? all.find(review => review.userId === userId) : undefined;
+        return { reviews, summary: summarizeRatings(reviews), ...(myReview ? { myReview } : {}) };
+      })
+    );
+  }
+
+  submitReview(event: ProductRatingEvent): Observable<Review> {
+    const user = this.authService.currentUser();
+    if (!user) {
+      return throwError(() => new ValidationError(this.translation.translate('reviews.signInRequired')));
+    }
+    if (!Number.isInteger(event.rating) || event.rating < 1 || event.rating > 5) {
+      return throwError(() => new ValidationError(this.translation.translate('reviews.ratingRequired'), 'rating'));
+    }
+
+    const text = event.text.trim();
+    if (text.length > REVIEW_TEXT_MAX_LENGTH) {
+      return throwError(() => new ValidationError(
+        this.translation.translate('reviews.textTooLong', { max: REVIEW_TEXT_MAX_LENGTH }),
+        'text'
+      ));
+    }
+
+    return this.backend.addReview({
+      productId: event.productId,
+      userId: user.id,
+      authorName: user.name,
+      rating: event.rating,
+      text
+    }).pipe(
+      tap(review => {
+        this.log.info('⭐ Review submitted', { productId: review.productId, rating: review.rating });
+        this.reviewChanges.next({ type: 'created', productId: review.productId });
+        this.productService.notifyUpdated(review.productId);
+      })
+    );
+  }
+
+  // ========================================
+  // MODERATION (admin)
+  // ========================================
+  getAllReviews(): Observable<Review[]> {
+    return this.backend.getAllReviews();
+  }
+
+  setStatus(reviewId: string, status: ReviewStatus): Observable<Review> {
+    return this.backend.setStatus(reviewId, status).pipe(
+      tap(review => {
+        this.log.info('🛡️ Review moderated', { reviewId, status });
+        this.reviewChanges.next({ type: 'moderated', productId: review.productId });
+        this.productService.notifyUpdated(review.productId);
+      })
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+import { Product } from '../../features/products/models/product.model';
+import { stockLabel } from '../utils/stock';
+import { CurrencyService } from './currency.service';
+import { LANGUAGE_STORAGE_KEY, TranslationService } from './translation.service';
+
+describe('TranslationService', () => {
+  let service: TranslationService;
+  let currency: CurrencyService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(TranslationService);
+    currency = TestBed.inject(CurrencyService);
+    TestBed.tick();
+  });
+
+  afterEach(() => {
+    document.documentElement.lang = 'en';
+    document.documentElement.dir = 'ltr';
+  });
+
+  it('should pick English plural forms, with an exact match for zero', () => {
+    expect(service.translate('nav.cart', { count: 0 })).toBe('Cart (Empty)');
+    expect(service.translate('nav.cart', { count: 1 })).toBe('Cart (1 item)');
+    expect(service.translate('nav.cart', { count: 1200 })).toBe('Cart (1,200 items)');
+    expect(service.translate('header.welcomeBack', { name: 'Jane' })).toBe('Welcome back, Jane!');
+  });
+
+  it('should switch to Arabic with its plural rules, RTL and locale formatting', async () => {
+    await service.setLanguage('ar');
+    TestBed.tick();
+
+    expect(service.translate('nav.cart', { count: 2 })).toBe('السلة (منتجان)');
+    expect(service.translate('validation.minlength', { count: 3 })).toContain('أحرف');     // few
+    expect(service.translate('validation.minlength', { count: 11 })).toContain('حرفًا');   // many
+    expect(document.documentElement.dir).toBe('rtl');
+    expect(document.documentElement.lang).toBe('ar');
+    expect(currency.locale()).toBe('ar');
+    expect(localStorage.getItem(LANGUAGE_STORAGE_KEY)).toBe('ar');
+  });
+
+  it('should hand pure helpers a translator that follows the language', async () => {
+    const lamp: Product = { id: 5, name: 'Desk Lamp', price: 49.99, image: 'lamp.png', category: 'home', stock: 0, rating: 3 };
+
+    expect(stockLabel(lamp, service.translator)).toBe('✗ Out of Stock');
+
+    await service.setLanguage('ar');
+    expect(stockLabel(lamp, service.translator)).toBe(service.translate('stock.outOfStock'));
+    expect(stockLabel(lamp, service.translator)).not.toBe(stockLabel(lamp));   // default stays English
+  });
+
+  it('should only treat dictionary entries as keys', () => {
+    expect(service.isKey('title.cart')).toBe(true);
+    expect(service.isKey('Checkout | Angular Shop')).toBe(false);
+    expect(service.isKey('toString')).toBe(false);
+  });
+});
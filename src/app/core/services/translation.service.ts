@@ -0,0 +1,188 @@
+import {
+  DOCUMENT,
+  EnvironmentProviders,
+  Injectable,
+  computed,
+  effect,
+  inject,
+  makeEnvironmentProviders,
+  provideAppInitializer,
+  signal
+} from '@angular/core';
+import { registerLocaleData } from '@angular/common';
+import localeAr from '@angular/common/locales/ar';
+import { Title } from '@angular/platform-browser';
+import { RouterStateSnapshot, TitleStrategy } from '@angular/router';
+import { Dictionary, EN, TranslationKey } from '../i18n/en';
+import { DEFAULT_LANGUAGE, LANGUAGES, Language, LanguageCode, Translation } from '../i18n/languages';
+import { Translate, TranslationParams, formatTranslation } from '../i18n/translate';
+import { getLocalStorage } from '../utils/storage';
+import { CurrencyService } from './currency.service';
+import { LoggerService } from './logger.service';
+
+export const LANGUAGE_STORAGE_KEY = 'angular-shop.language';
+
+// English is bundled (it is also the fallback for missing keys); the others
+// are separate chunks, fetched the first time they are needed
+const DICTIONARY_LOADERS: Record<LanguageCode, () => Promise<Dictionary>> = {
+  en: () => Promise.resolve(EN),
+  ar: () => import('../i18n/ar').then(m => m.AR)
+};
+
+/**
+ * ===========================================
+ * TRANSLATION SERVICE - Runtime language switching
+ * ===========================================
+ *
+ *   language() ──► dictionary ──► translate('nav.cart', { count: 3 }) → "Cart (3 items)"
+ *        │
+ *        ├──► <html lang dir>       RTL layout for Arabic
+ *        └──► CurrencyService       money formatted for the same locale
+ *
+ * - Switching needs no reload: templates read translations through the
+ *   impure `t` pipe, which re-runs when language() changes. The new
+ *   dictionary is loaded FIRST, so text and <html dir> flip together
+ * - The choice is remembered in localStorage; first visit follows
+ *   the browser language when we support it
+ * - Plurals: Intl.PluralRules picks the form for `{count}` (see PluralForms)
+ * - Numbers in params are formatted for the locale (١٢ in Arabic)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TranslationService {
+  private readonly document = inject(DOCUMENT);
+  private readonly storage = getLocalStorage(this.document);
+  private readonly currencyService = inject(CurrencyService);
+  private readonly log = inject(LoggerService).for('TranslationService');
+
+  readonly languages = LANGUAGES;
+
+  private readonly _language = signal<LanguageCode>(this.restore());
+  readonly language = this._language.asReadonly();
+
+  private readonly dictionaries = signal<Partial<Record<LanguageCode, Dictionary>>>({ en: EN });
+  private requested = this._language();   // Last setLanguage() wins when loads overlap
+
+  private readonly current = computed<Language>(() =>
+    LANGUAGES.find(language => language.code === this._language()) ?? LANGUAGES[0]
+  );
+  readonly locale = computed(() => this.current().locale);
+  readonly dir = computed(() => this.current().dir);
+
+  private readonly pluralRules = computed(() => new Intl.PluralRules(this.locale()));
+  private readonly numberFormat = computed(() => new Intl.NumberFormat(this.locale()));
+
+  constructor() {
+    // Keep the document and money formatting in step with the language
+    effect(() => {
+      const root = this.document.documentElement;
+      root.lang = this._language();
+      root.dir = this.dir();
+      this.currencyService.setLocale(this.locale());
+    });
+  }
+
+  // Called once by provideTranslations() - the app renders once the saved language is loaded
+  async init(): Promise<void> {
+    registerLocaleData(localeAr);   // Date / number pipes need the locale data
+    if (!(await this.loadDictionary(this._language()))) {
+      this._language.set(DEFAULT_LANGUAGE);
+    }
+    this.log.debug('🌐 Language', { language: this._language() });
+  }
+
+  async setLanguage(code: LanguageCode): Promise<void> {
+    if (!LANGUAGES.some(language => language.code === code)) return;
+
+    this.requested = code;
+    if (!(await this.loadDictionary(code)) || this.requested !== code) return;
+
+    this._language.set(code);
+    try {
+      this.storage?.setItem(LANGUAGE_STORAGE_KEY, code);
+    } catch (error) {
+      this.log.warn('⚠️ Could not remember language:', error);
+    }
+  }
+
+  translate(key: TranslationKey, params: TranslationParams = {}): string {
+    const dictionary = this.dictionaries()[this._language()] ?? EN;
+    const entry: Translation = dictionary[key] ?? EN[key];
+    return formatTranslation(entry, params, this.pluralRules(), this.numberFormat());
+  }
+
+  // translate() as a plain function, for pure helpers that take a Translate
+  readonly translator: Translate = (key, params) => this.translate(key, params);
+
+  // Route titles and other keys that arrive as plain strings
+  isKey(value: string): value is TranslationKey {
+    return Object.hasOwn(EN, value);
+  }
+
+  // false when the chunk cannot be fetched (e.g. offline) - the language stays as it is
+  private async loadDictionary(code: LanguageCode): Promise<boolean> {
+    if (this.dictionaries()[code]) return true;
+
+    try {
+      const dictionary = await DICTIONARY_LOADERS[code]();
+      this.dictionaries.update(loaded => ({ ...loaded, [code]: dictionary }));
+      return true;
+    } catch (error) {
+      this.log.error(`❌ Could not load the "${code}" translations:`, error);
+      return false;
+    }
+  }
+
+  private restore(): LanguageCode {
+    const stored = this.storage?.getItem(LANGUAGE_STORAGE_KEY);
+    const browser = this.document.defaultView?.navigator.language.slice(0, 2);
+    const candidate = LANGUAGES.find(language => language.code === stored || (!stored && language.code === browser));
+    return candidate?.code ?? DEFAULT_LANGUAGE;
+  }
+}
+
+/**
+ * ===========================================
+ * TRANSLATED TITLE STRATEGY - Route titles by key
+ * ===========================================
+ *
+ * Routes declare `title: 'title.cart'`; the document title is the
+ * translation, and is re-applied when the language changes.
+ * Titles that aren't keys are used as-is. Routes without a title
+ * (product detail) set their own via the Title service.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TranslatedTitleStrategy extends TitleStrategy {
+  private readonly title = inject(Title);
+  private readonly translation = inject(TranslationService);
+  private readonly routeTitle = signal<string | undefined>(undefined);
+
+  constructor() {
+    super();
+    effect(() => {
+      const title = this.routeTitle();
+      if (title === undefined) return;
+      this.title.setTitle(this.translation.isKey(title) ? this.translation.translate(title) : title);
+    });
+  }
+
+  override updateTitle(snapshot: RouterStateSnapshot): void {
+    this.routeTitle.set(this.buildTitle(snapshot));
+  }
+}
+
+/**
+ * Applies the saved language on startup and translates route titles.
+ *
+ * Usage in app.config.ts:
+ *   providers: [provideRouter(routes), provideTranslations()]
+ */
+export function provideTranslations(): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: TitleStrategy, useExisting: TranslatedTitleStrategy },
+    provideAppInitializer(() => inject(TranslationService).init())
+  ]);
+}
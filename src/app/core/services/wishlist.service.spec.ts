@@ -0,0 +1,83 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { firstValueFrom, of } from 'rxjs';
+import { User } from '../../features/auth/models/user.model';
+import { Product } from '../../features/products/models/product.model';
+import { CartStore } from '../store/cart/cart.store';
+import { AuthService } from './auth.service';
+import { ProductService } from './product.service';
+import { WISHLIST_STORAGE_PREFIX, WishlistService } from './wishlist.service';
+
+const jane: User = { id: 'u2', email: 'jane@test.com', name: 'Jane Roe', roles: ['customer'] };
+
+const lamp: Product = { id: 5, name: 'Desk Lamp', price: 49.99, image: 'lamp.png', category: 'home', stock: 10, rating: 4 };
+const shirt: Product = { id: 3, name: 'Cotton T-Shirt', price: 24.99, image: 'shirt.png', category: 'clothing', stock: 10, rating: 3 };
+
+describe('WishlistService', () => {
+  const currentUser = signal<User | null>(null);
+  const added: [Product, number][] = [];
+
+  let service: WishlistService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    currentUser.set(null);
+    added.length = 0;
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AuthService, useValue: { currentUser } },
+        { provide: CartStore, useValue: { add: (product: Product, quantity: number) => added.push([product, quantity]) } },
+        // Today's catalog: lamp is cheaper
+        { provide: ProductService, useValue: { getProductById: (id: number) => of(id === lamp.id ? { ...lamp, price: 39.99 } : undefined) } }
+      ]
+    });
+    service = TestBed.inject(WishlistService);
+    TestBed.tick();
+  });
+
+  it('should persist a guest wishlist locally', () => {
+    service.setFavorite(lamp, true);
+    service.setFavorite(lamp, true);  // Idempotent
+
+    expect(service.count()).toBe(1);
+    expect(JSON.parse(localStorage.getItem(WISHLIST_STORAGE_PREFIX + 'guest')!)[0].product.id).toBe(lamp.id);
+  });
+
+  it('should merge the guest wishlist into the user wishlist on login', () => {
+    localStorage.setItem(WISHLIST_STORAGE_PREFIX + jane.id, JSON.stringify([{ product: shirt, addedAt: '2025-01-01T00:00:00.000Z' }]));
+    service.toggle(lamp);
+    service.toggle(shirt);
+
+    currentUser.set(jane);
+    TestBed.tick();
+
+    expect(service.items().map(item => item.product.id)).toEqual([shirt.id, lamp.id]);
+    expect(localStorage.getItem(WISHLIST_STORAGE_PREFIX + 'guest')).toBeNull();
+
+    currentUser.set(null);
+    TestBed.tick();
+
+    expect(service.isEmpty()).toBe(true);
+  });
+
+  it('should migrate items saved with inStock instead of stock', () => {
+    const legacy = (product: Product, inStock: boolean) =>
+      ({ product: { ...product, stock: undefined, inStock }, addedAt: '2025-01-01T00:00:00.000Z' });
+    localStorage.setItem(WISHLIST_STORAGE_PREFIX + jane.id, JSON.stringify([legacy(lamp, true), legacy(shirt, false)]));
+
+    currentUser.set(jane);
+    TestBed.tick();
+
+    expect(service.items().map(item => item.product)).toEqual([{ ...lamp, stock: 1 }, { ...shirt, stock: 0 }]);
+  });
+
+  it('should move an item to the cart with current catalog data', async () => {
+    service.add(lamp);
+
+    expect(await firstValueFrom(service.moveToCart(lamp.id))).toBe(true);
+
+    expect(added).toEqual([[{ ...lamp, price: 39.99 }, 1]]);
+    expect(service.has(lamp.id)).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+import { DOCUMENT, Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { Product } from '../../features/products/models/product.model';
+import { WishlistItem } from '../../features/wishlist/models/wishlist.model';
+import { CartStore } from '../store/cart/cart.store';
+import { isInStock } from '../utils/stock';
+import { getLocalStorage } from '../utils/storage';
+import { AuthService } from './auth.service';
+import { LoggerService } from './logger.service';
+import { ProductService } from './product.service';
+
+export const WISHLIST_STORAGE_PREFIX = 'angular-shop.wishlist.';
+const GUEST = 'guest';
+
+/**
+ * ===========================================
+ * WISHLIST SERVICE - Per-user, persisted favorites
+ * ===========================================
+ *
+ * Storage (localStorage, one key per owner):
+ *   angular-shop.wishlist.guest   ← signed out
+ *   angular-shop.wishlist.u1      ← signed in as u1
+ *
+ * Owner switches follow AuthService.currentUser():
+ *
+ *   guest ──login──► user   guest list MERGED into the user's list,
+ *                           guest key removed
+ *   user ──logout──► guest  guest list loaded (usually empty)
+ *
+ * ProductCardComponent reads has(id) for its heart, so every card,
+ * the header count and the /wishlist page always agree.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WishlistService {
+  private readonly authService = inject(AuthService);
+  private readonly cartStore = inject(CartStore);
+  private readonly productService = inject(ProductService);
+  private readonly log = inject(LoggerService).for('Wishlist');
+  private readonly storage = getLocalStorage(inject(DOCUMENT));
+
+  private readonly _items = signal<WishlistItem[]>([]);
+  readonly items = this._items.asReadonly();
+
+  readonly count = computed(() => this._items().length);
+  readonly isEmpty = computed(() => this._items().length === 0);
+
+  private readonly productIds = computed(() => new Set(this._items().map(item => item.product.id)));
+
+  private owner: string | null = null;
+
+  constructor() {
+    effect(() => {
+      const userId = this.authService.currentUser()?.id ?? GUEST;
+      untracked(() => this.switchOwner(userId));
+    });
+  }
+
+  // Reads a signal - reactive inside computed()/templates
+  has(productId: number): boolean {
+    return this.productIds().has(productId);
+  }
+
+  add(product: Product): void {
+    if (this.has(product.id)) return;
+    this.update(items => [...items, { product, addedAt: new Date().toISOString() }]);
+  }
+
+  remove(productId: number): void {
+    this.update(items => items.filter(item => item.product.id !== productId));
+  }
+
+  // Explicit target state - safe to call twice with the same value
+  setFavorite(product: Product, isFavorite: boolean): void {
+    if (isFavorite) this.add(product);
+    else this.remove(product.id);
+  }
+
+  toggle(product: Product): void {
+    this.setFavorite(product, !this.has(product.id));
+  }
+
+  /**
+   * Moves one unit to the cart using the CURRENT catalog entry
+   * (today's price and stock). Emits false when the product is
+   * gone or sold out - the item then stays, with a fresh snapshot.
+   */
+  moveToCart(productId: number): Observable<boolean> {
+    return this.productService.getProductById(productId).pipe(
+      map(product => {
+        if (!product || !isInStock(product)) {
+          if (product) this.refreshSnapshot(product);
+          return false;
+        }
+
+        this.cartStore.add(product, 1);
+        this.remove(productId);
+        return true;
+      })
+    );
+  }
+
+  clear(): void {
+    this.update(() => []);
+  }
+
+  // ========================================
+  // PRIVATE HELPERS
+  // ========================================
+  private refreshSnapshot(product: Product): void {
+    this.update(items => items.map(item => item.product.id === product.id ? { ...item, product } : item));
+  }
+
+  private update(change: (items: WishlistItem[]) => WishlistItem[]): void {
+    this._items.update(change);
+    if (this.owner) this.write(this.owner, this._items());
+  }
+
+  private switchOwner(owner: string): void {
+    if (owner === this.owner) return;
+    this.owner = owner;
+
+    if (owner === GUEST) {
+      this._items.set(this.read(GUEST));
+      return;
+    }
+
+    // Signed in: keep the user's list, append anything saved as a guest
+    const own = this.read(owner);
+    const ownIds = new Set(own.map(item => item.product.id));
+    const merged = [...own, ...this.read(GUEST).filter(item => !ownIds.has(item.product.id))];
+
+    this._items.set(merged);
+    this.write(owner, merged);
+    this.storage?.removeItem(WISHLIST_STORAGE_PREFIX + GUEST);
+
+    this.log.debug('❤️ Loaded wishlist', { owner, count: merged.length, mergedFromGuest: merged.length - own.length });
+  }
+
+  private read(owner: string): WishlistItem[] {
+    try {
+      const data: unknown = JSON.parse(this.storage?.getItem(WISHLIST_STORAGE_PREFIX + owner) ?? '[]');
+      return Array.isArray(data) ? data.map(migrateWishlistItem).filter(isWishlistItem) : [];
+    } catch {
+      return [];  // Corrupt value - start fresh rather than crash
+    }
+  }
+
+  private write(owner: string, items: WishlistItem[]): void {
+    try {
+      this.storage?.setItem(WISHLIST_STORAGE_PREFIX + owner, JSON.stringify(items));
+    } catch (error) {
+      this.log.error('❌ Could not save wishlist:', error);
+    }
+  }
+}
+
+/**
+ * Lists saved before Product.stock existed have `inStock: boolean`
+ * (same change as cart storage v1 → v2). The real count is unknown:
+ * 1 keeps an in-stock item addable - moveToCart() re-reads the catalog.
+ */
+function migrateWishlistItem(value: unknown): unknown {
+  const item = value as { product?: Record<string, unknown> } | null;
+  if (typeof item?.product !== 'object' || item.product === null || !('inStock' in item.product)) return value;
+
+  const { inStock, ...product } = item.product;
+  return { ...item, product: { ...product, stock: product['stock'] ?? (inStock === true ? 1 : 0) } };
+}
+
+function isWishlistItem(value: unknown): value is WishlistItem {
+  const item = value as WishlistItem;
+  return typeof item === 'object' && item !== null &&
+    typeof item.addedAt === 'string' &&
+    typeof item.product?.id === 'number' &&
+    typeof item.product.name === 'string' &&
+    typeof item.product.price === 'number' &&
+    typeof item.product.stock === 'number';
+}
@@ -0,0 +1,145 @@
+import {
+  DestroyRef,
+  DOCUMENT,
+  EnvironmentProviders,
+  Injectable,
+  inject,
+  makeEnvironmentProviders,
+  provideAppInitializer
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Store } from '@ngrx/store';
+import { EMPTY, catchError, filter, forkJoin, fromEvent, map, merge, of, skip, switchMap } from 'rxjs';
+import { CatalogChange, Product } from '../../../features/products/models/product.model';
+import { LoggerService } from '../../services/logger.service';
+import { ProductService } from '../../services/product.service';
+import { CartActions } from './cart.actions';
+import { cartFeature } from './cart.reducer';
+import { CART_STORAGE_KEY, deserializeCart, serializeCart } from './cart-storage';
+
+/**
+ * ===========================================
+ * CART PERSISTENCE - localStorage + Cross-Tab Sync
+ * ===========================================
+ *
+ * Lifecycle:
+ *
+ *   App start (provideAppInitializer)
+ *         │
+ *         ├─► RESTORE   localStorage → CartActions.hydrate
+ *         ├─► PERSIST   store changes → localStorage
+ *         ├─► SYNC      'storage' event from other tab → CartActions.hydrate
+ *         └─► RECONCILE the cart's products → CartActions.reconcileWithCatalog
+ *                       (again after every catalog change to one of them)
+ *
+ * Why 'storage' events?
+ * ---------------------
+ * The browser fires them in every OTHER tab of the same origin when
+ * localStorage changes, so two open tabs never diverge. Writes are
+ * skipped when the stored value is already identical, which stops
+ * tabs from echoing the same cart back and forth.
+ *
+ * A cart this build cannot read (e.g. written by a NEWER version in
+ * another tab) is ignored, never overwritten with an empty cart.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CartPersistenceService {
+  private readonly store = inject(Store);
+  private readonly productService = inject(ProductService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly window = inject(DOCUMENT).defaultView;
+  private readonly log = inject(LoggerService).for('CartPersistence');
+
+  private readonly items = this.store.selectSignal(cartFeature.selectItems);
+
+  init(): void {
+    const storage = this.getStorage();
+    if (!storage || !this.window) return;
+
+    // 1. RESTORE - before anything reads the cart
+    const stored = storage.getItem(CART_STORAGE_KEY);
+    const restored = deserializeCart(stored);
+    if (restored) {
+      this.store.dispatch(CartActions.hydrate({ items: restored }));
+    } else if (stored !== null) {
+      this.log.warn('⚠️ Stored cart is unreadable - leaving it untouched');
+    }
+
+    // 2. PERSIST - every state change (not the initial empty cart over an unreadable one)
+    this.store.select(cartFeature.selectItems).pipe(
+      skip(stored !== null && !restored ? 1 : 0),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(items => this.write(storage, serializeCart(items)));
+
+    // 3. SYNC - changes made in another tab
+    fromEvent<StorageEvent>(this.window, 'storage').pipe(
+      filter(event => event.storageArea === storage && event.key === CART_STORAGE_KEY),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(event => {
+      // Key removed → the other tab cleared the cart
+      const items = event.newValue === null ? [] : deserializeCart(event.newValue);
+      if (!items) {
+        this.log.warn('⚠️ Ignoring an unreadable cart from another tab');
+        return;
+      }
+      this.store.dispatch(CartActions.hydrate({ items }));
+    });
+
+    // 4. RECONCILE - products may have been removed or sold out since the cart was saved.
+    // Only the cart's own products are fetched, and only when the change concerns one of them
+    merge(of(null), this.productService.catalogChanged$).pipe(
+      filter(change => this.affectsCart(change)),
+      map(() => this.items().map(item => item.product.id)),
+      filter(ids => ids.length > 0),
+      switchMap(ids => forkJoin(ids.map(id => this.productService.getProductById(id))).pipe(
+        // Missing products stay out of the list, so the reducer drops their lines
+        map(found => ({ ids, products: found.filter((product): product is Product => product !== undefined) })),
+        catchError(error => {
+          this.log.error('❌ Could not reconcile cart:', error);
+          return EMPTY;
+        })
+      )),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(({ ids, products }) =>
+      this.store.dispatch(CartActions.reconcileWithCatalog({ products, checkedIds: ids }))
+    );
+  }
+
+  // null = startup check
+  private affectsCart(change: CatalogChange | null): boolean {
+    return !change || this.items().some(item => item.product.id === change.productId);
+  }
+
+  private write(storage: Storage, value: string): void {
+    if (storage.getItem(CART_STORAGE_KEY) === value) return;
+
+    try {
+      storage.setItem(CART_STORAGE_KEY, value);
+    } catch (error) {
+      // Quota exceeded / storage disabled - cart still works for this session
+      this.log.error('❌ Could not save cart:', error);
+    }
+  }
+
+  private getStorage(): Storage | null {
+    try {
+      return this.window?.localStorage ?? null;
+    } catch {
+      return null;  // Access can throw when storage is blocked
+    }
+  }
+}
+
+/**
+ * Restores the cart on startup and keeps it persisted/synced.
+ *
+ * Usage in app.config.ts:
+ *   providers: [provideStore(), provideState(cartFeature), provideCartPersistence()]
+ */
+export function provideCartPersistence(): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    provideAppInitializer(() => inject(CartPersistenceService).init())
+  ]);
+}
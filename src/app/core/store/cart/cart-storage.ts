@@ -0,0 +1,99 @@
+import { CartItem } from '../../../features/cart/models/cart.model';
+
+/**
+ * ===========================================
+ * CART STORAGE SCHEMA - Versioned localStorage format
+ * ===========================================
+ *
+ * Stored value:
+ *   { "version": 2, "items": [{ "product": {...}, "quantity": 2 }] }
+ *
+ * Why a version?
+ * --------------
+ * Carts outlive deployments. When the Product shape changes, bump
+ * CART_STORAGE_VERSION and add a migration from the previous version:
+ *
+ *   CART_MIGRATIONS[1] = items => items.map(...)   // v1 → v2
+ *
+ * Unknown, newer or unmigratable data is discarded instead of
+ * crashing the app with a half-valid cart.
+ *
+ * History:
+ *   v1 → v2  Product.inStock (boolean) replaced by Product.stock (number)
+ */
+
+export const CART_STORAGE_KEY = 'angular-shop.cart';
+
+export const CART_STORAGE_VERSION = 2;
+
+export interface PersistedCart {
+  version: number;
+  items: CartItem[];
+}
+
+type CartMigration = (items: unknown[]) => unknown[];
+
+// Key = version being migrated FROM
+const CART_MIGRATIONS: Record<number, CartMigration> = {
+  // The real stock is unknown offline: assume the saved quantity is
+  // available - reconcileWithCatalog corrects it once the catalog loads
+  1: items => items.map(item => {
+    if (!isRecord(item) || !isRecord(item['product'])) return item;
+    const { inStock, ...product } = item['product'];
+    return { ...item, product: { ...product, stock: inStock === true ? item['quantity'] : 0 } };
+  })
+};
+
+export function serializeCart(items: CartItem[]): string {
+  const data: PersistedCart = { version: CART_STORAGE_VERSION, items };
+  return JSON.stringify(data);
+}
+
+/**
+ * Parse a stored cart, migrating older versions.
+ * Returns null when the value is missing or cannot be trusted.
+ */
+export function deserializeCart(raw: string | null): CartItem[] | null {
+  if (!raw) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (!isRecord(data) || typeof data['version'] !== 'number' || !Array.isArray(data['items'])) {
+    return null;
+  }
+
+  let version = data['version'];
+  let items: unknown[] = data['items'];
+
+  if (version > CART_STORAGE_VERSION) return null;  // Written by a newer app version
+
+  while (version < CART_STORAGE_VERSION) {
+    const migrate = CART_MIGRATIONS[version];
+    if (!migrate) return null;
+    items = migrate(items);
+    version++;
+  }
+
+  return items.filter(isCartItem);
+}
+
+function isCartItem(value: unknown): value is CartItem {
+  if (!isRecord(value) || !isRecord(value['product'])) return false;
+
+  const quantity = value['quantity'];
+  return typeof value['product']['id'] === 'number'
+    && typeof value['product']['price'] === 'number'
+    && typeof value['product']['stock'] === 'number'
+    && typeof quantity === 'number'
+    && Number.isInteger(quantity)
+    && quantity > 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideState, provideStore, Store } from '@ngrx/store';
+import { Subject, of } from 'rxjs';
+import { Product } from '../../../features/products/models/product.model';
+import { ConnectivityService } from '../../services/connectivity.service';
+import { NotificationService } from '../../services/notification.service';
+import { ProductService } from '../../services/product.service';
+import { CartActions } from './cart.actions';
+import { cartFeature } from './cart.reducer';
+import { CART_QUEUE_STORAGE_KEY, CartSyncService } from './cart-sync.service';
+
+const lamp: Product = { id: 5, name: 'Desk Lamp', price: 49.99, image: 'lamp.png', category: 'home', stock: 10, rating: 4 };
+const shirt: Product = { id: 3, name: 'Cotton T-Shirt', price: 24.99, image: 'shirt.png', category: 'clothing', stock: 10, rating: 3 };
+
+describe('CartSyncService', () => {
+  const online = signal(false);
+  const reconnected$ = new Subject<Event>();
+  const messages: string[] = [];
+
+  let service: CartSyncService;
+  let store: Store;
+
+  beforeEach(() => {
+    localStorage.clear();
+    online.set(false);
+    messages.length = 0;
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideStore(),
+        provideState(cartFeature),
+        { provide: ConnectivityService, useValue: { online, reconnected$ } },
+        { provide: NotificationService, useValue: {
+          success: (message: string) => messages.push(message),
+          warning: (message: string) => messages.push(message)
+        } },
+        // Live catalog: only 2 lamps left, shirt removed
+        { provide: ProductService, useValue: { getProducts: () => of([{ ...lamp, stock: 2 }]) } }
+      ]
+    });
+    service = TestBed.inject(CartSyncService);
+    store = TestBed.inject(Store);
+    service.init();
+  });
+
+  it('should queue cart changes made offline and keep them across reloads', () => {
+    store.dispatch(CartActions.addItem({ product: lamp, quantity: 3 }));
+    store.dispatch(CartActions.removeItem({ productId: shirt.id }));
+
+    expect(service.pendingCount()).toBe(2);
+    expect(JSON.parse(localStorage.getItem(CART_QUEUE_STORAGE_KEY)!).map((change: { type: string }) => change.type))
+      .toEqual(['add', 'remove']);
+  });
+
+  it('should replay against the live catalog on reconnect and report adjusted items', () => {
+    store.dispatch(CartActions.addItem({ product: lamp, quantity: 3 }));
+    store.dispatch(CartActions.addItem({ product: shirt, quantity: 1 }));
+
+    online.set(true);
+    reconnected$.next(new Event('online'));
+
+    const items = TestBed.runInInjectionContext(() => store.selectSignal(cartFeature.selectItems))();
+    expect(items).toEqual([{ product: { ...lamp, stock: 2 }, quantity: 2 }]);
+    expect(service.pendingCount()).toBe(0);
+    expect(localStorage.getItem(CART_QUEUE_STORAGE_KEY)).toBeNull();
+    expect(messages[0]).toContain('Desk Lamp, Cotton T-Shirt');
+  });
+
+  it('should not queue changes made while online', () => {
+    online.set(true);
+    store.dispatch(CartActions.addItem({ product: lamp, quantity: 1 }));
+
+    expect(service.pendingCount()).toBe(0);
+  });
+});
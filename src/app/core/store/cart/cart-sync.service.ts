@@ -0,0 +1,188 @@
+import {
+  DestroyRef,
+  DOCUMENT,
+  EnvironmentProviders,
+  Injectable,
+  computed,
+  inject,
+  makeEnvironmentProviders,
+  provideAppInitializer,
+  signal
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Action, ActionsSubject, Store } from '@ngrx/store';
+import { EMPTY, Observable, catchError, exhaustMap, filter, merge, of, tap } from 'rxjs';
+import { QueuedCartChange } from '../../../features/cart/models/cart.model';
+import { ConnectivityService } from '../../services/connectivity.service';
+import { LoggerService } from '../../services/logger.service';
+import { NotificationService } from '../../services/notification.service';
+import { ProductService } from '../../services/product.service';
+import { TranslationService } from '../../services/translation.service';
+import { getLocalStorage } from '../../utils/storage';
+import { CartActions } from './cart.actions';
+import { cartFeature } from './cart.reducer';
+
+export const CART_QUEUE_STORAGE_KEY = 'angular-shop.cart-queue';
+
+/**
+ * ===========================================
+ * CART SYNC - Offline cart changes, replayed on reconnect
+ * ===========================================
+ *
+ *   offline   addItem / setQuantity / removeItem
+ *                 │
+ *                 ├──► reducer        applied right away (optimistic)
+ *                 └──► queue          localStorage, survives a reload
+ *
+ *   reconnect ──► LIVE catalog ──► CartActions.reconcileWithCatalog
+ *                                      │
+ *                                      └──► toast: synced / adjusted
+ *
+ * The cart itself lives in the browser, so "replaying" means checking
+ * the changes made offline against the live catalog: products removed
+ * or sold out are dropped, quantities are capped to stock and prices
+ * are refreshed. The user is told which queued items changed.
+ *
+ * The queue is only cleared once the live catalog has been applied -
+ * a failed replay keeps it for the next reconnect (or next visit).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CartSyncService {
+  private readonly store = inject(Store);
+  private readonly actions = inject(ActionsSubject);
+  private readonly connectivity = inject(ConnectivityService);
+  private readonly productService = inject(ProductService);
+  private readonly notifications = inject(NotificationService);
+  private readonly translation = inject(TranslationService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly storage = getLocalStorage(inject(DOCUMENT));
+  private readonly log = inject(LoggerService).for('CartSync');
+
+  private readonly items = this.store.selectSignal(cartFeature.selectItems);
+
+  private readonly _pending = signal<readonly QueuedCartChange[]>(this.restore());
+  readonly pending = this._pending.asReadonly();
+  readonly pendingCount = computed(() => this._pending().length);
+
+  // Called once by provideCartSync()
+  init(): void {
+    // 1. QUEUE - cart changes made while offline
+    this.actions.pipe(
+      filter(() => !this.connectivity.online()),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(action => {
+      const change = toQueuedChange(action);
+      if (change) this.enqueue(change);
+    });
+
+    // 2. REPLAY - on reconnect, or on startup when a previous visit left changes behind
+    const leftOver$ = of(null).pipe(filter(() => this.connectivity.online() && this.pendingCount() > 0));
+    merge(leftOver$, this.connectivity.reconnected$).pipe(
+      exhaustMap(() => this.replay()),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe();
+  }
+
+  private replay(): Observable<unknown> {
+    const queued = this._pending();
+    if (queued.length === 0) return EMPTY;
+
+    // allowCached: false - the offline snapshot is exactly what we must NOT sync against
+    return this.productService.getProducts({ allowCached: false }).pipe(
+      tap(products => {
+        const touched = new Set(queued.map(change => change.productId));
+        const before = this.items().filter(item => touched.has(item.product.id));
+
+        this.store.dispatch(CartActions.reconcileWithCatalog({ products }));
+
+        const after = new Map(this.items().map(item => [item.product.id, item]));
+        const adjusted = before
+          .filter(item => {
+            const current = after.get(item.product.id);
+            return !current || current.quantity !== item.quantity || current.product.price !== item.product.price;
+          })
+          .map(item => item.product.name);
+
+        this.setQueue([]);
+        this.log.info('🔄 Replayed offline cart changes', { changes: queued.length, adjusted: adjusted.length });
+
+        if (adjusted.length > 0) {
+          this.notifications.warning(this.translation.translate('cartSync.adjusted', { items: adjusted.join(', ') }));
+        } else {
+          this.notifications.success(this.translation.translate('cartSync.synced', { count: queued.length }));
+        }
+      }),
+      catchError(error => {
+        this.log.warn('⚠️ Cart sync failed - changes stay queued:', error);
+        return EMPTY;
+      })
+    );
+  }
+
+  private enqueue(change: QueuedCartChange): void {
+    this.setQueue([...this._pending(), change]);
+  }
+
+  private setQueue(queue: readonly QueuedCartChange[]): void {
+    this._pending.set(queue);
+    try {
+      if (queue.length > 0) {
+        this.storage?.setItem(CART_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+      } else {
+        this.storage?.removeItem(CART_QUEUE_STORAGE_KEY);
+      }
+    } catch (error) {
+      // The change is still applied to the cart - only the replay note is lost on reload
+      this.log.warn('⚠️ Could not save cart queue:', error);
+    }
+  }
+
+  private restore(): QueuedCartChange[] {
+    try {
+      const parsed: unknown = JSON.parse(this.storage?.getItem(CART_QUEUE_STORAGE_KEY) ?? '[]');
+      return Array.isArray(parsed) ? parsed.filter(isQueuedChange) : [];
+    } catch {
+      return [];  // Corrupt queue - the reconcile on startup still fixes the cart
+    }
+  }
+}
+
+type QueueableAction =
+  | ReturnType<typeof CartActions.addItem>
+  | ReturnType<typeof CartActions.setQuantity>
+  | ReturnType<typeof CartActions.removeItem>;
+
+function toQueuedChange(action: Action): QueuedCartChange | null {
+  const queuedAt = new Date().toISOString();
+  const cartAction = action as QueueableAction;
+  switch (cartAction.type) {
+    case CartActions.addItem.type:
+      return { type: 'add', productId: cartAction.product.id, quantity: cartAction.quantity, queuedAt };
+    case CartActions.setQuantity.type:
+      return { type: 'set', productId: cartAction.productId, quantity: cartAction.quantity, queuedAt };
+    case CartActions.removeItem.type:
+      return { type: 'remove', productId: cartAction.productId, quantity: 0, queuedAt };
+    default:
+      return null;
+  }
+}
+
+function isQueuedChange(value: unknown): value is QueuedCartChange {
+  const change = value as Partial<QueuedCartChange> | null;
+  return typeof change?.productId === 'number' && typeof change.quantity === 'number'
+    && (change.type === 'add' || change.type === 'set' || change.type === 'remove');
+}
+
+/**
+ * Queues cart changes made offline and replays them on reconnect.
+ *
+ * Usage in app.config.ts:
+ *   providers: [provideCartPersistence(), provideCartSync()]
+ */
+export function provideCartSync(): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    provideAppInitializer(() => inject(CartSyncService).init())
+  ]);
+}
@@ -0,0 +1,36 @@
+import { createActionGroup, emptyProps, props } from '@ngrx/store';
+import { Product } from '../../../features/products/models/product.model';
+import { CartItem } from '../../../features/cart/models/cart.model';
+
+/**
+ * ===========================================
+ * CART ACTIONS - NgRx createActionGroup
+ * ===========================================
+ *
+ * Actions describe WHAT happened, never HOW state changes.
+ * The reducer decides how each action changes the cart.
+ *
+ * createActionGroup generates one action creator per event:
+ *   'Add Item'     → CartActions.addItem({ product, quantity })
+ *   'Set Quantity' → CartActions.setQuantity({ productId, quantity })
+ *   'Remove Item'  → CartActions.removeItem({ productId })
+ *   'Clear'        → CartActions.clear()
+ *
+ * Persistence / sync events (dispatched by CartPersistenceService):
+ *   'Hydrate'                → replace items with a stored/other-tab cart
+ *   'Reconcile With Catalog' → drop lines whose product vanished or sold out
+ *                              (only the checkedIds lines, when given)
+ *
+ * Action type strings look like: '[Cart] Add Item'
+ */
+export const CartActions = createActionGroup({
+  source: 'Cart',
+  events: {
+    'Add Item': props<{ product: Product; quantity: number }>(),
+    'Set Quantity': props<{ productId: number; quantity: number }>(),
+    'Remove Item': props<{ productId: number }>(),
+    'Clear': emptyProps(),
+    'Hydrate': props<{ items: CartItem[] }>(),
+    'Reconcile With Catalog': props<{ products: Product[]; checkedIds?: number[] }>()
+  }
+});
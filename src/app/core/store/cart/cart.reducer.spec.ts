@@ -0,0 +1,106 @@
+import { Product } from '../../../features/products/models/product.model';
+import { CartActions } from './cart.actions';
+import { cartFeature, initialCartState } from './cart.reducer';
+
+const headphones: Product = {
+  id: 1,
+  name: 'Wireless Headphones',
+  price: 79.99,
+  image: 'headphones.png',
+  category: 'electronics',
+  stock: 10,
+  rating: 4
+};
+
+const book: Product = {
+  id: 4,
+  name: 'JavaScript Book',
+  price: 39.99,
+  image: 'book.png',
+  category: 'books',
+  stock: 10,
+  rating: 5
+};
+
+describe('cartFeature', () => {
+  const reducer = cartFeature.reducer;
+
+  it('should merge duplicate product lines when adding', () => {
+    let state = reducer(initialCartState, CartActions.addItem({ product: headphones, quantity: 1 }));
+    state = reducer(state, CartActions.addItem({ product: headphones, quantity: 2 }));
+
+    expect(state.items).toEqual([{ product: headphones, quantity: 3 }]);
+  });
+
+  it('should never exceed the product stock', () => {
+    const lastTwo = { ...book, stock: 2 };
+    let state = reducer(initialCartState, CartActions.addItem({ product: lastTwo, quantity: 1 }));
+    state = reducer(state, CartActions.addItem({ product: lastTwo, quantity: 5 }));
+    expect(state.items).toEqual([{ product: lastTwo, quantity: 2 }]);
+
+    state = reducer(state, CartActions.reconcileWithCatalog({ products: [{ ...lastTwo, stock: 1 }] }));
+    expect(state.items[0].quantity).toBe(1);
+  });
+
+  it('should only reconcile the checked lines', () => {
+    let state = reducer(initialCartState, CartActions.addItem({ product: book, quantity: 1 }));
+    state = reducer(state, CartActions.addItem({ product: headphones, quantity: 1 }));
+
+    state = reducer(state, CartActions.reconcileWithCatalog({ products: [], checkedIds: [book.id] }));
+
+    expect(state.items).toEqual([{ product: headphones, quantity: 1 }]);
+  });
+
+  it('should ignore adds with a non-positive quantity', () => {
+    const state = reducer(initialCartState, CartActions.addItem({ product: book, quantity: 0 }));
+
+    expect(state.items).toEqual([]);
+  });
+
+  it('should remove the line when quantity is set to zero', () => {
+    let state = reducer(initialCartState, CartActions.addItem({ product: book, quantity: 2 }));
+    state = reducer(state, CartActions.setQuantity({ productId: book.id, quantity: 0 }));
+
+    expect(state.items).toEqual([]);
+  });
+
+  it('should remove a single line and clear everything', () => {
+    let state = reducer(initialCartState, CartActions.addItem({ product: book, quantity: 1 }));
+    state = reducer(state, CartActions.addItem({ product: headphones, quantity: 1 }));
+
+    state = reducer(state, CartActions.removeItem({ productId: book.id }));
+    expect(state.items.map(item => item.product.id)).toEqual([headphones.id]);
+
+    state = reducer(state, CartActions.clear());
+    expect(state).toEqual(initialCartState);
+  });
+
+  it('should compute line totals, item count and subtotal', () => {
+    let state = reducer(initialCartState, CartActions.addItem({ product: headphones, quantity: 2 }));
+    state = reducer(state, CartActions.addItem({ product: book, quantity: 1 }));
+    const root = { cart: state };
+
+    expect(cartFeature.selectLines(root).map(line => line.lineTotal.amount)).toEqual([15998, 3999]);
+    expect(cartFeature.selectItemCount(root)).toBe(3);
+    expect(cartFeature.selectSubtotal(root)).toEqual({ amount: 19997, currency: 'USD' });   // Exact - no float drift
+  });
+
+  it('should replace items when hydrating from storage', () => {
+    let state = reducer(initialCartState, CartActions.addItem({ product: book, quantity: 1 }));
+    state = reducer(state, CartActions.hydrate({ items: [{ product: headphones, quantity: 2 }] }));
+
+    expect(state.items).toEqual([{ product: headphones, quantity: 2 }]);
+  });
+
+  it('should drop missing or sold-out products and refresh snapshots when reconciling', () => {
+    let state = reducer(initialCartState, CartActions.addItem({ product: headphones, quantity: 1 }));
+    state = reducer(state, CartActions.addItem({ product: book, quantity: 1 }));
+
+    const repriced = { ...headphones, price: 69.99 };
+    state = reducer(state, CartActions.reconcileWithCatalog({ products: [repriced] }));
+    expect(state.items).toEqual([{ product: repriced, quantity: 1 }]);
+
+    state = reducer(state, CartActions.reconcileWithCatalog({ products: [{ ...repriced, stock: 0 }] }));
+    expect(state.items).toEqual([]);
+  });
+});
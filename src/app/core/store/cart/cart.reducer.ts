@@ -0,0 +1,119 @@
+import { createFeature, createReducer, createSelector, on } from '@ngrx/store';
+import { CartItem, CartLine } from '../../../features/cart/models/cart.model';
+import { fromMajor, multiply, sum } from '../../utils/money';
+import { purchaseLimit } from '../../utils/stock';
+import { CartActions } from './cart.actions';
+
+/**
+ * ===========================================
+ * CART REDUCER + SELECTORS - NgRx createFeature
+ * ===========================================
+ *
+ * Reducer Rules:
+ * 1. PURE - Same state + action always gives the same result
+ * 2. IMMUTABLE - Always return NEW arrays/objects, never mutate
+ * 3. SYNCHRONOUS - No API calls, no timers
+ *
+ * Quantities never exceed the product snapshot's stock. The snapshot
+ * can be stale - checkout re-checks against live stock (reservations).
+ *
+ * Line totals and the subtotal are Money (integer cents) - never
+ * price × quantity on floats.
+ *
+ * createFeature() bundles:
+ * - name      → key in the root state ({ cart: CartState })
+ * - reducer   → handles CartActions
+ * - selectors → selectCartState, selectItems (auto-generated)
+ *               + extraSelectors defined below
+ */
+
+export interface CartState {
+  items: CartItem[];
+}
+
+export const initialCartState: CartState = {
+  items: []
+};
+
+export const cartFeature = createFeature({
+  name: 'cart',
+  reducer: createReducer(
+    initialCartState,
+
+    // ADD - merge with an existing line for the same product, capped at stock
+    on(CartActions.addItem, (state, { product, quantity }): CartState => {
+      if (quantity <= 0 || purchaseLimit(product) === 0) return state;
+
+      const existing = state.items.find(item => item.product.id === product.id);
+      if (!existing) {
+        return { ...state, items: [...state.items, { product, quantity: Math.min(quantity, purchaseLimit(product)) }] };
+      }
+
+      return {
+        ...state,
+        items: state.items.map(item =>
+          item.product.id === product.id
+            ? { product, quantity: Math.min(item.quantity + quantity, purchaseLimit(product)) }  // Keep the latest product snapshot
+            : item
+        )
+      };
+    }),
+
+    // SET QUANTITY - zero (or less) removes the line, capped at stock
+    on(CartActions.setQuantity, (state, { productId, quantity }): CartState => ({
+      ...state,
+      items: quantity <= 0
+        ? state.items.filter(item => item.product.id !== productId)
+        : state.items.map(item =>
+            item.product.id === productId
+              ? { ...item, quantity: Math.min(quantity, purchaseLimit(item.product)) }
+              : item
+          )
+    })),
+
+    on(CartActions.removeItem, (state, { productId }): CartState => ({
+      ...state,
+      items: state.items.filter(item => item.product.id !== productId)
+    })),
+
+    on(CartActions.clear, (): CartState => initialCartState),
+
+    // HYDRATE - restored from localStorage or pushed by another tab
+    on(CartActions.hydrate, (state, { items }): CartState => ({ ...state, items })),
+
+    // RECONCILE - refresh product snapshots, drop missing / sold-out products,
+    // lower quantities that exceed the current stock. With checkedIds only those
+    // lines are touched - a line added while the products loaded stays as it is
+    on(CartActions.reconcileWithCatalog, (state, { products, checkedIds }): CartState => {
+      const catalog = new Map(products.map(product => [product.id, product]));
+      const checked = checkedIds ? new Set(checkedIds) : null;
+
+      return {
+        ...state,
+        items: state.items.flatMap(item => {
+          if (checked && !checked.has(item.product.id)) return [item];
+          const product = catalog.get(item.product.id);
+          if (!product || purchaseLimit(product) === 0) return [];
+          return [{ product, quantity: Math.min(item.quantity, purchaseLimit(product)) }];
+        })
+      };
+    })
+  ),
+
+  // Derived selectors - memoized, recalculate only when items change
+  extraSelectors: ({ selectItems }) => {
+    const selectLines = createSelector(selectItems, (items): CartLine[] =>
+      items.map(item => ({ ...item, lineTotal: multiply(fromMajor(item.product.price), item.quantity) }))
+    );
+
+    return {
+      selectLines,
+      selectItemCount: createSelector(selectItems, items =>
+        items.reduce((sum, item) => sum + item.quantity, 0)
+      ),
+      selectSubtotal: createSelector(selectLines, lines =>
+        sum(lines.map(line => line.lineTotal))
+      )
+    };
+  }
+});
@@ -0,0 +1,58 @@
+import { Injectable, computed, inject } from '@angular/core';
+import { Store } from '@ngrx/store';
+import { Product } from '../../../features/products/models/product.model';
+import { CartActions } from './cart.actions';
+import { cartFeature } from './cart.reducer';
+
+/**
+ * ===========================================
+ * CART STORE - Facade over NgRx Store
+ * ===========================================
+ *
+ * Components never talk to the NgRx Store directly.
+ * They use this facade, which exposes:
+ * - SIGNALS for reading (store.selectSignal)
+ * - METHODS for writing (dispatch actions)
+ *
+ *   ProductsComponent ─┐
+ *   CartComponent ─────┼──► CartStore ──► Store<{ cart: CartState }>
+ *   HeaderComponent ───┘
+ *
+ * Every consumer reads the SAME state, so the header badge,
+ * the products page and the cart page always agree.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CartStore {
+  private readonly store = inject(Store);
+
+  // ========================================
+  // READ - Signals from selectors
+  // ========================================
+  readonly items = this.store.selectSignal(cartFeature.selectItems);
+  readonly lines = this.store.selectSignal(cartFeature.selectLines);
+  readonly itemCount = this.store.selectSignal(cartFeature.selectItemCount);
+  readonly subtotal = this.store.selectSignal(cartFeature.selectSubtotal);
+
+  readonly isEmpty = computed(() => this.items().length === 0);
+
+  // ========================================
+  // WRITE - Dispatch actions
+  // ========================================
+  add(product: Product, quantity = 1): void {
+    this.store.dispatch(CartActions.addItem({ product, quantity }));
+  }
+
+  setQuantity(productId: number, quantity: number): void {
+    this.store.dispatch(CartActions.setQuantity({ productId, quantity }));
+  }
+
+  remove(productId: number): void {
+    this.store.dispatch(CartActions.removeItem({ productId }));
+  }
+
+  clear(): void {
+    this.store.dispatch(CartActions.clear());
+  }
+}
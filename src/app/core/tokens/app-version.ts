@@ -0,0 +1,17 @@
+import { InjectionToken } from '@angular/core';
+import { version } from '../../../../package.json';
+
+/**
+ * Version of the running build - attached to error reports so a
+ * bug can be matched to the release that shipped it.
+ *
+ * Also shown in the footer. Read from package.json "version", the
+ * ONE place a release is numbered: `npm run build` copies it into
+ * ngsw-config.json appData.version (named by the update prompt),
+ * see scripts/sync-ngsw-version.mjs. Tests override it:
+ *   { provide: APP_VERSION, useValue: '1.4.2' }
+ */
+export const APP_VERSION = new InjectionToken<string>('APP_VERSION', {
+  providedIn: 'root',
+  factory: () => version
+});
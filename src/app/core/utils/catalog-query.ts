@@ -0,0 +1,54 @@
+import { Product, ProductPage, ProductQuery } from '../../features/products/models/product.model';
+
+/**
+ * ===========================================
+ * CATALOG QUERY - filter → sort → slice, client-side
+ * ===========================================
+ *
+ * The same pipeline a server runs for GET /api/product-pages, shared by
+ * InMemoryProductDataSource and ProductService's offline fallback
+ * (queries answered from the IndexedDB catalog snapshot).
+ */
+export function queryCatalog(products: readonly Product[], query: ProductQuery): ProductPage {
+  const matches = products.filter(p =>
+    (!query.category || p.category === query.category) &&
+    (query.minPrice === undefined || p.price >= query.minPrice) &&
+    (query.maxPrice === undefined || p.price <= query.maxPrice) &&
+    (!query.inStockOnly || p.stock > 0) &&
+    (query.minRating === undefined || p.rating >= query.minRating)
+  );
+
+  const sort = query.sort;
+  if (sort) {
+    const factor = query.direction === 'desc' ? -1 : 1;
+    matches.sort((a, b) =>
+      factor * (sort === 'name' ? a.name.localeCompare(b.name) : a[sort] - b[sort])
+    );
+  }
+
+  const totalPages = Math.max(1, Math.ceil(matches.length / query.pageSize));
+  const page = Math.min(query.page, totalPages);  // Out-of-range page → last page
+  const start = (page - 1) * query.pageSize;
+
+  return {
+    items: matches.slice(start, start + query.pageSize),
+    total: matches.length,
+    page,
+    pageSize: query.pageSize,
+    totalPages
+  };
+}
+
+/**
+ * Every word of the query must appear in the name, description or category
+ * "wireless elec" → matches Wireless Headphones (name + category)
+ */
+export function searchCatalog(products: readonly Product[], query: string): Product[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  return products.filter(p => {
+    const haystack = [p.name, p.description ?? '', p.category].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * ===========================================
+ * CSV HELPERS - RFC 4180 style
+ * ===========================================
+ *
+ * - Fields containing , " or a newline are wrapped in quotes
+ * - Quotes inside a field are doubled: She said ""hi""
+ * - Both \n and \r\n line endings are accepted
+ *
+ * - Text starting with = + - @ (or a tab/CR) gets a leading ' so a
+ *   spreadsheet shows it as text instead of running it as a formula
+ *   (CSV injection). stripFormulaGuard() undoes that on import.
+ *
+ * Spreadsheet apps (Excel, Sheets, Numbers) read and write this format.
+ */
+
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+export function toCsv(rows: readonly (readonly unknown[])[]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+function escapeCsvField(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  // Only text is guarded - numbers like -5 must stay numbers
+  if (typeof value === 'string' && FORMULA_TRIGGER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Reverses the formula guard added by toCsv()
+export function stripFormulaGuard(field: string): string {
+  return field.startsWith("'") && FORMULA_TRIGGER.test(field.slice(1)) ? field.slice(1) : field;
+}
+
+/**
+ * Parses CSV text into rows of raw string fields.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,13 @@
+/**
+ * Saves text as a file via a temporary <a download> link.
+ * Works in every modern browser without extra libraries.
+ */
+export function downloadTextFile(document: Document, filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns - revoking right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
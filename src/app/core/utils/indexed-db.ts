@@ -0,0 +1,120 @@
+/**
+ * ===========================================
+ * INDEXEDDB STORE - Tiny promise wrapper
+ * ===========================================
+ *
+ * IndexedDB survives reloads and has far more room than localStorage,
+ * but its API is event based. This wraps ONE object store:
+ *
+ *   const store = new IndexedDbStore<Report>('angular-shop', 'error-reports');
+ *   await store.add(report);
+ *   const all = await store.getAll();
+ *
+ * Keys are auto-incremented unless put() is given one.
+ * When IndexedDB is unavailable (tests, private mode) every call
+ * rejects - callers should fall back to memory.
+ */
+
+// Bump when adding a store - onupgradeneeded creates the missing ones
+const DB_VERSION = 2;
+
+// Every store the app uses - created together on first open
+const STORE_NAMES = ['error-reports', 'catalog'] as const;
+
+export type IndexedDbStoreName = typeof STORE_NAMES[number];
+
+export class IndexedDbStore<T> {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string,
+    private readonly storeName: IndexedDbStoreName
+  ) {}
+
+  add(value: T): Promise<IDBValidKey> {
+    return this.request('readwrite', store => store.add(value));
+  }
+
+  put(key: IDBValidKey, value: T): Promise<IDBValidKey> {
+    return this.request('readwrite', store => store.put(value, key));
+  }
+
+  get(key: IDBValidKey): Promise<T | undefined> {
+    return this.request('readonly', store => store.get(key) as IDBRequest<T | undefined>);
+  }
+
+  getAll(): Promise<T[]> {
+    return this.request('readonly', store => store.getAll() as IDBRequest<T[]>);
+  }
+
+  // Values WITH their keys - so a caller can later delete exactly what it read
+  async entries(): Promise<{ key: IDBValidKey; value: T }[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const entries: { key: IDBValidKey; value: T }[] = [];
+      const request = db.transaction(this.storeName, 'readonly').objectStore(this.storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(entries);
+          return;
+        }
+        entries.push({ key: cursor.primaryKey, value: cursor.value as T });
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  delete(key: IDBValidKey): Promise<void> {
+    return this.request('readwrite', store => store.delete(key));
+  }
+
+  clear(): Promise<void> {
+    return this.request('readwrite', store => store.clear());
+  }
+
+  private async request<R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+    const db = await this.open();
+    return new Promise<R>((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of STORE_NAMES) {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name, { autoIncrement: true });
+          }
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // A newer tab wants to upgrade - let it, and reopen on the next call
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // An older tab still holds the previous version open - fail now
+      // instead of waiting; the open completes once it lets go
+      request.onblocked = () => reject(new Error('IndexedDB upgrade is blocked by another tab'));
+    });
+
+    // A failed open may succeed later (e.g. storage was full) - don't cache the failure
+    this.dbPromise.catch(() => this.dbPromise = null);
+    return this.dbPromise;
+  }
+}
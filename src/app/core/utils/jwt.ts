@@ -0,0 +1,41 @@
+/**
+ * ===========================================
+ * JWT HELPERS - Read claims without verifying
+ * ===========================================
+ *
+ * A JWT is three base64url parts: header.payload.signature
+ * The browser only READS the payload (e.g. `exp`) to schedule
+ * refreshes - signature verification is the server's job.
+ */
+
+export interface JwtPayload {
+  sub?: string;
+  exp?: number;  // Expiry in SECONDS since epoch
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export function decodeJwtPayload(token: string): JwtPayload | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=');
+    const json = decodeURIComponent(
+      Array.from(atob(padded), char => '%' + char.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+    );
+    const claims: unknown = JSON.parse(json);
+    return typeof claims === 'object' && claims !== null ? claims as JwtPayload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry as epoch MILLISECONDS (null when the token has no `exp`)
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
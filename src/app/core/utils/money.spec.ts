@@ -0,0 +1,30 @@
+import { add, convert, formatMoney, fromMajor, money, multiply, subtract, sum, toMajor } from './money';
+
+describe('money', () => {
+  it('should do arithmetic on integer minor units without float drift', () => {
+    expect(fromMajor(79.99)).toEqual({ amount: 7999, currency: 'USD' });
+    expect(fromMajor(1.005).amount).toBe(101);
+    expect(multiply(fromMajor(79.99), 3)).toEqual(fromMajor(239.97));
+    expect(toMajor(sum([fromMajor(0.1), fromMajor(0.2)]))).toBe(0.3);
+    expect(subtract(fromMajor(10), fromMajor(0.01)).amount).toBe(999);
+    expect(multiply(fromMajor(75.58), 0.13).amount).toBe(983);   // 982.54 rounds to the nearest cent
+  });
+
+  it('should refuse to combine different currencies', () => {
+    expect(() => add(money(100, 'USD'), money(100, 'EUR'))).toThrowError(/convert/);
+  });
+
+  it('should convert through the base currency and respect minor digits', () => {
+    const rates = { USD: 1, EUR: 0.5, GBP: 0.8, INR: 80, JPY: 150 };
+
+    expect(convert(fromMajor(10), 'EUR', rates)).toEqual(money(500, 'EUR'));
+    expect(convert(money(500, 'EUR'), 'GBP', rates)).toEqual(money(800, 'GBP'));
+    expect(convert(fromMajor(9.99), 'JPY', rates)).toEqual(money(1499, 'JPY'));   // Yen has no minor unit
+  });
+
+  it('should format with the locale conventions', () => {
+    expect(formatMoney(fromMajor(1234.5), 'en-US')).toBe('$1,234.50');
+    expect(formatMoney(money(123450, 'EUR'), 'de-DE')).toBe('1.234,50 €');
+    expect(formatMoney(money(1499, 'JPY'), 'en-US')).toBe('¥1,499');
+  });
+});
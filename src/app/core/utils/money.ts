@@ -0,0 +1,150 @@
+/**
+ * ===========================================
+ * MONEY - Integer minor units + ISO currency
+ * ===========================================
+ *
+ * Floating point can't represent most cents exactly:
+ *   0.1 + 0.2            → 0.30000000000000004
+ *   79.99 * 3            → 239.96999999999997
+ * so every total is computed on INTEGER minor units (cents) and
+ * only turned back into a decimal for display or the wire format:
+ *
+ *   fromMajor(79.99)                 { amount: 7999, currency: 'USD' }
+ *   multiply(price, 3)               { amount: 23997, currency: 'USD' }
+ *   formatMoney(total, 'de-DE')      "239,97 $"
+ *
+ * Catalog prices (Product.price) and stored orders stay plain decimals
+ * in BASE_CURRENCY - convert with fromMajor() before doing arithmetic.
+ *
+ * Mixing currencies is a programming error and throws; convert first.
+ */
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'INR' | 'JPY';
+
+export interface Money {
+  readonly amount: number;          // Integer minor units (cents, pence, yen)
+  readonly currency: CurrencyCode;
+}
+
+// Units of each currency per 1 BASE_CURRENCY
+export type ExchangeRates = Readonly<Record<CurrencyCode, number>>;
+
+// Currency of the catalog, the pricing rules and every charge
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+// Digits after the decimal point (ISO 4217)
+const MINOR_DIGITS: Record<CurrencyCode, number> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  INR: 2,
+  JPY: 0
+};
+
+// ========================================
+// CREATE / UNWRAP
+// ========================================
+export function money(amount: number, currency: CurrencyCode = BASE_CURRENCY): Money {
+  return { amount: Math.round(amount), currency };
+}
+
+export function zero(currency: CurrencyCode = BASE_CURRENCY): Money {
+  return money(0, currency);
+}
+
+// 79.99 → 7999. toPrecision() absorbs the float error first (1.005 * 100 = 100.49999...)
+export function fromMajor(major: number, currency: CurrencyCode = BASE_CURRENCY): Money {
+  return money(Number((major * minorFactor(currency)).toPrecision(15)), currency);
+}
+
+// 7999 → 79.99 (for storage, payment providers and inputs)
+export function toMajor(value: Money): number {
+  return value.amount / minorFactor(value.currency);
+}
+
+// ========================================
+// ARITHMETIC - always returns a new Money
+// ========================================
+export function add(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+}
+
+// Quantities, percentages (multiply(x, 0.15)) and tax rates - rounded to the nearest minor unit
+export function multiply(value: Money, factor: number): Money {
+  return money(value.amount * factor, value.currency);
+}
+
+export function sum(values: readonly Money[], currency: CurrencyCode = BASE_CURRENCY): Money {
+  return values.reduce(add, zero(currency));
+}
+
+export function minMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return a.amount <= b.amount ? a : b;
+}
+
+export function maxMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return a.amount >= b.amount ? a : b;
+}
+
+export function isZero(value: Money): boolean {
+  return value.amount === 0;
+}
+
+export function isMoney(value: unknown): value is Money {
+  const candidate = value as Money;
+  return typeof candidate === 'object' && candidate !== null &&
+    Number.isInteger(candidate.amount) &&
+    typeof candidate.currency === 'string' && candidate.currency in MINOR_DIGITS;
+}
+
+// ========================================
+// CONVERSION + FORMATTING
+// ========================================
+export function convert(value: Money, to: CurrencyCode, rates: ExchangeRates): Money {
+  if (value.currency === to) return value;
+  return fromMajor(toMajor(value) / rates[value.currency] * rates[to], to);
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Symbol, separators and symbol position all come from the locale:
+ *   en-US → $1,234.50    de-DE → 1.234,50 $    ja-JP → ￥1,235
+ * Formatters are cached - building one is far slower than using it.
+ */
+export function formatMoney(value: Money, locale: string): string {
+  const key = `${locale}|${value.currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    const digits = MINOR_DIGITS[value.currency];
+    formatter = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: value.currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(toMajor(value));
+}
+
+// ========================================
+// PRIVATE HELPERS
+// ========================================
+function minorFactor(currency: CurrencyCode): number {
+  return 10 ** MINOR_DIGITS[currency];
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts - convert() first`);
+  }
+}
@@ -0,0 +1,14 @@
+import { pageWindow } from './pagination';
+
+describe('pageWindow', () => {
+  it('should show the first, last and neighbouring pages with gaps between', () => {
+    expect(pageWindow(7, 20)).toEqual([1, 'gap', 6, 7, 8, 'gap', 20]);
+    expect(pageWindow(1, 20)).toEqual([1, 2, 'gap', 20]);
+    expect(pageWindow(20, 20)).toEqual([1, 'gap', 19, 20]);
+  });
+
+  it('should show a single skipped page instead of a gap', () => {
+    expect(pageWindow(2, 5)).toEqual([1, 2, 3, 4, 5]);
+    expect(pageWindow(1, 1)).toEqual([1]);
+  });
+});
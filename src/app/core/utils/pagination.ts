@@ -0,0 +1,27 @@
+/**
+ * Pagination helpers - which page buttons to render.
+ *
+ * Showing every page breaks down for large catalogs, so only the
+ * first, last and a window around the current page get a button:
+ *
+ *   page 7 of 20 → 1 … 6 7 8 … 20
+ *   page 2 of 5  → 1 2 3 4 5        (a gap of ONE page shows the page instead)
+ */
+export type PageLink = number | 'gap';
+
+export function pageWindow(current: number, totalPages: number, radius = 1): PageLink[] {
+  const pages = new Set<number>([1, totalPages]);
+  for (let page = current - radius; page <= current + radius; page++) {
+    if (page >= 1 && page <= totalPages) pages.add(page);
+  }
+
+  const links: PageLink[] = [];
+  let previous = 0;
+  for (const page of [...pages].sort((a, b) => a - b)) {
+    if (page - previous === 2) links.push(previous + 1);
+    else if (page - previous > 2) links.push('gap');
+    links.push(page);
+    previous = page;
+  }
+  return links;
+}
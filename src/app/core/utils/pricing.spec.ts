@@ -0,0 +1,73 @@
+import { CartLine } from '../../features/cart/models/cart.model';
+import { DEFAULT_PRICING_RULES } from '../../features/cart/models/pricing.model';
+import { DELIVERY_OPTIONS } from '../../features/checkout/models/checkout.model';
+import { Product } from '../../features/products/models/product.model';
+import { fromMajor, multiply } from './money';
+import { priceCart } from './pricing';
+
+const headphones: Product = { id: 1, name: 'Wireless Headphones', price: 79.99, image: 'h.png', category: 'electronics', stock: 10, rating: 4 };
+const tshirt: Product = { id: 3, name: 'Cotton T-Shirt', price: 24.99, image: 't.png', category: 'clothing', stock: 10, rating: 3 };
+const book: Product = { id: 4, name: 'JavaScript Book', price: 40, image: 'b.png', category: 'books', stock: 10, rating: 5 };
+
+const line = (product: Product, quantity: number): CartLine => ({ product, quantity, lineTotal: multiply(fromMajor(product.price), quantity) });
+const usd = (major: number) => fromMajor(major, 'USD');
+
+const [standard, express] = DELIVERY_OPTIONS;
+const now = new Date('2026-01-01T00:00:00.000Z');
+
+describe('priceCart', () => {
+  it('should apply automatic promotions, a coupon, shipping and tax in order', () => {
+    const breakdown = priceCart({
+      lines: [line(tshirt, 3), line(book, 1)],
+      couponCode: 'save10',
+      deliveryOption: express,
+      country: 'Canada',
+      now
+    });
+
+    expect(breakdown.subtotal).toEqual(usd(114.97));
+    expect(breakdown.adjustments).toEqual([
+      { id: 'books-sale', label: 'Book sale: 15% off', amount: usd(6), source: 'promotion' },
+      { id: 'tshirt-3for2', label: 'T-shirts: buy 2, get 1 free', amount: usd(24.99), source: 'promotion' },
+      { id: 'coupon-SAVE10', label: 'Coupon SAVE10', amount: usd(8.4), source: 'coupon' }
+    ]);
+    expect(breakdown.discountTotal).toEqual(usd(39.39));
+    expect(breakdown.shipping).toEqual(usd(14.99));
+    expect(breakdown.tax).toEqual(usd(9.83));      // 13% of 75.58
+    expect(breakdown.total).toEqual(usd(100.4));   // 75.58 + 14.99 + 9.83
+  });
+
+  it('should explain why a coupon was rejected', () => {
+    const reason = (couponCode: string, lines: CartLine[]) =>
+      priceCart({ lines, couponCode, now }).couponRejection?.reason;
+
+    expect(reason('NOPE', [line(book, 1)])).toBe('unknown');
+    expect(reason('SUMMER15', [line(book, 1)])).toBe('expired');
+    expect(reason('TECH20', [line(book, 1)])).toBe('not_applicable');
+    expect(reason('SAVE10', [line(book, 1)])).toBe('minimum_not_met');
+    expect(priceCart({ lines: [line(book, 1)], couponCode: 'SAVE10', now }).couponRejection?.message)
+      .toBe('Coupon SAVE10 needs a subtotal of at least $50.00 - add $16.00 more.');
+    expect(priceCart({ lines: [line(book, 1)], couponCode: 'SAVE10', now, locale: 'de-DE' }).couponRejection?.message)
+      .toBe('Coupon SAVE10 needs a subtotal of at least 50,00\u00a0$ - add 16,00\u00a0$ more.');   // Intl puts a no-break space before the symbol
+  });
+
+  it('should only discount eligible categories and cap fixed coupons', () => {
+    const tech = priceCart({ lines: [line(headphones, 1), line(tshirt, 1)], couponCode: 'TECH20', now });
+    expect(tech.adjustments.at(-1)?.amount).toEqual(usd(16));   // 20% of the headphones only
+
+    const rules = { ...DEFAULT_PRICING_RULES, coupons: [{ code: 'BIG', description: '', kind: 'fixed' as const, value: 500 }] };
+    const fixed = priceCart({ lines: [line(tshirt, 1)], couponCode: 'BIG', now }, rules);
+    expect(fixed.total).toEqual(usd(0));
+  });
+
+  it('should make standard shipping free from the threshold', () => {
+    const below = priceCart({ lines: [line(tshirt, 1)], deliveryOption: standard, now });
+    expect(below.shipping).toEqual(usd(4.99));
+    expect(below.amountToFreeShipping).toEqual(usd(50.01));
+
+    const above = priceCart({ lines: [line(headphones, 1)], deliveryOption: standard, now });
+    expect(above.freeShipping).toBe(true);
+    expect(above.shipping).toEqual(usd(0));
+    expect(priceCart({ lines: [line(headphones, 1)], now }).shipping).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import { CartLine } from '../../features/cart/models/cart.model';
+import {
+  Coupon,
+  CouponRejection,
+  DEFAULT_PRICING_RULES,
+  PriceAdjustment,
+  PricingBreakdown,
+  PricingRules,
+  Promotion
+} from '../../features/cart/models/pricing.model';
+import { DeliveryOption } from '../../features/checkout/models/checkout.model';
+import { CATEGORY_LABELS } from '../../features/products/models/product.model';
+import { Translate, translateEnglish } from '../i18n/translate';
+import { Money, add, formatMoney, fromMajor, maxMoney, minMoney, multiply, subtract, sum, zero } from './money';
+
+export interface PricingInput {
+  lines: readonly CartLine[];
+  couponCode?: string | null;
+  deliveryOption?: DeliveryOption | null;   // null → shipping not known yet
+  country?: string | null;                  // Shipping country → tax region
+  now?: Date;
+  translate?: Translate;                    // Labels and coupon messages, English by default
+  locale?: string;                          // Amounts in coupon messages, 'en-US' by default
+}
+
+/**
+ * ===========================================
+ * PRICING ENGINE - Cart lines → itemized totals
+ * ===========================================
+ *
+ * Pure function, applied in this order:
+ *
+ *   subtotal                       Σ price × quantity
+ *   − promotions (automatic)       category sales, buy X get Y
+ *   − coupon (one, optional)       on eligible lines, after promotions
+ *   = merchandise
+ *   + shipping                     standard is free from the threshold
+ *   + tax                          merchandise × rate of the shipping country
+ *   = total
+ *
+ * Every amount is Money (integer cents), rounded as it is produced,
+ * so the rows the cart shows always add up to the total it shows.
+ * Rules (coupon values, thresholds, delivery costs) are decimals in
+ * BASE_CURRENCY and converted with fromMajor() as they are used.
+ * Adjustment labels and rejection messages come from input.translate,
+ * amounts in those messages are formatted for input.locale.
+ */
+export function priceCart(input: PricingInput, rules: PricingRules = DEFAULT_PRICING_RULES): PricingBreakdown {
+  const lines = input.lines.map(line => ({
+    productId: line.product.id,
+    name: line.product.name,
+    quantity: line.quantity,
+    unitPrice: fromMajor(line.product.price),
+    lineTotal: line.lineTotal
+  }));
+  const subtotal = sum(lines.map(line => line.lineTotal));
+  const translate = input.translate ?? translateEnglish;
+
+  // 1. PROMOTIONS - tracked per line so a coupon only discounts what is left
+  const lineDiscounts = new Map<number, Money>();
+  const adjustments: PriceAdjustment[] = [];
+
+  for (const promotion of rules.promotions) {
+    let amount = zero();
+    for (const line of input.lines) {
+      const already = lineDiscounts.get(line.product.id) ?? zero();
+      const discount = minMoney(promotionDiscount(promotion, line), subtract(line.lineTotal, already));
+      if (discount.amount > 0) {
+        lineDiscounts.set(line.product.id, add(already, discount));
+        amount = add(amount, discount);
+      }
+    }
+    if (amount.amount > 0) {
+      adjustments.push({ id: promotion.id, label: translate(promotion.label), amount, source: 'promotion' });
+    }
+  }
+
+  // 2. COUPON
+  let coupon: Coupon | null = null;
+  let couponRejection: CouponRejection | null = null;
+
+  const code = input.couponCode?.trim().toUpperCase();
+  if (code) {
+    const result = evaluateCoupon(code, input.lines, lineDiscounts, rules.coupons, input.now ?? new Date(), translate, input.locale ?? 'en-US');
+    if ('rejection' in result) {
+      couponRejection = result.rejection;
+    } else {
+      coupon = result.coupon;
+      adjustments.push({ id: `coupon-${coupon.code}`, label: translate('pricing.coupon', { code: coupon.code }), amount: result.amount, source: 'coupon' });
+    }
+  }
+
+  const discountTotal = minMoney(subtotal, sum(adjustments.map(adjustment => adjustment.amount)));
+  const merchandise = subtract(subtotal, discountTotal);
+
+  // 3. SHIPPING
+  const amountToFreeShipping = maxMoney(zero(), subtract(fromMajor(rules.freeShippingThreshold), merchandise));
+  const option = input.deliveryOption ?? null;
+  const freeShipping = option?.id === 'standard' && option.cost > 0 && amountToFreeShipping.amount === 0;
+  const shipping = option ? (freeShipping ? zero() : fromMajor(option.cost)) : null;
+
+  // 4. TAX
+  const taxRegion = input.country ?? null;
+  const taxRate = taxRegion ? rules.taxRates[taxRegion] ?? 0 : 0;
+  const tax = multiply(merchandise, taxRate);
+
+  return {
+    lines,
+    subtotal,
+    adjustments,
+    discountTotal,
+    shipping,
+    freeShipping,
+    amountToFreeShipping,
+    taxRegion,
+    taxRate,
+    tax,
+    total: sum([merchandise, shipping ?? zero(), tax]),
+    coupon,
+    couponRejection
+  };
+}
+
+// ========================================
+// PRIVATE HELPERS
+// ========================================
+function promotionDiscount(promotion: Promotion, line: CartLine): Money {
+  switch (promotion.kind) {
+    case 'category_sale':
+      return line.product.category === promotion.category
+        ? multiply(line.lineTotal, promotion.percentOff / 100)
+        : zero();
+
+    case 'buy_x_get_y': {
+      if (line.product.id !== promotion.productId) return zero();
+      const freeUnits = Math.floor(line.quantity / (promotion.buy + promotion.get)) * promotion.get;
+      return multiply(fromMajor(line.product.price), freeUnits);
+    }
+  }
+}
+
+function evaluateCoupon(
+  code: string,
+  lines: readonly CartLine[],
+  lineDiscounts: ReadonlyMap<number, Money>,
+  coupons: readonly Coupon[],
+  now: Date,
+  translate: Translate,
+  locale: string
+): { coupon: Coupon; amount: Money } | { rejection: CouponRejection } {
+  const reject = (reason: CouponRejection['reason'], message: string) => ({ rejection: { code, reason, message } });
+
+  const coupon = coupons.find(candidate => candidate.code.toUpperCase() === code);
+  if (!coupon) {
+    return reject('unknown', translate('coupon.unknown', { code }));
+  }
+
+  if (coupon.expiresAt && now.toISOString() >= coupon.expiresAt) {
+    return reject('expired', translate('coupon.expired', { code, date: coupon.expiresAt.slice(0, 10) }));
+  }
+
+  const net = (line: CartLine) => subtract(line.lineTotal, lineDiscounts.get(line.product.id) ?? zero());
+  const categories = coupon.categories;
+  const eligible = categories ? lines.filter(line => categories.includes(line.product.category)) : lines;
+  const eligibleAmount = sum(eligible.map(net));
+
+  if (eligibleAmount.amount <= 0) {
+    return reject('not_applicable', categories
+      ? translate('coupon.categoriesOnly', { code, categories: categories.map(category => translate(CATEGORY_LABELS[category])).join(', ') })
+      : translate('coupon.notApplicable', { code }));
+  }
+
+  // Rule amounts are charged in BASE_CURRENCY, so the message is too - in the reader's locale
+  const merchandise = sum(lines.map(net));
+  const minimum = fromMajor(coupon.minSubtotal ?? 0);
+  if (merchandise.amount < minimum.amount) {
+    const missing = subtract(minimum, merchandise);
+    return reject('minimum_not_met', translate('coupon.minimumNotMet', {
+      code,
+      minimum: formatMoney(minimum, locale),
+      missing: formatMoney(missing, locale)
+    }));
+  }
+
+  const amount = coupon.kind === 'percentage'
+    ? multiply(eligibleAmount, coupon.value / 100)
+    : minMoney(fromMajor(coupon.value), eligibleAmount);
+
+  return { coupon, amount };
+}
@@ -0,0 +1,71 @@
+import { Product } from '../../features/products/models/product.model';
+import { parseCsv } from './csv';
+import { previewProductImport, productsToCsv, productsToJson } from './product-import';
+
+const lamp: Product = {
+  id: 5,
+  name: 'Desk Lamp, LED',
+  price: 49.99,
+  description: 'Says "bright"',
+  image: 'https://example.com/lamp.png',
+  category: 'home',
+  stock: 12,
+  rating: 4
+};
+
+describe('product import / export', () => {
+  it('should round-trip the catalog through CSV', () => {
+    const csv = productsToCsv([lamp]);
+
+    expect(parseCsv(csv)[1]).toEqual(['5', 'Desk Lamp, LED', '49.99', 'Says "bright"', 'https://example.com/lamp.png', '', 'home', '12', '4']);
+
+    const preview = previewProductImport(csv, 'csv', [lamp]);
+    expect(preview.rows).toEqual([{ rowNumber: 2, action: 'update', product: lamp, errors: [] }]);
+  });
+
+  it('should report row-level errors in a CSV dry run', () => {
+    const csv = [
+      'id,name,price,image,category',
+      ',Notebook,4.99,https://example.com/n.png,books',
+      ',Poster,cheap,https://example.com/p.png,art',
+      '5,Lamp,10,https://example.com/l.png,home',
+      '5,Lamp again,12,https://example.com/l.png,home'
+    ].join('\n');
+
+    const preview = previewProductImport(csv, 'csv', [lamp]);
+
+    expect(preview.createCount).toBe(1);
+    expect(preview.updateCount).toBe(1);
+    expect(preview.rows[1].errors).toEqual([
+      'Price "cheap" is not a number',
+      'Unknown category "art" (expected electronics, clothing, books, home)'
+    ]);
+    expect(preview.rows[3]).toMatchObject({ rowNumber: 5, action: 'invalid', errors: ['Duplicate id 5'] });
+  });
+
+  it('should keep existing values for blank cells in update rows', () => {
+    const existing: Product = { ...lamp, images: ['https://example.com/lamp-2.png'] };
+    const csv = [
+      'id,name,price,description,image,images,category,stock,rating',
+      '5,Desk Lamp,39.99,,https://example.com/lamp.png,,home,,'
+    ].join('\n');
+
+    const [row] = previewProductImport(csv, 'csv', [existing]).rows;
+
+    expect(row).toMatchObject({ action: 'update', product: { ...existing, name: 'Desk Lamp', price: 39.99 } });
+  });
+
+  it('should guard text cells against spreadsheet formulas and undo it on import', () => {
+    const risky: Product = { ...lamp, name: '=HYPERLINK("https://evil.example")', description: '-50% off' };
+    const csv = productsToCsv([risky]);
+
+    expect(parseCsv(csv)[1].slice(1, 4)).toEqual([`'=HYPERLINK("https://evil.example")`, '49.99', `'-50% off`]);
+    expect(previewProductImport(csv, 'csv', [risky]).rows[0]).toMatchObject({ action: 'update', product: risky });
+  });
+
+  it('should import JSON exports and reject malformed files', () => {
+    expect(previewProductImport(productsToJson([lamp]), 'json', [lamp]).updateCount).toBe(1);
+    expect(previewProductImport('{ nope', 'json', []).fileError).toBe('The file is not valid JSON');
+    expect(previewProductImport('name,price\nA,1', 'csv', []).fileError).toBe('Missing column(s): image, category');
+  });
+});
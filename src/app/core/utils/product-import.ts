@@ -0,0 +1,218 @@
+import {
+  CreateProduct,
+  PRODUCT_CATEGORIES,
+  Product,
+  ProductCategory,
+  UpdateProduct
+} from '../../features/products/models/product.model';
+import { Translate, translateEnglish } from '../i18n/translate';
+import { parseCsv, stripFormulaGuard, toCsv } from './csv';
+
+/**
+ * ===========================================
+ * PRODUCT IMPORT / EXPORT - CSV + JSON
+ * ===========================================
+ *
+ * Export: catalog → CSV (one row per product) or JSON (Product[])
+ *
+ * Import is a DRY RUN first:
+ *
+ *   file text ──► records ──► validate each row ──► ImportPreview
+ *                                                      │
+ *                         admin reviews errors ◄───────┘
+ *                                │
+ *                                ▼ commit (valid rows only)
+ *                       ProductService create / update
+ *
+ * - Row with an id that exists     → update, MERGED with the existing
+ *                                    product: blank cells keep its value
+ * - Row without an id              → create (blank rating/stock → 0)
+ * - Unknown id, duplicate id, bad category, non-numeric price... → error
+ *
+ * Row errors are written with the `translate` passed to the preview.
+ */
+
+export type ImportFormat = 'csv' | 'json';
+
+export const PRODUCT_CSV_COLUMNS = [
+  'id', 'name', 'price', 'description', 'image', 'images', 'category', 'stock', 'rating'
+] as const;
+
+export type ImportRow =
+  | { rowNumber: number; action: 'create'; product: CreateProduct; errors: [] }
+  | { rowNumber: number; action: 'update'; product: UpdateProduct; errors: [] }
+  | { rowNumber: number; action: 'invalid'; name: string; errors: string[] };
+
+export interface ImportPreview {
+  rows: ImportRow[];
+  createCount: number;
+  updateCount: number;
+  errorCount: number;
+  fileError?: string;   // File could not be read at all
+}
+
+// ========================================
+// EXPORT
+// ========================================
+
+export function productsToCsv(products: readonly Product[]): string {
+  return toCsv([
+    PRODUCT_CSV_COLUMNS,
+    ...products.map(p => [
+      p.id, p.name, p.price, p.description, p.image, (p.images ?? []).join('|'), p.category, p.stock, p.rating
+    ])
+  ]);
+}
+
+export function productsToJson(products: readonly Product[]): string {
+  return JSON.stringify(products, null, 2);
+}
+
+// ========================================
+// IMPORT (dry run)
+// ========================================
+
+export function previewProductImport(
+  text: string,
+  format: ImportFormat,
+  existing: readonly Product[],
+  translate: Translate = translateEnglish
+): ImportPreview {
+  let records: Record<string, unknown>[];
+  try {
+    records = format === 'csv' ? csvToRecords(text, translate) : jsonToRecords(text, translate);
+  } catch (error) {
+    return { rows: [], createCount: 0, updateCount: 0, errorCount: 0, fileError: (error as Error).message };
+  }
+
+  const existingById = new Map(existing.map(p => [p.id, p]));
+  const seenIds = new Set<number>();
+
+  // Spreadsheet row numbers: the header is row 1
+  const firstRow = format === 'csv' ? 2 : 1;
+  const rows = records.map((record, index) =>
+    validateRecord(record, index + firstRow, existingById, seenIds, translate)
+  );
+
+  return {
+    rows,
+    createCount: rows.filter(row => row.action === 'create').length,
+    updateCount: rows.filter(row => row.action === 'update').length,
+    errorCount: rows.filter(row => row.action === 'invalid').length
+  };
+}
+
+function csvToRecords(text: string, translate: Translate): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error(translate('import.empty'));
+
+  const columns = header.map(column => column.trim());
+  const missing = ['name', 'price', 'image', 'category'].filter(column => !columns.includes(column));
+  if (missing.length) throw new Error(translate('import.missingColumns', { columns: missing.join(', ') }));
+
+  return rows.map(row => Object.fromEntries(columns.map((column, i) => [column, stripFormulaGuard(row[i] ?? '').trim()])));
+}
+
+function jsonToRecords(text: string, translate: Translate): Record<string, unknown>[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(translate('import.invalidJson'));
+  }
+
+  if (!Array.isArray(data)) throw new Error(translate('import.notAnArray'));
+  return data.map(item => typeof item === 'object' && item !== null ? item as Record<string, unknown> : {});
+}
+
+function validateRecord(
+  record: Record<string, unknown>,
+  rowNumber: number,
+  existingById: ReadonlyMap<number, Product>,
+  seenIds: Set<number>,
+  translate: Translate
+): ImportRow {
+  const errors: string[] = [];
+  const name = String(record['name'] ?? '').trim();
+
+  // id - optional; present → must be a known, not-yet-seen product
+  const rawId = record['id'];
+  let id: number | undefined;
+  if (!isBlank(rawId)) {
+    id = Number(rawId);
+    if (!Number.isInteger(id) || id <= 0) {
+      errors.push(translate('import.invalidId', { id: String(rawId) }));
+    } else if (seenIds.has(id)) {
+      errors.push(translate('import.duplicateId', { id: String(id) }));
+    } else if (!existingById.has(id)) {
+      errors.push(translate('import.unknownId', { id: String(id) }));
+    } else {
+      seenIds.add(id);
+    }
+  }
+
+  if (name.length < 2) errors.push(translate('import.nameRequired'));
+
+  const price = toNumber(record['price']);
+  if (price === undefined) errors.push(translate('import.priceNotANumber', { price: String(record['price'] ?? '') }));
+  else if (price <= 0) errors.push(translate('import.priceNotPositive'));
+
+  const category = String(record['category'] ?? '').trim().toLowerCase();
+  if (!PRODUCT_CATEGORIES.includes(category as ProductCategory)) {
+    errors.push(translate('import.unknownCategory', { category, categories: PRODUCT_CATEGORIES.join(', ') }));
+  }
+
+  const image = String(record['image'] ?? '').trim();
+  if (!/^https?:\/\/\S+$/.test(image)) errors.push(translate('import.imageUrl'));
+
+  // Update rows start from the current product - blank cells don't wipe data
+  const current = id === undefined ? undefined : existingById.get(id);
+
+  const rating = isBlank(record['rating']) ? (current?.rating ?? 0) : toNumber(record['rating']);
+  if (rating === undefined || rating < 0 || rating > 5) errors.push(translate('import.ratingRange'));
+
+  const stock = isBlank(record['stock']) ? (current?.stock ?? 0) : toNumber(record['stock']);
+  if (stock === undefined || !Number.isInteger(stock) || stock < 0) {
+    errors.push(translate('import.stockWholeNumber', { stock: String(record['stock']) }));
+  }
+
+  if (errors.length) {
+    return { rowNumber, action: 'invalid', name, errors };
+  }
+
+  const description = String(record['description'] ?? '').trim();
+  const images = toImageList(record['images']);
+  const product: CreateProduct = {
+    name,
+    price: price!,
+    image,
+    category: category as ProductCategory,
+    stock: stock!,
+    rating: rating!,
+    ...(description ? { description } : {}),
+    ...(images.length ? { images } : {})
+  };
+
+  return current === undefined
+    ? { rowNumber, action: 'create', product, errors: [] }
+    : { rowNumber, action: 'update', product: { ...current, ...product, id: current.id }, errors: [] };
+}
+
+// ========================================
+// PRIVATE HELPERS - accept CSV strings AND JSON values
+// ========================================
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (isBlank(value)) return undefined;
+  const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toImageList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  return isBlank(value) ? [] : String(value).split('|').map(url => url.trim()).filter(Boolean);
+}
@@ -0,0 +1,77 @@
+import { ParamMap, Params } from '@angular/router';
+import {
+  PRODUCT_CATEGORIES,
+  ProductCategory,
+  ProductQuery,
+  ProductSortField,
+  SortDirection
+} from '../../features/products/models/product.model';
+
+/**
+ * ===========================================
+ * PRODUCT QUERY <-> URL QUERY PARAMS
+ * ===========================================
+ *
+ * The URL is the source of truth for catalog views:
+ *   /products?category=books&sort=price&direction=desc&page=2
+ *
+ * - Bookmarkable → the same URL always shows the same view
+ * - Back button  → previous filters come back for free
+ *
+ * Unknown or invalid params fall back to defaults instead of erroring.
+ */
+
+export const DEFAULT_PAGE_SIZE = 12;
+
+export const PAGE_SIZE_OPTIONS: readonly number[] = [6, 12, 24, 48];
+
+const SORT_FIELDS: readonly ProductSortField[] = ['price', 'rating', 'name'];
+
+export function parseProductQuery(params: ParamMap): ProductQuery {
+  const pageSize = toPositiveInt(params.get('pageSize'));
+
+  return {
+    page: toPositiveInt(params.get('page')) ?? 1,
+    pageSize: pageSize && PAGE_SIZE_OPTIONS.includes(pageSize) ? pageSize : DEFAULT_PAGE_SIZE,
+    sort: oneOf(params.get('sort'), SORT_FIELDS),
+    direction: oneOf<SortDirection>(params.get('direction'), ['asc', 'desc']),
+    category: oneOf<ProductCategory>(params.get('category'), PRODUCT_CATEGORIES),
+    minPrice: toNonNegativeNumber(params.get('minPrice')),
+    maxPrice: toNonNegativeNumber(params.get('maxPrice')),
+    inStockOnly: params.get('inStock') === 'true' || undefined,
+    minRating: toNonNegativeNumber(params.get('minRating'))
+  };
+}
+
+/**
+ * Only non-default values are written, keeping URLs short.
+ */
+export function toProductQueryParams(query: ProductQuery): Params {
+  const params: Params = {};
+
+  if (query.page > 1) params['page'] = query.page;
+  if (query.pageSize !== DEFAULT_PAGE_SIZE) params['pageSize'] = query.pageSize;
+  if (query.sort) params['sort'] = query.sort;
+  if (query.sort && query.direction) params['direction'] = query.direction;
+  if (query.category) params['category'] = query.category;
+  if (query.minPrice !== undefined) params['minPrice'] = query.minPrice;
+  if (query.maxPrice !== undefined) params['maxPrice'] = query.maxPrice;
+  if (query.inStockOnly) params['inStock'] = true;
+  if (query.minRating !== undefined) params['minRating'] = query.minRating;
+
+  return params;
+}
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[]): T | undefined {
+  return allowed.includes(value as T) ? value as T : undefined;
+}
+
+function toPositiveInt(value: string | null): number | undefined {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function toNonNegativeNumber(value: string | null): number | undefined {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
@@ -0,0 +1,31 @@
+import { Review } from '../../features/reviews/models/review.model';
+import { distributionPercent, summarizeRatings } from './rating-summary';
+
+const review = (rating: number, status: Review['status'] = 'published'): Review => ({
+  id: `r${rating}-${status}`,
+  productId: 1,
+  userId: 'u1',
+  authorName: 'John Doe',
+  rating,
+  text: '',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  status
+});
+
+describe('summarizeRatings', () => {
+  it('should compute average and distribution from published reviews', () => {
+    const summary = summarizeRatings([review(5), review(4), review(4), review(2), review(1, 'hidden')]);
+
+    expect(summary.count).toBe(4);
+    expect(summary.average).toBe(3.8);
+    expect(summary.distribution).toEqual({ 1: 0, 2: 1, 3: 0, 4: 2, 5: 1 });
+    expect(distributionPercent(summary, 4)).toBe(50);
+  });
+
+  it('should return an empty summary without reviews', () => {
+    const summary = summarizeRatings([]);
+
+    expect(summary.average).toBe(0);
+    expect(distributionPercent(summary, 5)).toBe(0);
+  });
+});
@@ -0,0 +1,35 @@
+import { RatingSummary, Review, StarRating } from '../../features/reviews/models/review.model';
+
+/**
+ * Average rating + per-star histogram for a product's reviews.
+ *
+ *   5 ★ ████████ 8
+ *   4 ★ ███      3
+ *   ...
+ *
+ * Hidden reviews are ignored. The average is rounded to one
+ * decimal place (4.25 → 4.3) for display.
+ */
+export function summarizeRatings(reviews: readonly Review[]): RatingSummary {
+  const distribution: Record<StarRating, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  let total = 0;
+  let count = 0;
+
+  for (const review of reviews) {
+    if (review.status !== 'published') continue;
+    distribution[review.rating as StarRating]++;
+    total += review.rating;
+    count++;
+  }
+
+  return {
+    count,
+    average: count === 0 ? 0 : Math.round((total / count) * 10) / 10,
+    distribution
+  };
+}
+
+// Bar width for the histogram, 0-100
+export function distributionPercent(summary: RatingSummary, stars: StarRating): number {
+  return summary.count === 0 ? 0 : Math.round((summary.distribution[stars] / summary.count) * 100);
+}
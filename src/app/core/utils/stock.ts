@@ -0,0 +1,31 @@
+import { LOW_STOCK_THRESHOLD, Product } from '../../features/products/models/product.model';
+import { Translate, translateEnglish } from '../i18n/translate';
+
+/**
+ * Stock helpers - one place that decides what "in stock" means.
+ *
+ *   stock 0      → sold out
+ *   stock 1-5    → "Only N left"
+ *   stock 6+     → in stock
+ *
+ * Stock is a snapshot from the last catalog fetch. The real check
+ * happens when checkout reserves the cart (InventoryService).
+ */
+export function isInStock(product: Product): boolean {
+  return product.stock > 0;
+}
+
+export function isLowStock(product: Product): boolean {
+  return product.stock > 0 && product.stock <= LOW_STOCK_THRESHOLD;
+}
+
+// Most units one order line may hold: stock, capped by a per-order limit
+export function purchaseLimit(product: Product, maxPerOrder = Infinity): number {
+  return Math.max(0, Math.min(product.stock, maxPerOrder));
+}
+
+export function stockLabel(product: Product, translate: Translate = translateEnglish): string {
+  if (!isInStock(product)) return translate('stock.outOfStock');
+  if (isLowStock(product)) return translate('stock.low', { count: product.stock });
+  return translate('stock.inStock');
+}
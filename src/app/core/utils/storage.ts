@@ -0,0 +1,26 @@
+/**
+ * Web Storage access that never throws.
+ *
+ * Reading `window.localStorage` itself throws when storage is blocked
+ * (privacy settings, sandboxed iframes), and there is no window during
+ * server rendering. Both cases return null - callers fall back to
+ * in-memory state:
+ *
+ *   private readonly storage = getLocalStorage(inject(DOCUMENT));
+ *   this.storage?.setItem(KEY, value);
+ */
+export function getLocalStorage(document: Document): Storage | null {
+  try {
+    return document.defaultView?.localStorage ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function getSessionStorage(document: Document): Storage | null {
+  try {
+    return document.defaultView?.sessionStorage ?? null;
+  } catch {
+    return null;
+  }
+}
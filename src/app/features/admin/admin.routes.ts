@@ -0,0 +1,42 @@
+import { Routes } from '@angular/router';
+import { productResolver } from '../../core/resolvers/product.resolver';
+
+/**
+ * Admin Routes (lazy loaded, admin-only via roleMatchGuard in app.routes.ts)
+ *
+ *   /admin                       → redirect to products
+ *   /admin/products              → product table
+ *   /admin/products/new          → create form
+ *   /admin/products/import-export → CSV / JSON bulk import + export
+ *   /admin/products/:id/edit     → edit form (missing product → 404)
+ *   /admin/reviews               → review moderation (hide / publish)
+ */
+export const adminRoutes: Routes = [
+  { path: '', redirectTo: 'products', pathMatch: 'full' },
+  {
+    path: 'products',
+    loadComponent: () => import('./product-list/admin-product-list.component').then(m => m.AdminProductListComponent),
+    title: 'title.adminProducts'
+  },
+  {
+    path: 'products/new',
+    loadComponent: () => import('./product-form/admin-product-form.component').then(m => m.AdminProductFormComponent),
+    title: 'title.adminNewProduct'
+  },
+  {
+    path: 'products/import-export',
+    loadComponent: () => import('./product-import/admin-product-import.component').then(m => m.AdminProductImportComponent),
+    title: 'title.adminImportExport'
+  },
+  {
+    path: 'products/:id/edit',
+    loadComponent: () => import('./product-form/admin-product-form.component').then(m => m.AdminProductFormComponent),
+    title: 'title.adminEditProduct',
+    resolve: { product: productResolver }
+  },
+  {
+    path: 'reviews',
+    loadComponent: () => import('./review-moderation/admin-review-moderation.component').then(m => m.AdminReviewModerationComponent),
+    title: 'title.adminReviews'
+  }
+];
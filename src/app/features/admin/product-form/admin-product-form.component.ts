@@ -0,0 +1,142 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ReactiveFormsModule, FormBuilder, Validators } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { map } from 'rxjs/operators';
+import {
+  CATEGORY_LABELS,
+  CreateProduct,
+  PRODUCT_CATEGORIES,
+  Product,
+  ProductCategory
+} from '../../products/models/product.model';
+import { LoggerService } from '../../../core/services/logger.service';
+import { NotificationService } from '../../../core/services/notification.service';
+import { ProductService } from '../../../core/services/product.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+type ProductField = 'name' | 'price' | 'description' | 'category' | 'image' | 'rating' | 'stock';
+
+/**
+ * Admin Product Form - Create AND Edit
+ * 
+ * Routes:
+ *   /admin/products/new        → no resolver data → create
+ *   /admin/products/:id/edit   → productResolver  → edit
+ * 
+ * Angular Concepts:
+ * - One reactive form for both modes (patchValue when editing)
+ * - Typed nonNullable form with numeric + pattern validators
+ */
+@Component({
+  selector: 'app-admin-product-form',
+  standalone: true,
+  imports: [ReactiveFormsModule, RouterLink, TranslatePipe],
+  templateUrl: './admin-product-form.component.html',
+  styleUrl: './admin-product-form.component.scss'
+})
+export class AdminProductFormComponent {
+  private readonly fb = inject(FormBuilder);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly productService = inject(ProductService);
+  private readonly notifications = inject(NotificationService);
+  private readonly translation = inject(TranslationService);
+  private readonly log = inject(LoggerService).for('AdminProductForm');
+
+  readonly categories = PRODUCT_CATEGORIES;
+  readonly categoryLabels = CATEGORY_LABELS;
+
+  // Present only in edit mode
+  readonly product = toSignal(
+    this.route.data.pipe(map(data => data['product'] as Product | undefined)),
+    { requireSync: true }
+  );
+
+  readonly isEdit = computed(() => this.product() !== undefined);
+
+  readonly productForm = this.fb.nonNullable.group({
+    name: ['', [Validators.required, Validators.minLength(2), Validators.maxLength(80)]],
+    price: [0, [Validators.required, Validators.min(0.01), Validators.max(100000)]],
+    description: ['', [Validators.maxLength(500)]],
+    category: ['' as ProductCategory | '', [Validators.required]],
+    image: ['', [Validators.required, Validators.pattern(/^https?:\/\/\S+$/)]],
+    rating: [0, [Validators.required, Validators.min(0), Validators.max(5)]],
+    stock: [0, [Validators.required, Validators.min(0), Validators.max(100000), Validators.pattern(/^\d+$/)]]
+  });
+
+  readonly isSaving = signal(false);
+  readonly errorMessage = signal('');
+
+  constructor() {
+    const product = this.product();
+    if (product) {
+      this.productForm.patchValue({ ...product, description: product.description ?? '' });
+    }
+  }
+
+  // ========================================
+  // VALIDATION HELPERS
+  // ========================================
+  isFieldInvalid(fieldName: ProductField): boolean {
+    const field = this.productForm.controls[fieldName];
+    return field.invalid && field.touched;
+  }
+
+  getErrorMessage(fieldName: ProductField): string {
+    const field = this.productForm.controls[fieldName];
+
+    if (field.hasError('required')) return this.translation.translate('validation.fieldRequired');
+    if (field.hasError('minlength')) {
+      return this.translation.translate('validation.minlength', { count: field.errors?.['minlength'].requiredLength });
+    }
+    if (field.hasError('maxlength')) {
+      return this.translation.translate('validation.maxlength', { count: field.errors?.['maxlength'].requiredLength });
+    }
+    if (field.hasError('min') || field.hasError('max')) {
+      if (fieldName === 'rating') return this.translation.translate('admin.ratingRange');
+      if (fieldName === 'stock') return this.translation.translate('admin.stockRange', { max: 100000 });
+      return this.translation.translate('admin.priceRange', { max: 100000 });
+    }
+    if (field.hasError('pattern')) {
+      return this.translation.translate(fieldName === 'stock' ? 'admin.stockWholeNumber' : 'admin.imagePattern');
+    }
+    return '';
+  }
+
+  // ========================================
+  // FORM SUBMISSION
+  // ========================================
+  onSubmit(): void {
+    this.productForm.markAllAsTouched();
+    if (this.productForm.invalid || this.isSaving()) return;
+
+    const { description, category, ...values } = this.productForm.getRawValue();
+    const data: CreateProduct = {
+      ...values,
+      category: category as ProductCategory,
+      ...(description.trim() ? { description: description.trim() } : {})
+    };
+
+    const existing = this.product();
+    const request = existing
+      ? this.productService.updateProduct({ ...data, id: existing.id, description: data.description ?? null })
+      : this.productService.createProduct(data);
+
+    this.isSaving.set(true);
+    this.errorMessage.set('');
+
+    request.subscribe({
+      next: product => {
+        this.log.info('✅ Saved product:', product.id);
+        this.notifications.success(this.translation.translate('admin.productSaved', { name: product.name }));
+        this.router.navigate(['/admin/products']);
+      },
+      error: () => {
+        this.isSaving.set(false);
+        this.errorMessage.set(this.translation.translate('admin.productSaveFailed'));
+      }
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { Component, DOCUMENT, inject, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { TranslationKey } from '../../../core/i18n/en';
+import { ImportFormat, ImportPreview, ImportRow } from '../../../core/utils/product-import';
+import { downloadTextFile } from '../../../core/utils/download';
+import { ImportResult, ProductImportService } from '../../../core/services/product-import.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Admin Product Import / Export
+ * 
+ * Route: /admin/products/import-export
+ * 
+ * Flow: choose file → dry-run preview (row errors) → import valid rows
+ * Nothing is saved until the admin clicks "Import".
+ */
+@Component({
+  selector: 'app-admin-product-import',
+  standalone: true,
+  imports: [RouterLink, TranslatePipe],
+  templateUrl: './admin-product-import.component.html',
+  styleUrl: './admin-product-import.component.scss'
+})
+export class AdminProductImportComponent {
+  private readonly importService = inject(ProductImportService);
+  private readonly document = inject(DOCUMENT);
+  private readonly translation = inject(TranslationService);
+
+  readonly actionLabels: Record<ImportRow['action'], TranslationKey> = {
+    create: 'admin.actionCreate',
+    update: 'admin.actionUpdate',
+    invalid: 'admin.actionInvalid'
+  };
+
+  readonly fileName = signal('');
+  readonly preview = signal<ImportPreview | null>(null);
+  readonly result = signal<ImportResult | null>(null);
+  readonly isBusy = signal(false);
+  readonly errorMessage = signal('');
+
+  // ========================================
+  // EXPORT
+  // ========================================
+  exportCatalog(format: ImportFormat): void {
+    this.errorMessage.set('');
+
+    this.importService.export(format).subscribe({
+      next: content => downloadTextFile(
+        this.document,
+        `products.${format}`,
+        content,
+        format === 'csv' ? 'text/csv' : 'application/json'
+      ),
+      error: () => this.errorMessage.set(this.translation.translate('admin.exportFailed'))
+    });
+  }
+
+  // ========================================
+  // IMPORT - dry run, then commit
+  // ========================================
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';   // Selecting the same file again re-triggers (change)
+    if (!file) return;
+
+    this.fileName.set(file.name);
+    this.preview.set(null);
+    this.result.set(null);
+    this.errorMessage.set('');
+
+    const format: ImportFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      // e.g. the file was moved or deleted after it was picked
+      this.errorMessage.set(this.translation.translate('admin.fileUnreadable'));
+      return;
+    }
+
+    this.isBusy.set(true);
+    this.importService.preview(text, format).subscribe({
+      next: preview => {
+        this.isBusy.set(false);
+        this.preview.set(preview);
+      },
+      error: () => {
+        this.isBusy.set(false);
+        this.errorMessage.set(this.translation.translate('admin.checkFailed'));
+      }
+    });
+  }
+
+  commitImport(): void {
+    const preview = this.preview();
+    if (!preview || this.isBusy()) return;
+
+    this.isBusy.set(true);
+    this.importService.commit(preview).subscribe({
+      next: result => {
+        this.isBusy.set(false);
+        this.preview.set(null);
+        this.result.set(result);
+      },
+      error: () => {
+        this.isBusy.set(false);
+        this.errorMessage.set(this.translation.translate('admin.importFailed'));
+      }
+    });
+  }
+
+  cancelImport(): void {
+    this.preview.set(null);
+    this.fileName.set('');
+  }
+}
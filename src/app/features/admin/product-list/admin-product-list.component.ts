@@ -0,0 +1,98 @@
+import { Component, inject, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { RouterLink } from '@angular/router';
+import { Observable, catchError, of, startWith, switchMap } from 'rxjs';
+import { CATEGORY_LABELS, Product } from '../../products/models/product.model';
+import { NotificationService } from '../../../core/services/notification.service';
+import { ProductService } from '../../../core/services/product.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { isLowStock } from '../../../core/utils/stock';
+import { BASE_CURRENCY } from '../../../core/utils/money';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Admin Product List
+ * 
+ * Route: /admin/products
+ * 
+ * Angular Concepts:
+ * - catalogChanged$ + switchMap → table re-fetches after every edit
+ *   (errors caught INSIDE switchMap, so one failed fetch doesn't end the stream)
+ * - Inline delete confirmation (no blocking confirm() dialog)
+ * - Inline stock editing - saved on change, invalid input is reverted
+ */
+@Component({
+  selector: 'app-admin-product-list',
+  standalone: true,
+  imports: [RouterLink, MoneyPipe, TranslatePipe],
+  templateUrl: './admin-product-list.component.html',
+  styleUrl: './admin-product-list.component.scss'
+})
+export class AdminProductListComponent {
+  private readonly productService = inject(ProductService);
+  private readonly notifications = inject(NotificationService);
+  private readonly translation = inject(TranslationService);
+
+  // Catalog prices are edited in the base currency, never converted
+  readonly baseCurrency = BASE_CURRENCY;
+  readonly categoryLabels = CATEGORY_LABELS;
+
+  // undefined = still loading, null = the last fetch failed
+  readonly products = toSignal(
+    this.productService.catalogChanged$.pipe(
+      startWith(null),
+      switchMap(() => this.productService.getProducts().pipe(
+        catchError(() => of(null))
+      ))
+    )
+  );
+
+  readonly busyId = signal<number | null>(null);
+  readonly confirmDeleteId = signal<number | null>(null);
+  readonly errorMessage = signal('');
+
+  setStock(product: Product, input: HTMLInputElement): void {
+    const stock = input.valueAsNumber;
+    if (!Number.isInteger(stock) || stock < 0) {
+      input.value = String(product.stock);
+      return;
+    }
+    if (stock === product.stock) return;
+
+    this.run(product.id, this.productService.updateProduct({ id: product.id, stock }));
+  }
+
+  isLowStock(product: Product): boolean {
+    return isLowStock(product);
+  }
+
+  askDelete(productId: number): void {
+    this.confirmDeleteId.set(productId);
+  }
+
+  cancelDelete(): void {
+    this.confirmDeleteId.set(null);
+  }
+
+  confirmDelete(productId: number): void {
+    this.confirmDeleteId.set(null);
+    this.run(productId, this.productService.deleteProduct(productId), this.translation.translate('admin.productDeleted'));
+  }
+
+  private run(productId: number, request: Observable<unknown>, successMessage?: string): void {
+    this.busyId.set(productId);
+    this.errorMessage.set('');
+
+    request.subscribe({
+      next: () => {
+        this.busyId.set(null);
+        if (successMessage) this.notifications.success(successMessage);
+      },
+      error: () => {
+        this.busyId.set(null);
+        this.errorMessage.set(this.translation.translate('admin.changeFailed'));
+      }
+    });
+  }
+}
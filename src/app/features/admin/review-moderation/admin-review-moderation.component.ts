@@ -0,0 +1,71 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { RouterLink } from '@angular/router';
+import { catchError, of, startWith, switchMap } from 'rxjs';
+import { Review, ReviewStatus } from '../../reviews/models/review.model';
+import { NotificationService } from '../../../core/services/notification.service';
+import { ProductService } from '../../../core/services/product.service';
+import { ReviewService } from '../../../core/services/review.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { LocalizedDatePipe } from '../../../shared/pipes/localized-date.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Admin Review Moderation
+ * 
+ * Route: /admin/reviews
+ * 
+ * Angular Concepts:
+ * - reviewsChanged$ + switchMap → table re-fetches after every change
+ * - Hiding is reversible: the review stays stored, it just stops
+ *   counting towards the product's average and histogram
+ */
+@Component({
+  selector: 'app-admin-review-moderation',
+  standalone: true,
+  imports: [RouterLink, LocalizedDatePipe, TranslatePipe],
+  templateUrl: './admin-review-moderation.component.html',
+  styleUrl: '../product-list/admin-product-list.component.scss'
+})
+export class AdminReviewModerationComponent {
+  private readonly reviewService = inject(ReviewService);
+  private readonly productService = inject(ProductService);
+  private readonly notifications = inject(NotificationService);
+  private readonly translation = inject(TranslationService);
+
+  // undefined = still loading, null = the last fetch failed
+  readonly reviews = toSignal(
+    this.reviewService.reviewsChanged$.pipe(
+      startWith(null),
+      switchMap(() => this.reviewService.getAllReviews().pipe(
+        catchError(() => of(null))
+      ))
+    )
+  );
+
+  private readonly products = toSignal(this.productService.getProducts(), { initialValue: [] });
+
+  // productId → name, for the table
+  readonly productNames = computed(() => new Map(this.products().map(product => [product.id, product.name])));
+
+  readonly busyId = signal<string | null>(null);
+  readonly errorMessage = signal('');
+
+  toggleStatus(review: Review): void {
+    const status: ReviewStatus = review.status === 'published' ? 'hidden' : 'published';
+
+    this.busyId.set(review.id);
+    this.errorMessage.set('');
+
+    this.reviewService.setStatus(review.id, status).subscribe({
+      next: () => {
+        this.busyId.set(null);
+        this.notifications.success(this.translation.translate(status === 'hidden' ? 'admin.reviewHidden' : 'admin.reviewPublished'));
+      },
+      error: () => {
+        this.busyId.set(null);
+        this.errorMessage.set(this.translation.translate('admin.changeFailed'));
+      }
+    });
+  }
+}
@@ -7,7 +7,18 @@ import {
   FormGroup, 
   Validators
 } from '@angular/forms';
-import { toggleAuth, getAuthState } from '../../../core/guards/auth.guard';
+import { AuthService } from '../../../core/services/auth.service';
+import { classifyError } from '../../../core/handlers/error-classifier';
+import { LoggerService } from '../../../core/services/logger.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { TranslationKey } from '../../../core/i18n/en';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+// Field name → translated label, used in "{field} is required"
+const FIELD_LABELS: Record<string, TranslationKey> = {
+  email: 'login.email',
+  password: 'login.password'
+};
 
 /**
  * ===========================================
@@ -27,13 +38,13 @@ import { toggleAuth, getAuthState } from '../../../core/guards/auth.guard';
  * 
  * Guard Integration:
  * - Receives returnUrl from authGuard redirect
- * - Toggles auth state on successful login
+ * - Signs in through AuthService (same state authGuard reads)
  * - Redirects back to original destination
  */
 @Component({
   selector: 'app-login',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, RouterLink],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, TranslatePipe],
   templateUrl: './login.component.html',
   styleUrl: './login.component.scss'
 })
@@ -41,6 +52,9 @@ export class LoginComponent implements OnInit {
   private readonly fb = inject(FormBuilder);
   private readonly router = inject(Router);
   private readonly activatedRoute = inject(ActivatedRoute);
+  private readonly authService = inject(AuthService);
+  private readonly log = inject(LoggerService).for('Login');
+  private readonly translation = inject(TranslationService);
 
   // ========================================
   // REACTIVE FORM DEFINITION
@@ -54,6 +68,9 @@ export class LoginComponent implements OnInit {
   // Loading state - shows spinner during API call
   readonly isLoading = signal(false);
   
+  // Sign-in failure shown above the form (wrong password, offline...)
+  readonly loginError = signal('');
+  
   // Track form submission attempts
   readonly submitAttempts = signal(0);
   
@@ -63,17 +80,17 @@ export class LoginComponent implements OnInit {
   // Remember me checkbox (could use FormControl, but signal works for simple toggle)
   readonly rememberMe = signal(false);
   
-  // Auth state for demo (from guard)
-  readonly isAuthenticated = signal(getAuthState());
+  // Auth state for demo (shared with authGuard)
+  readonly isAuthenticated = this.authService.isAuthenticated;
 
   // ========================================
   // COMPUTED SIGNALS - Derived State
   // ========================================
   
-  // Dynamic button text based on loading state
+  // Dynamic button text based on loading state (and the language)
   readonly buttonText = computed(() => {
-    if (this.isLoading()) return 'Signing in...';
-    return 'Sign In';
+    if (this.isLoading()) return this.translation.translate('login.submitting');
+    return this.translation.translate('login.submit');
   });
   
   // Password field type (text/password)
@@ -100,7 +117,7 @@ export class LoginComponent implements OnInit {
     effect(() => {
       const attempts = this.submitAttempts();
       if (attempts > 0) {
-        console.log(`📊 Login attempt #${attempts}`);
+        this.log.debug(`📊 Login attempt #${attempts}`);
       }
     });
   }
@@ -147,23 +164,22 @@ export class LoginComponent implements OnInit {
     return !!(field?.invalid && (field?.touched || this.showValidationErrors()));
   }
   
-  // Get field error message
+  // Get field error message - translated, with the plural form for the length
   getErrorMessage(fieldName: string): string {
     const field = this.loginForm.get(fieldName);
     
     if (field?.hasError('required')) {
-      return `${fieldName.charAt(0).toUpperCase() + fieldName.slice(1)} is required`;
+      const label = FIELD_LABELS[fieldName];
+      return this.translation.translate('validation.required', { field: label ? this.translation.translate(label) : fieldName });
     }
     if (field?.hasError('email')) {
-      return 'Please enter a valid email address';
+      return this.translation.translate('validation.email');
     }
     if (field?.hasError('minlength')) {
-      const minLength = field.errors?.['minlength'].requiredLength;
-      return `Minimum ${minLength} characters required`;
+      return this.translation.translate('validation.minlength', { count: field.errors?.['minlength'].requiredLength });
     }
     if (field?.hasError('maxlength')) {
-      const maxLength = field.errors?.['maxlength'].requiredLength;
-      return `Maximum ${maxLength} characters allowed`;
+      return this.translation.translate('validation.maxlength', { count: field.errors?.['maxlength'].requiredLength });
     }
     return '';
   }
@@ -192,59 +208,60 @@ export class LoginComponent implements OnInit {
     
     // Check if form is valid
     if (this.loginForm.invalid) {
-      console.log('❌ Form is invalid');
+      this.log.debug('❌ Form is invalid');
       return;
     }
     
     // Get form values
     const { email, password } = this.loginForm.value;
     
-    console.log('📤 Submitting login:', { email, rememberMe: this.rememberMe() });
+    // email is redacted by the logger - never printed
+    this.log.debug('📤 Submitting login:', { email, rememberMe: this.rememberMe() });
     
     // Start loading
     this.isLoading.set(true);
+    this.loginError.set('');
     
-    // Simulate API call
-    setTimeout(() => {
-      // Simulate success/failure
-      if (email === 'test@test.com' && password === '123456') {
-        console.log('✅ Login successful!');
+    this.authService.login(email, password, { remember: this.rememberMe() }).subscribe({
+      next: () => {
+        this.log.info('✅ Login successful!');
         this.isLoading.set(false);
         
-        // Toggle auth state to authenticated
-        toggleAuth();
-        this.isAuthenticated.set(true);
-        
         // Save to localStorage if remember me is checked
         if (this.rememberMe()) {
           localStorage.setItem('rememberedEmail', email);
         }
         
-        // Get returnUrl from query params (set by authGuard)
-        const returnUrl = this.activatedRoute.snapshot.queryParams['returnUrl'] || '/home';
-        console.log('🔄 Redirecting to:', returnUrl);
-        
-        // Navigate to the original destination or home
-        this.router.navigateByUrl(returnUrl);
-      } else {
-        // Simulate error - let global error handler catch it
+        this.redirectToReturnUrl();
+      },
+      error: (error: unknown) => {
+        // Handled HERE, inline - the user can fix it and retry
         this.isLoading.set(false);
-        throw new Error('Invalid email or password. Try test@test.com / 123456');
+        this.loginError.set(classifyError(error, navigator.onLine, this.translation.translator).message);
       }
-    }, 1500);
+    });
   }
   
   // ========================================
   // DEMO: Quick Login Toggle (for testing guards)
   // ========================================
   quickLogin(): void {
-    const newState = toggleAuth();
-    this.isAuthenticated.set(newState);
-    
-    if (newState) {
-      const returnUrl = this.activatedRoute.snapshot.queryParams['returnUrl'] || '/home';
-      this.router.navigateByUrl(returnUrl);
+    if (this.authService.isAuthenticated()) {
+      this.authService.logout();
+      return;
     }
+    
+    // Demo account from InMemoryAuthBackend
+    this.authService.login('test@test.com', '123456').subscribe(() => this.redirectToReturnUrl());
+  }
+  
+  private redirectToReturnUrl(): void {
+    // Get returnUrl from query params (set by authGuard)
+    const returnUrl = this.activatedRoute.snapshot.queryParams['returnUrl'] || '/home';
+    this.log.debug('🔄 Redirecting to:', returnUrl);
+    
+    // Navigate to the original destination or home
+    this.router.navigateByUrl(returnUrl);
   }
   
   // Reset form
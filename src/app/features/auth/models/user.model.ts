@@ -0,0 +1,32 @@
+/**
+ * ===========================================
+ * AUTH TYPES - TypeScript Models
+ * ===========================================
+ */
+
+// Roles as union type (strict values)
+export type UserRole = 'customer' | 'staff' | 'admin';
+
+// The signed-in user (never contains the password)
+export interface User {
+  readonly id: string;
+  email: string;
+  name: string;
+  roles: UserRole[];
+}
+
+export interface LoginOptions {
+  // Keep the session after the browser is closed (localStorage vs sessionStorage)
+  remember?: boolean;
+}
+
+// Tokens issued by the backend (access = short-lived, refresh = long-lived)
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// What the backend returns after a successful sign in
+export interface AuthSession extends AuthTokens {
+  user: User;
+}
@@ -1,36 +1,94 @@
-import { Component, signal, computed } from '@angular/core';
+import { Component, inject, signal } from '@angular/core';
+import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
 import { RouterLink } from '@angular/router';
+import { InventoryService } from '../../core/services/inventory.service';
+import { CurrencyService } from '../../core/services/currency.service';
+import { PricingService } from '../../core/services/pricing.service';
+import { CartStore } from '../../core/store/cart/cart.store';
+import { Product } from '../products/models/product.model';
+import { BASE_CURRENCY } from '../../core/utils/money';
+import { isLowStock } from '../../core/utils/stock';
+import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { LocalizedPercentPipe } from '../../shared/pipes/localized-number.pipe';
+import { TranslatePipe } from '../../shared/pipes/translate.pipe';
 
 /**
  * Cart Component
  * 
  * Angular Concepts:
- * - Signal-based state management
- * - Computed signals for derived state
+ * - Shared state via an injected store facade (CartStore)
+ * - Signals read straight from NgRx selectors
  * - @for and @if control flow
+ * - Stock problems found when checkout began (InventoryService.issues)
+ * - Itemized totals from PricingService (promotions, coupon, shipping, tax)
  */
 @Component({
   selector: 'app-cart',
   standalone: true,
-  imports: [RouterLink],
+  imports: [RouterLink, ReactiveFormsModule, LocalizedPercentPipe, MoneyPipe, TranslatePipe],
   templateUrl: './cart.component.html',
   styleUrl: './cart.component.scss'
 })
 export class CartComponent {
-  readonly cartItems = signal([
-    { id: 1, name: 'Product 1', price: 29.99, quantity: 2 },
-    { id: 2, name: 'Product 2', price: 49.99, quantity: 1 },
-  ]);
+  private readonly fb = inject(FormBuilder);
+  private readonly cartStore = inject(CartStore);
+  private readonly inventory = inject(InventoryService);
+  private readonly pricing = inject(PricingService);
+  private readonly currency = inject(CurrencyService);
 
-  readonly cartTotal = computed(() => 
-    this.cartItems().reduce((sum, item) => sum + (item.price * item.quantity), 0)
-  );
+  readonly cartItems = this.cartStore.lines;
 
-  readonly itemCount = computed(() =>
-    this.cartItems().reduce((sum, item) => sum + item.quantity, 0)
-  );
+  readonly pricingBreakdown = this.pricing.breakdown;
+
+  // Display currency vs. the currency actually charged
+  readonly displayCurrency = this.currency.currency;
+  readonly isBaseCurrency = this.currency.isBaseCurrency;
+  readonly baseCurrency = BASE_CURRENCY;
+
+  readonly itemCount = this.cartStore.itemCount;
+
+  readonly stockIssues = this.inventory.issues;
+
+  // ========================================
+  // COUPON
+  // ========================================
+  readonly couponForm = this.fb.nonNullable.group({
+    code: ['']
+  });
+  readonly couponError = signal('');
+
+  applyCoupon(): void {
+    const rejection = this.pricing.applyCoupon(this.couponForm.controls.code.value);
+    this.couponError.set(rejection?.message ?? '');
+    if (!rejection) this.couponForm.reset();
+  }
+
+  removeCoupon(): void {
+    this.pricing.removeCoupon();
+    this.couponError.set('');
+  }
+
+  isLowStock(product: Product): boolean {
+    return isLowStock(product);
+  }
+
+  fixStockIssues(): void {
+    this.inventory.applyIssuesToCart();
+  }
+
+  increaseQuantity(productId: number, quantity: number): void {
+    this.cartStore.setQuantity(productId, quantity + 1);
+  }
+
+  decreaseQuantity(productId: number, quantity: number): void {
+    this.cartStore.setQuantity(productId, quantity - 1);  // Reaching 0 removes the line
+  }
 
   removeItem(id: number): void {
-    this.cartItems.update(items => items.filter(item => item.id !== id));
+    this.cartStore.remove(id);
+  }
+
+  clearCart(): void {
+    this.cartStore.clear();
   }
 }
@@ -0,0 +1,31 @@
+import { Money } from '../../../core/utils/money';
+import { Product } from '../../products/models/product.model';
+
+/**
+ * ===========================================
+ * CART TYPES - TypeScript Models
+ * ===========================================
+ *
+ * A cart holds ONE line per product.
+ * Adding the same product twice merges the quantities
+ * instead of creating a duplicate line.
+ */
+
+// A single product line in the cart
+export interface CartItem {
+  readonly product: Product;
+  readonly quantity: number;
+}
+
+// Cart line enriched with derived values (computed by selectors)
+export interface CartLine extends CartItem {
+  readonly lineTotal: Money;
+}
+
+// A cart change made while offline - replayed against the live catalog on reconnect
+export interface QueuedCartChange {
+  readonly type: 'add' | 'set' | 'remove';
+  readonly productId: number;
+  readonly quantity: number;          // add: added, set: new quantity, remove: 0
+  readonly queuedAt: string;          // ISO date string
+}
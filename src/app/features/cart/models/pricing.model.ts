@@ -0,0 +1,130 @@
+import { TranslationKey } from '../../../core/i18n/en';
+import { Money } from '../../../core/utils/money';
+import { ProductCategory } from '../../products/models/product.model';
+
+/**
+ * ===========================================
+ * PRICING TYPES - Coupons, promotions, tax
+ * ===========================================
+ *
+ * Rules are plain data (like DELIVERY_OPTIONS) so the pricing
+ * engine stays a pure function that is easy to test. Rule amounts
+ * are decimals in BASE_CURRENCY; breakdown amounts are Money.
+ */
+
+// ========================================
+// COUPONS - entered by the customer, one per order
+// ========================================
+export interface Coupon {
+  readonly code: string;              // Matched case-insensitively
+  readonly description: string;
+  readonly kind: 'percentage' | 'fixed';
+  readonly value: number;             // 10 = 10% or $10
+  readonly minSubtotal?: number;      // After automatic promotions
+  readonly expiresAt?: string;        // ISO date string
+  readonly categories?: readonly ProductCategory[];  // Only these lines count
+}
+
+export type CouponRejectionReason = 'unknown' | 'expired' | 'minimum_not_met' | 'not_applicable';
+
+export interface CouponRejection {
+  code: string;
+  reason: CouponRejectionReason;
+  message: string;                    // Safe to show as-is, in the language it was priced in
+}
+
+// ========================================
+// PROMOTIONS - applied automatically
+// ========================================
+export type Promotion =
+  | {
+      readonly id: string;
+      readonly kind: 'category_sale';
+      readonly label: TranslationKey;
+      readonly category: ProductCategory;
+      readonly percentOff: number;
+    }
+  | {
+      readonly id: string;
+      readonly kind: 'buy_x_get_y';
+      readonly label: TranslationKey;
+      readonly productId: number;
+      readonly buy: number;           // Pay for this many...
+      readonly get: number;           // ...and get this many more free
+    };
+
+// ========================================
+// BREAKDOWN - what the cart renders line by line
+// ========================================
+export interface PricedLine {
+  productId: number;
+  name: string;
+  quantity: number;
+  unitPrice: Money;
+  lineTotal: Money;                   // Before discounts
+}
+
+// One "−$x.xx" row in the breakdown
+export interface PriceAdjustment {
+  id: string;
+  label: string;                      // Translated - orders keep the text they were placed with
+  amount: Money;                      // Money OFF, always positive
+  source: 'promotion' | 'coupon';
+}
+
+export interface PricingBreakdown {
+  lines: PricedLine[];
+  subtotal: Money;
+  adjustments: PriceAdjustment[];
+  discountTotal: Money;
+  shipping: Money | null;             // null until a delivery option is chosen
+  freeShipping: boolean;
+  amountToFreeShipping: Money;        // 0 once the threshold is reached
+  taxRegion: string | null;           // null until a shipping country is known
+  taxRate: number;
+  tax: Money;
+  total: Money;
+  coupon: Coupon | null;              // Applied coupon
+  couponRejection: CouponRejection | null;  // Entered but not applicable (any more)
+}
+
+export interface PricingRules {
+  coupons: readonly Coupon[];
+  promotions: readonly Promotion[];
+  taxRates: Readonly<Record<string, number>>;   // Shipping country → rate
+  freeShippingThreshold: number;                // Standard delivery only
+}
+
+// ========================================
+// DEMO RULES
+// ========================================
+export const COUPONS: readonly Coupon[] = [
+  { code: 'SAVE10', description: '10% off orders over $50', kind: 'percentage', value: 10, minSubtotal: 50 },
+  { code: 'WELCOME5', description: '$5 off orders over $25', kind: 'fixed', value: 5, minSubtotal: 25 },
+  { code: 'TECH20', description: '20% off electronics', kind: 'percentage', value: 20, categories: ['electronics'] },
+  { code: 'SUMMER15', description: '15% off everything', kind: 'percentage', value: 15, expiresAt: '2025-09-01T00:00:00.000Z' }
+];
+
+export const PROMOTIONS: readonly Promotion[] = [
+  { id: 'books-sale', kind: 'category_sale', label: 'promotion.booksSale', category: 'books', percentOff: 15 },
+  { id: 'tshirt-3for2', kind: 'buy_x_get_y', label: 'promotion.tshirt3for2', productId: 3, buy: 2, get: 1 }
+];
+
+// Prices are tax-exclusive; tax is charged on merchandise after discounts
+export const TAX_RATES: Readonly<Record<string, number>> = {
+  'United States': 0.07,
+  'Canada': 0.13,
+  'United Kingdom': 0.2,
+  'Germany': 0.19,
+  'India': 0.18,
+  'Australia': 0.1
+};
+
+export const FREE_SHIPPING_THRESHOLD = 75;
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  coupons: COUPONS,
+  promotions: PROMOTIONS,
+  taxRates: TAX_RATES,
+  freeShippingThreshold: FREE_SHIPPING_THRESHOLD
+};
@@ -0,0 +1,56 @@
+import { Component, DestroyRef, inject } from '@angular/core';
+import { RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
+import { CHECKOUT_STEPS, CheckoutStep } from './models/checkout.model';
+import { TranslationKey } from '../../core/i18n/en';
+import { CheckoutStateService } from '../../core/services/checkout-state.service';
+import { InventoryService } from '../../core/services/inventory.service';
+import { CartStore } from '../../core/store/cart/cart.store';
+import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { LocalizedDatePipe } from '../../shared/pipes/localized-date.pipe';
+import { TranslatePipe } from '../../shared/pipes/translate.pipe';
+
+/**
+ * Checkout Shell Component
+ * 
+ * Angular Concepts:
+ * - Child routes with a nested <router-outlet>
+ * - Stepper driven by routerLinkActive
+ * - Shared step state in a root service (CheckoutStateService)
+ * - DestroyRef.onDestroy - leaving checkout releases reserved stock
+ */
+@Component({
+  selector: 'app-checkout',
+  standalone: true,
+  imports: [RouterOutlet, RouterLink, RouterLinkActive, LocalizedDatePipe, MoneyPipe, TranslatePipe],
+  templateUrl: './checkout.component.html',
+  styleUrl: './checkout.component.scss'
+})
+export class CheckoutComponent {
+  private readonly checkoutState = inject(CheckoutStateService);
+  private readonly cartStore = inject(CartStore);
+  private readonly inventory = inject(InventoryService);
+
+  readonly steps = CHECKOUT_STEPS;
+
+  readonly stepLabels: Record<CheckoutStep, TranslationKey> = {
+    shipping: 'checkout.stepShipping',
+    delivery: 'checkout.stepDelivery',
+    review: 'checkout.stepReview',
+    payment: 'checkout.stepPayment'
+  };
+
+  readonly itemCount = this.cartStore.itemCount;
+  readonly subtotal = this.cartStore.subtotal;
+  readonly reservation = this.inventory.reservation;
+
+  constructor() {
+    // InventoryService.commit() hands the reservation over as soon as the
+    // order is placed (before navigating away), so this only releases
+    // stock for an abandoned checkout
+    inject(DestroyRef).onDestroy(() => this.inventory.release());
+  }
+
+  canEnter(step: CheckoutStep): boolean {
+    return this.checkoutState.canEnter(step);
+  }
+}
@@ -0,0 +1,45 @@
+import { Routes } from '@angular/router';
+import { checkoutStepGuard } from '../../core/guards/checkout.guard';
+import { CheckoutComponent } from './checkout.component';
+
+/**
+ * Checkout Child Routes (lazy loaded via loadChildren)
+ *
+ *   /checkout            → redirect to shipping
+ *   /checkout/shipping   → address form
+ *   /checkout/delivery   → delivery method (needs address)
+ *   /checkout/review     → order review (needs delivery method)
+ *   /checkout/payment    → card payment, places the order (needs review)
+ */
+export const checkoutRoutes: Routes = [
+  {
+    path: '',
+    component: CheckoutComponent,   // Shell: stepper + <router-outlet>
+    children: [
+      { path: '', redirectTo: 'shipping', pathMatch: 'full' },
+      {
+        path: 'shipping',
+        loadComponent: () => import('./shipping-step/shipping-step.component').then(m => m.ShippingStepComponent),
+        title: 'title.checkoutShipping'
+      },
+      {
+        path: 'delivery',
+        loadComponent: () => import('./delivery-step/delivery-step.component').then(m => m.DeliveryStepComponent),
+        title: 'title.checkoutDelivery',
+        canActivate: [checkoutStepGuard('delivery')]
+      },
+      {
+        path: 'review',
+        loadComponent: () => import('./review-step/review-step.component').then(m => m.ReviewStepComponent),
+        title: 'title.checkoutReview',
+        canActivate: [checkoutStepGuard('review')]
+      },
+      {
+        path: 'payment',
+        loadComponent: () => import('./payment-step/payment-step.component').then(m => m.PaymentStepComponent),
+        title: 'title.checkoutPayment',
+        canActivate: [checkoutStepGuard('payment')]
+      }
+    ]
+  }
+];
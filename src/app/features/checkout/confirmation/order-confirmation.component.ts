@@ -0,0 +1,43 @@
+import { Component, inject } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { map, switchMap } from 'rxjs';
+import { OrderService } from '../../../core/services/order.service';
+import { BASE_CURRENCY } from '../../../core/utils/money';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+import { DELIVERY_OPTION_LABELS } from '../models/checkout.model';
+
+/**
+ * Order Confirmation Component
+ * 
+ * Route: /checkout/confirmation/:orderId
+ * Lives OUTSIDE the checkout shell - the cart is empty by now,
+ * so checkoutGuard would redirect it away.
+ */
+@Component({
+  selector: 'app-order-confirmation',
+  standalone: true,
+  imports: [RouterLink, MoneyPipe, TranslatePipe],
+  templateUrl: './order-confirmation.component.html',
+  styleUrl: './order-confirmation.component.scss'
+})
+export class OrderConfirmationComponent {
+  private readonly route = inject(ActivatedRoute);
+  private readonly orderService = inject(OrderService);
+
+  // Shown in the charged currency, not today's display currency
+  readonly baseCurrency = BASE_CURRENCY;
+  readonly deliveryLabels = DELIVERY_OPTION_LABELS;
+
+  readonly orderId = toSignal(
+    this.route.paramMap.pipe(map(params => params.get('orderId') ?? '')),
+    { initialValue: '' }
+  );
+
+  readonly order = toSignal(
+    this.route.paramMap.pipe(
+      switchMap(params => this.orderService.getOrderById(params.get('orderId') ?? ''))
+    )
+  );
+}
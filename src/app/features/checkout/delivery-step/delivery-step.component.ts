@@ -0,0 +1,43 @@
+import { Component, inject } from '@angular/core';
+import { ReactiveFormsModule, FormControl, Validators } from '@angular/forms';
+import { Router, RouterLink } from '@angular/router';
+import { DELIVERY_OPTIONS, DELIVERY_OPTION_LABELS, DeliveryMethodId } from '../models/checkout.model';
+import { CheckoutStateService } from '../../../core/services/checkout-state.service';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Checkout Step 2 - Delivery Method
+ * 
+ * Angular Concepts:
+ * - Standalone FormControl bound to radio buttons
+ */
+@Component({
+  selector: 'app-delivery-step',
+  standalone: true,
+  imports: [ReactiveFormsModule, RouterLink, MoneyPipe, TranslatePipe],
+  templateUrl: './delivery-step.component.html',
+  styleUrl: '../checkout-step.scss'
+})
+export class DeliveryStepComponent {
+  private readonly router = inject(Router);
+  private readonly checkoutState = inject(CheckoutStateService);
+
+  readonly options = DELIVERY_OPTIONS;
+  readonly optionLabels = DELIVERY_OPTION_LABELS;
+
+  // Restores the previous choice when the user navigates back
+  readonly deliveryControl = new FormControl<DeliveryMethodId | null>(
+    this.checkoutState.deliveryMethodId(),
+    Validators.required
+  );
+
+  onSubmit(): void {
+    this.deliveryControl.markAsTouched();
+    const methodId = this.deliveryControl.value;
+    if (!methodId) return;
+
+    this.checkoutState.deliveryMethodId.set(methodId);
+    this.router.navigate(['/checkout', 'review']);
+  }
+}
@@ -0,0 +1,48 @@
+import { TranslationKey } from '../../../core/i18n/en';
+
+/**
+ * ===========================================
+ * CHECKOUT TYPES - TypeScript Models
+ * ===========================================
+ */
+
+export interface ShippingAddress {
+  fullName: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  postalCode: string;
+  country: string;
+  phone?: string;
+}
+
+export type DeliveryMethodId = 'standard' | 'express' | 'pickup';
+
+export interface DeliveryOption {
+  readonly id: DeliveryMethodId;
+  readonly label: string;
+  readonly description: string;
+  readonly cost: number;
+}
+
+// Steps in the order the user goes through them
+export type CheckoutStep = 'shipping' | 'delivery' | 'review' | 'payment';
+
+export const CHECKOUT_STEPS: readonly CheckoutStep[] = ['shipping', 'delivery', 'review', 'payment'];
+
+export const DELIVERY_OPTIONS: readonly DeliveryOption[] = [
+  { id: 'standard', label: 'Standard', description: '5–7 business days', cost: 4.99 },
+  { id: 'express', label: 'Express', description: '1–2 business days', cost: 14.99 },
+  { id: 'pickup', label: 'Store pickup', description: 'Ready tomorrow', cost: 0 }
+];
+
+// Display text by id - label / description above are what orders store
+export const DELIVERY_OPTION_LABELS: Record<DeliveryMethodId, { label: TranslationKey; description: TranslationKey }> = {
+  standard: { label: 'delivery.standard', description: 'delivery.standardDescription' },
+  express: { label: 'delivery.express', description: 'delivery.expressDescription' },
+  pickup: { label: 'delivery.pickup', description: 'delivery.pickupDescription' }
+};
+
+export const SHIPPING_COUNTRIES: readonly string[] = [
+  'United States', 'Canada', 'United Kingdom', 'Germany', 'India', 'Australia'
+];
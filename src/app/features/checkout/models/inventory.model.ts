@@ -0,0 +1,29 @@
+/**
+ * ===========================================
+ * INVENTORY TYPES - Stock reservations
+ * ===========================================
+ */
+
+export interface ReservationLine {
+  productId: number;
+  quantity: number;
+}
+
+// Units held for one customer while they check out
+export interface StockReservation {
+  readonly id: string;
+  holderId: string;        // User id
+  lines: ReservationLine[];
+  expiresAt: string;       // ISO date string - released automatically after this
+}
+
+// One cart line that cannot be fulfilled
+export interface StockIssue {
+  productId: number;
+  productName: string;
+  requested: number;
+  available: number;       // 0 = sold out or discontinued
+}
+
+// How long reserved units stay held
+export const RESERVATION_TTL_MS = 10 * 60 * 1000;
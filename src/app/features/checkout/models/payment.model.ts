@@ -0,0 +1,54 @@
+import { Money } from '../../../core/utils/money';
+
+/**
+ * ===========================================
+ * PAYMENT TYPES - TypeScript Models
+ * ===========================================
+ */
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'unknown';
+
+// What the user types into the payment form
+export interface CardDetails {
+  holderName: string;
+  number: string;     // Digits only
+  expiry: string;     // MM/YY
+  cvc: string;
+}
+
+export interface PaymentRequest {
+  amount: number;
+  currency: string;
+  card: CardDetails;
+}
+
+export type DeclineReason = 'card_declined' | 'insufficient_funds' | 'challenge_failed';
+
+/**
+ * Result of authorize() / completeChallenge()
+ * Discriminated union - switch on `status`
+ */
+export type PaymentAuthorization =
+  | { status: 'authorized'; authorizationId: string; brand: CardBrand; last4: string }
+  | { status: 'challenge_required'; authorizationId: string; message: string }
+  | { status: 'declined'; reason: DeclineReason; message: string };
+
+export interface PaymentCapture {
+  captureId: string;
+  authorizationId: string;
+  amount: number;
+}
+
+// What ends up on the Order (never the full card number!)
+export interface OrderPayment {
+  authorizationId: string;
+  captureId: string;
+  brand: CardBrand;
+  last4: string;
+}
+
+// Captured, but no order was placed and the refund failed
+export interface UnrefundedCapture {
+  payment: OrderPayment;
+  amount: Money;      // What the card was actually charged
+}
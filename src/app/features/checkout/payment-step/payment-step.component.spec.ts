@@ -0,0 +1,140 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideRouter } from '@angular/router';
+import { Observable, of, throwError } from 'rxjs';
+import { InsufficientStockError } from '../../../core/errors/insufficient-stock-error';
+import { CheckoutStateService } from '../../../core/services/checkout-state.service';
+import { ErrorReportingService } from '../../../core/services/error-reporting.service';
+import { FAKE_CARDS } from '../../../core/services/fake-payment-provider';
+import { InventoryService } from '../../../core/services/inventory.service';
+import { OrderService } from '../../../core/services/order.service';
+import { PaymentProvider } from '../../../core/services/payment-provider';
+import { PricingService } from '../../../core/services/pricing.service';
+import { CartStore } from '../../../core/store/cart/cart.store';
+import { money } from '../../../core/utils/money';
+import { DELIVERY_OPTIONS, ShippingAddress } from '../models/checkout.model';
+import { PaymentAuthorization, PaymentCapture, UnrefundedCapture } from '../models/payment.model';
+import { PaymentStepComponent } from './payment-step.component';
+
+const address: ShippingAddress = { fullName: 'Jane Roe', addressLine1: '1 Main St', city: 'Town', postalCode: '12345', country: 'Canada' };
+
+class StubPaymentProvider extends PaymentProvider {
+  calls: string[] = [];
+  refundFails = false;
+
+  authorize(): Observable<PaymentAuthorization> {
+    this.calls.push('authorize');
+    return of({ status: 'authorized', authorizationId: 'auth_1', brand: 'visa', last4: '4242' });
+  }
+
+  completeChallenge(): Observable<PaymentAuthorization> {
+    return of({ status: 'declined', reason: 'challenge_failed', message: 'Card verification failed.' });
+  }
+
+  capture(authorizationId: string): Observable<PaymentCapture> {
+    this.calls.push('capture');
+    return of({ captureId: 'cap_1', authorizationId, amount: 10 });
+  }
+
+  voidAuthorization(): Observable<void> {
+    this.calls.push('void');
+    return of(undefined);
+  }
+
+  refund(): Observable<void> {
+    this.calls.push('refund');
+    return this.refundFails ? throwError(() => new Error('Gateway down')) : of(undefined);
+  }
+}
+
+describe('PaymentStepComponent', () => {
+  let provider: StubPaymentProvider;
+  let placeOrder: ReturnType<typeof vi.fn>;
+  let ensureReservation: ReturnType<typeof vi.fn>;
+  let report: ReturnType<typeof vi.fn>;
+  let total: ReturnType<typeof signal<ReturnType<typeof money>>>;
+  let unrefundedCapture: ReturnType<typeof signal<UnrefundedCapture | null>>;
+  let component: PaymentStepComponent;
+
+  beforeEach(() => {
+    placeOrder = vi.fn(() => throwError(() => new Error('Order service down')));
+    ensureReservation = vi.fn(() => of({}));
+    report = vi.fn();
+    total = signal(money(1000));
+    unrefundedCapture = signal<UnrefundedCapture | null>(null);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        { provide: PaymentProvider, useClass: StubPaymentProvider },
+        { provide: OrderService, useValue: { placeOrder } },
+        { provide: InventoryService, useValue: { ensureReservation, commit: () => of(undefined) } },
+        { provide: ErrorReportingService, useValue: { report } },
+        { provide: PricingService, useValue: { total, breakdown: signal(null), removeCoupon: () => undefined } },
+        { provide: CartStore, useValue: { lines: signal([]), clear: () => undefined } },
+        { provide: CheckoutStateService, useValue: {
+          shippingAddress: signal(address),
+          deliveryOption: signal(DELIVERY_OPTIONS[0]),
+          unrefundedCapture,
+          reset: () => unrefundedCapture.set(null)
+        } }
+      ]
+    });
+    provider = TestBed.inject(PaymentProvider) as StubPaymentProvider;
+    component = TestBed.runInInjectionContext(() => new PaymentStepComponent());
+    component.paymentForm.setValue({ holderName: 'Jane Roe', number: FAKE_CARDS.success, expiry: '12/99', cvc: '123' });
+  });
+
+  it('should refund the capture when the order cannot be placed', () => {
+    component.onSubmit();
+
+    expect(provider.calls).toEqual(['authorize', 'capture', 'refund']);
+    expect(component.isProcessing()).toBe(false);
+    expect(component.errorMessage()).toContain('refunded');
+  });
+
+  it('should reuse an unrefunded capture on retry instead of charging again', () => {
+    provider.refundFails = true;
+    component.onSubmit();
+
+    expect(report).toHaveBeenCalledTimes(1);
+    expect(unrefundedCapture()?.payment.captureId).toBe('cap_1');
+
+    placeOrder.mockReturnValue(of({ id: 'ORD-1' }));
+    component.onSubmit();
+
+    expect(provider.calls).toEqual(['authorize', 'capture', 'refund']);
+    expect(ensureReservation).toHaveBeenCalledTimes(3);
+    expect(placeOrder).toHaveBeenCalledTimes(2);
+    expect(placeOrder.mock.calls[1][0].payment.captureId).toBe('cap_1');
+    expect(unrefundedCapture()).toBeNull();
+  });
+
+  it('should refund an unrefunded capture that no longer matches the total', () => {
+    provider.refundFails = true;
+    component.onSubmit();
+
+    provider.refundFails = false;
+    total.set(money(1500));
+    component.onSubmit();
+
+    expect(provider.calls).toEqual(['authorize', 'capture', 'refund', 'refund']);
+    expect(placeOrder).toHaveBeenCalledTimes(1);
+    expect(unrefundedCapture()).toBeNull();
+    expect(component.errorMessage()).toContain('total changed');
+  });
+
+  it('should renew the reservation before capturing and void when the stock is gone', () => {
+    const gone = new InsufficientStockError([{ productId: 5, productName: 'Desk Lamp', requested: 1, available: 0 }]);
+    ensureReservation
+      .mockReturnValueOnce(of({}))
+      .mockReturnValueOnce(throwError(() => gone));
+
+    component.onSubmit();
+
+    expect(ensureReservation).toHaveBeenCalledTimes(2);
+    expect(provider.calls).toEqual(['authorize', 'void']);
+    expect(component.stockProblem()).toBe(true);
+    expect(component.errorMessage()).toContain('You have not been charged');
+  });
+});
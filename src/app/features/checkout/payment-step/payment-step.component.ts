@@ -0,0 +1,313 @@
+import { Component, inject, isDevMode, signal } from '@angular/core';
+import { FormBuilder, FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Router, RouterLink } from '@angular/router';
+import { switchMap } from 'rxjs';
+import { InsufficientStockError } from '../../../core/errors/insufficient-stock-error';
+import { classifyError } from '../../../core/handlers/error-classifier';
+import { TranslationKey } from '../../../core/i18n/en';
+import { CardBrand, PaymentAuthorization, UnrefundedCapture } from '../models/payment.model';
+import { CheckoutStateService } from '../../../core/services/checkout-state.service';
+import { ErrorReportingService } from '../../../core/services/error-reporting.service';
+import { InventoryService } from '../../../core/services/inventory.service';
+import { FAKE_CARDS, FAKE_CHALLENGE_CODE } from '../../../core/services/fake-payment-provider';
+import { LoggerService } from '../../../core/services/logger.service';
+import { OrderService } from '../../../core/services/order.service';
+import { PaymentProvider } from '../../../core/services/payment-provider';
+import { PricingService } from '../../../core/services/pricing.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { CartStore } from '../../../core/store/cart/cart.store';
+import { BASE_CURRENCY, fromMajor, toMajor } from '../../../core/utils/money';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+import {
+  cardExpiryValidator,
+  cardNumberValidator,
+  cvcValidator,
+  normalizeCardNumber
+} from '../../../shared/validators/payment.validators';
+
+type PaymentField = 'holderName' | 'number' | 'expiry' | 'cvc';
+
+/**
+ * Checkout Step 4 - Payment
+ * 
+ * Angular Concepts:
+ * - Custom ValidatorFn (Luhn, expiry, CVC)
+ * - Multi-step async flow:
+ *   check reservation → authorize → (challenge) → capture → place order → commit stock
+ * - Every failure handled in subscribe({ error }) and shown INLINE,
+ *   so the failure never reaches GlobalErrorHandler
+ * - Never charge twice: an authorization that won't be captured is
+ *   voided, a capture without an order is refunded - and if even the
+ *   refund fails, the capture is reported and kept in CheckoutStateService,
+ *   so the next "Pay" reuses it (if it still matches the total) instead
+ *   of charging the card again
+ */
+@Component({
+  selector: 'app-payment-step',
+  standalone: true,
+  imports: [ReactiveFormsModule, RouterLink, MoneyPipe, TranslatePipe],
+  templateUrl: './payment-step.component.html',
+  styleUrl: '../checkout-step.scss'
+})
+export class PaymentStepComponent {
+  private readonly fb = inject(FormBuilder);
+  private readonly router = inject(Router);
+  private readonly cartStore = inject(CartStore);
+  private readonly checkoutState = inject(CheckoutStateService);
+  private readonly orderService = inject(OrderService);
+  private readonly paymentProvider = inject(PaymentProvider);
+  private readonly inventory = inject(InventoryService);
+  private readonly pricing = inject(PricingService);
+  private readonly translation = inject(TranslationService);
+  private readonly errorReporting = inject(ErrorReportingService);
+  private readonly log = inject(LoggerService).for('Checkout');
+
+  readonly showTestCards = isDevMode();
+  readonly testCards = FAKE_CARDS;
+  readonly testChallengeCode = FAKE_CHALLENGE_CODE;
+
+  // Discounts, shipping and tax included - exactly what the review step showed.
+  // Always charged (and labelled) in the base currency, whatever the display currency.
+  readonly total = this.pricing.total;
+  readonly baseCurrency = BASE_CURRENCY;
+
+  readonly paymentForm = this.fb.nonNullable.group({
+    holderName: ['', [Validators.required, Validators.minLength(2)]],
+    number: ['', [Validators.required, cardNumberValidator]],
+    expiry: ['', [Validators.required, cardExpiryValidator()]],
+    cvc: ['', [Validators.required, cvcValidator]]
+  });
+
+  readonly challengeCode = new FormControl('', { nonNullable: true, validators: Validators.required });
+
+  readonly isProcessing = signal(false);
+  readonly errorMessage = signal('');
+  readonly stockProblem = signal(false);   // Shows a "Back to cart" link
+  readonly challenge = signal<{ authorizationId: string; message: string } | null>(null);
+
+  // ========================================
+  // VALIDATION HELPERS
+  // ========================================
+  isFieldInvalid(fieldName: PaymentField): boolean {
+    const field = this.paymentForm.controls[fieldName];
+    return field.invalid && field.touched;
+  }
+
+  getErrorMessage(fieldName: PaymentField): string {
+    const field = this.paymentForm.controls[fieldName];
+
+    if (field.hasError('required')) return this.translation.translate('validation.fieldRequired');
+    if (field.hasError('minlength')) {
+      return this.translation.translate('validation.minlength', { count: field.errors?.['minlength'].requiredLength });
+    }
+    if (field.hasError('cardNumber')) return this.translation.translate('payment.invalidCardNumber');
+    if (field.hasError('expiryFormat')) return this.translation.translate('payment.expiryFormat');
+    if (field.hasError('expired')) return this.translation.translate('payment.cardExpired');
+    if (field.hasError('cvc')) return this.translation.translate('payment.invalidCvc');
+    return '';
+  }
+
+  // ========================================
+  // PAYMENT FLOW
+  // ========================================
+  onSubmit(): void {
+    if (this.isProcessing()) return;
+
+    const unrefunded = this.checkoutState.unrefundedCapture();
+    if (unrefunded) {
+      this.startProcessing();
+      this.retryWithCapture(unrefunded);
+      return;
+    }
+
+    this.paymentForm.markAllAsTouched();
+    const shippingAddress = this.checkoutState.shippingAddress();
+    if (this.paymentForm.invalid || !shippingAddress) return;
+
+    const card = this.paymentForm.getRawValue();
+    this.startProcessing();
+
+    // Stock first: never charge for units someone else just bought
+    this.inventory.ensureReservation().subscribe({
+      next: () => this.authorize(card),
+      error: error => {
+        if (error instanceof InsufficientStockError) {
+          this.stockProblem.set(true);
+          this.fail(error.message);
+        } else {
+          this.fail(this.translation.translate('stock.checkFailed'));
+        }
+      }
+    });
+  }
+
+  submitChallenge(): void {
+    const pending = this.challenge();
+    if (!pending || this.challengeCode.invalid || this.isProcessing()) return;
+
+    this.startProcessing();
+
+    this.paymentProvider.completeChallenge(pending.authorizationId, this.challengeCode.value).subscribe({
+      next: result => this.handleAuthorization(result),
+      error: () => this.fail(this.translation.translate('payment.challengeError'))
+    });
+  }
+
+  cancelChallenge(): void {
+    const pending = this.challenge();
+    if (pending) this.voidAuthorization(pending.authorizationId);
+
+    this.challenge.set(null);
+    this.challengeCode.reset();
+  }
+
+  // ========================================
+  // PRIVATE HELPERS
+  // ========================================
+  private authorize(card: { holderName: string; number: string; expiry: string; cvc: string }): void {
+    this.paymentProvider.authorize({
+      amount: toMajor(this.total()),
+      currency: this.total().currency,
+      card: { ...card, number: normalizeCardNumber(card.number) }
+    }).subscribe({
+      next: result => this.handleAuthorization(result),
+      error: () => this.fail(this.translation.translate('payment.providerUnreachable'))
+    });
+  }
+
+  private handleAuthorization(result: PaymentAuthorization): void {
+    switch (result.status) {
+      case 'declined':
+        this.challenge.set(null);
+        this.fail(result.message);
+        break;
+
+      case 'challenge_required':
+        this.isProcessing.set(false);
+        this.challengeCode.reset();
+        this.challenge.set({ authorizationId: result.authorizationId, message: result.message });
+        break;
+
+      case 'authorized':
+        this.challenge.set(null);
+        this.captureAndPlaceOrder(result.authorizationId, result.brand, result.last4);
+        break;
+    }
+  }
+
+  // Only an authorized AND captured payment turns into an order
+  private captureAndPlaceOrder(authorizationId: string, brand: CardBrand, last4: string): void {
+    if (!this.checkoutState.shippingAddress() || !this.checkoutState.deliveryOption()) {
+      this.voidAuthorization(authorizationId);
+      this.fail(this.translation.translate('payment.detailsMissing'));
+      return;
+    }
+
+    // A card challenge can outlast the reservation - renew it before taking the money
+    this.inventory.ensureReservation().pipe(
+      switchMap(() => this.paymentProvider.capture(authorizationId))
+    ).subscribe({
+      next: capture => this.placeOrder({
+        payment: { authorizationId, captureId: capture.captureId, brand, last4 },
+        amount: fromMajor(capture.amount, this.total().currency)
+      }),
+      error: error => {
+        this.voidAuthorization(authorizationId);
+        if (error instanceof InsufficientStockError) {
+          this.stockProblem.set(true);
+          this.fail(this.translation.translate('payment.notCharged', { message: error.message }));
+        } else {
+          this.fail(this.translation.translate('payment.captureFailed'));
+        }
+      }
+    });
+  }
+
+  // The cart, coupon or delivery may have changed since the money was taken
+  private retryWithCapture(capture: UnrefundedCapture): void {
+    const total = this.total();
+    if (capture.amount.amount !== total.amount || capture.amount.currency !== total.currency) {
+      this.refund(capture, 'payment.totalChanged');
+      return;
+    }
+
+    this.inventory.ensureReservation().subscribe({
+      next: () => this.placeOrder(capture),
+      error: error => {
+        if (error instanceof InsufficientStockError) this.stockProblem.set(true);
+        this.refund(capture);
+      }
+    });
+  }
+
+  private placeOrder(capture: UnrefundedCapture): void {
+    const shippingAddress = this.checkoutState.shippingAddress();
+    const deliveryOption = this.checkoutState.deliveryOption();
+    if (!shippingAddress || !deliveryOption) {
+      this.refund(capture);
+      return;
+    }
+
+    this.orderService.placeOrder({
+      lines: this.cartStore.lines(),
+      shippingAddress,
+      deliveryOption,
+      pricing: this.pricing.breakdown(),
+      payment: capture.payment
+    }).subscribe({
+      next: order => {
+        this.log.info('✅ Order placed:', order.id);
+        this.commitStock(order.id);
+        this.cartStore.clear();
+        this.checkoutState.reset();
+        this.pricing.removeCoupon();
+        this.router.navigate(['/checkout/confirmation', order.id]);
+      },
+      error: () => this.refund(capture)
+    });
+  }
+
+  // The order failed after the money was taken - give it back
+  private refund(capture: UnrefundedCapture, reason: TranslationKey = 'payment.refunded'): void {
+    this.paymentProvider.refund(capture.payment.captureId).subscribe({
+      next: () => {
+        this.checkoutState.unrefundedCapture.set(null);
+        this.fail(this.translation.translate(reason));
+      },
+      error: error => {
+        this.log.error('❌ Refund failed - keeping the capture for the retry:', error);
+        // Staff must see it even if the customer never comes back
+        const orphaned = new Error(`Capture ${capture.payment.captureId} has no order and was not refunded`, { cause: error });
+        this.errorReporting.report(orphaned, classifyError(orphaned));
+        this.checkoutState.unrefundedCapture.set(capture);
+        this.fail(this.translation.translate('payment.refundFailed'));
+      }
+    });
+  }
+
+  // The order is placed and paid - a failed commit is for staff to fix, not a customer error
+  private commitStock(orderId: string): void {
+    this.inventory.commit().subscribe({
+      error: error => this.log.error(`❌ Stock not committed for order ${orderId}:`, error)
+    });
+  }
+
+  // Fire-and-forget: an authorization that is never captured also expires on its own
+  private voidAuthorization(authorizationId: string): void {
+    this.paymentProvider.voidAuthorization(authorizationId).subscribe({
+      error: error => this.log.warn('⚠️ Could not void authorization:', error)
+    });
+  }
+
+  private startProcessing(): void {
+    this.isProcessing.set(true);
+    this.errorMessage.set('');
+    this.stockProblem.set(false);
+  }
+
+  private fail(message: string): void {
+    this.isProcessing.set(false);
+    this.errorMessage.set(message);
+  }
+}
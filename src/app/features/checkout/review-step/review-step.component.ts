@@ -0,0 +1,42 @@
+import { Component, inject } from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
+import { DELIVERY_OPTION_LABELS } from '../models/checkout.model';
+import { CheckoutStateService } from '../../../core/services/checkout-state.service';
+import { PricingService } from '../../../core/services/pricing.service';
+import { CartStore } from '../../../core/store/cart/cart.store';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { LocalizedPercentPipe } from '../../../shared/pipes/localized-number.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Checkout Step 3 - Review
+ * 
+ * Angular Concepts:
+ * - Itemized totals from PricingService (same numbers as the cart)
+ * - Nothing is charged here - the order is placed on the payment step
+ */
+@Component({
+  selector: 'app-review-step',
+  standalone: true,
+  imports: [RouterLink, LocalizedPercentPipe, MoneyPipe, TranslatePipe],
+  templateUrl: './review-step.component.html',
+  styleUrl: '../checkout-step.scss'
+})
+export class ReviewStepComponent {
+  private readonly router = inject(Router);
+  private readonly cartStore = inject(CartStore);
+  private readonly checkoutState = inject(CheckoutStateService);
+  private readonly pricing = inject(PricingService);
+
+  readonly lines = this.cartStore.lines;
+  readonly address = this.checkoutState.shippingAddress;
+  readonly deliveryOption = this.checkoutState.deliveryOption;
+  readonly deliveryLabels = DELIVERY_OPTION_LABELS;
+
+  readonly breakdown = this.pricing.breakdown;
+
+  continueToPayment(): void {
+    this.checkoutState.reviewed.set(true);
+    this.router.navigate(['/checkout', 'payment']);
+  }
+}
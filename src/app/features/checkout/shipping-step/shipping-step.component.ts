@@ -0,0 +1,86 @@
+import { Component, inject } from '@angular/core';
+import { ReactiveFormsModule, FormBuilder, Validators } from '@angular/forms';
+import { Router, RouterLink } from '@angular/router';
+import { SHIPPING_COUNTRIES, ShippingAddress } from '../models/checkout.model';
+import { CheckoutStateService } from '../../../core/services/checkout-state.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Checkout Step 1 - Shipping Address
+ * 
+ * Angular Concepts:
+ * - Reactive form (same approach as LoginComponent)
+ * - Form pre-filled from CheckoutStateService when coming back
+ */
+@Component({
+  selector: 'app-shipping-step',
+  standalone: true,
+  imports: [ReactiveFormsModule, RouterLink, TranslatePipe],
+  templateUrl: './shipping-step.component.html',
+  styleUrl: '../checkout-step.scss'
+})
+export class ShippingStepComponent {
+  private readonly fb = inject(FormBuilder);
+  private readonly router = inject(Router);
+  private readonly checkoutState = inject(CheckoutStateService);
+  private readonly translation = inject(TranslationService);
+
+  readonly countries = SHIPPING_COUNTRIES;
+
+  readonly shippingForm = this.fb.nonNullable.group({
+    fullName: ['', [Validators.required, Validators.minLength(2)]],
+    addressLine1: ['', [Validators.required, Validators.minLength(3)]],
+    addressLine2: [''],
+    city: ['', [Validators.required]],
+    postalCode: ['', [Validators.required, Validators.pattern(/^[A-Za-z0-9][A-Za-z0-9 -]{2,9}$/)]],
+    country: ['', [Validators.required]],
+    phone: ['', [Validators.pattern(/^\+?[0-9 ()-]{7,20}$/)]]
+  });
+
+  constructor() {
+    // Restore previous answers (user navigated back)
+    const saved = this.checkoutState.shippingAddress();
+    if (saved) {
+      this.shippingForm.patchValue(saved);
+    }
+  }
+
+  // ========================================
+  // VALIDATION HELPERS
+  // ========================================
+  isFieldInvalid(fieldName: keyof ShippingAddress): boolean {
+    const field = this.shippingForm.controls[fieldName];
+    return field.invalid && field.touched;
+  }
+
+  getErrorMessage(fieldName: keyof ShippingAddress): string {
+    const field = this.shippingForm.controls[fieldName];
+
+    if (field.hasError('required')) return this.translation.translate('validation.fieldRequired');
+    if (field.hasError('minlength')) {
+      return this.translation.translate('validation.minlength', { count: field.errors?.['minlength'].requiredLength });
+    }
+    if (field.hasError('pattern')) {
+      return this.translation.translate(fieldName === 'postalCode' ? 'shipping.invalidPostalCode' : 'shipping.invalidPhone');
+    }
+    return '';
+  }
+
+  // ========================================
+  // FORM SUBMISSION
+  // ========================================
+  onSubmit(): void {
+    this.shippingForm.markAllAsTouched();
+    if (this.shippingForm.invalid) return;
+
+    const { addressLine2, phone, ...required } = this.shippingForm.getRawValue();
+    this.checkoutState.shippingAddress.set({
+      ...required,
+      ...(addressLine2.trim() ? { addressLine2 } : {}),
+      ...(phone.trim() ? { phone } : {})
+    });
+
+    this.router.navigate(['/checkout', 'delivery']);
+  }
+}
@@ -0,0 +1,19 @@
+import { Component } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { TranslatePipe } from '../../shared/pipes/translate.pipe';
+
+/**
+ * Forbidden Component - 403 Page
+ * 
+ * Angular Concepts:
+ * - Redirect target for roleGuard / roleMatchGuard
+ * - Simple standalone component
+ */
+@Component({
+  selector: 'app-forbidden',
+  standalone: true,
+  imports: [RouterLink, TranslatePipe],
+  templateUrl: './forbidden.component.html',
+  styleUrl: './forbidden.component.scss'
+})
+export class ForbiddenComponent {}
@@ -0,0 +1,64 @@
+import { TranslationKey } from '../../../core/i18n/en';
+import { Product } from '../../products/models/product.model';
+import { DeliveryOption, ShippingAddress } from '../../checkout/models/checkout.model';
+import { OrderPayment } from '../../checkout/models/payment.model';
+import { PriceAdjustment } from '../../cart/models/pricing.model';
+
+/**
+ * ===========================================
+ * ORDER TYPES - TypeScript Models
+ * ===========================================
+ */
+
+// Lifecycle of an order
+export type OrderStatus = 'placed' | 'paid' | 'shipped' | 'delivered' | 'cancelled';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, TranslationKey> = {
+  placed: 'orderStatus.placed',
+  paid: 'orderStatus.paid',
+  shipped: 'orderStatus.shipped',
+  delivered: 'orderStatus.delivered',
+  cancelled: 'orderStatus.cancelled'
+};
+
+export interface OrderLine {
+  readonly product: Product;    // Snapshot at purchase time
+  readonly quantity: number;
+  readonly unitPrice: number;
+  readonly lineTotal: number;
+}
+
+// A PriceAdjustment as stored with the order - a plain decimal like the other totals
+export interface OrderDiscount extends Omit<PriceAdjustment, 'amount'> {
+  readonly amount: number;
+}
+
+/**
+ * Amounts are decimals in BASE_CURRENCY (the charged currency),
+ * frozen at checkout - wrap with fromMajor() before doing arithmetic.
+ */
+export interface Order {
+  readonly id: string;
+  readonly userId: string;
+  readonly createdAt: string;   // ISO date string
+  status: OrderStatus;
+  lines: OrderLine[];
+  shippingAddress: ShippingAddress;
+  deliveryOption: DeliveryOption;
+  subtotal: number;
+  discounts: OrderDiscount[];    // Promotions + coupon, as shown at checkout
+  discountTotal: number;
+  deliveryCost: number;
+  tax: number;
+  total: number;                 // subtotal − discountTotal + deliveryCost + tax
+  payment?: OrderPayment;       // Present once the payment is captured
+}
+
+// What the client sends - the backend assigns id, date and status
+export type NewOrder = Omit<Order, 'id' | 'createdAt' | 'status'>;
+
+// Outcome of "Reorder" - unavailable products are skipped, not failed
+export interface ReorderResult {
+  addedCount: number;
+  skipped: string[];    // Product names no longer available
+}
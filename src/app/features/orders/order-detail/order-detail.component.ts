@@ -0,0 +1,70 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { map } from 'rxjs/operators';
+import { Order } from '../models/order.model';
+import { DELIVERY_OPTION_LABELS } from '../../checkout/models/checkout.model';
+import { OrderService } from '../../../core/services/order.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { BASE_CURRENCY } from '../../../core/utils/money';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { OrderStatusBadgeComponent } from '../order-status-badge/order-status-badge.component';
+import { LocalizedDatePipe } from '../../../shared/pipes/localized-date.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Order Detail Component
+ * 
+ * Route: /account/orders/:id
+ * orderResolver guarantees the order exists AND belongs to the user.
+ */
+@Component({
+  selector: 'app-order-detail',
+  standalone: true,
+  imports: [RouterLink, LocalizedDatePipe, OrderStatusBadgeComponent, MoneyPipe, TranslatePipe],
+  templateUrl: './order-detail.component.html',
+  styleUrl: './order-detail.component.scss'
+})
+export class OrderDetailComponent {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly orderService = inject(OrderService);
+  private readonly translation = inject(TranslationService);
+
+  // Shown in the charged currency, not today's display currency
+  readonly baseCurrency = BASE_CURRENCY;
+  readonly deliveryLabels = DELIVERY_OPTION_LABELS;
+
+  readonly order = toSignal(
+    this.route.data.pipe(map(data => data['order'] as Order)),
+    { requireSync: true }
+  );
+
+  readonly address = computed(() => this.order().shippingAddress);
+
+  readonly isReordering = signal(false);
+  readonly reorderMessage = signal('');
+
+  reorder(): void {
+    this.isReordering.set(true);
+    this.reorderMessage.set('');
+
+    this.orderService.reorder(this.order()).subscribe({
+      next: result => {
+        this.isReordering.set(false);
+        if (result.skipped.length === 0) {
+          this.router.navigateByUrl('/cart');
+          return;
+        }
+        this.reorderMessage.set(this.translation.translate('orders.reorderSkipped', {
+          count: result.addedCount,
+          skipped: result.skipped.join(', ')
+        }));
+      },
+      error: () => {
+        this.isReordering.set(false);
+        this.reorderMessage.set(this.translation.translate('orders.reorderFailed'));
+      }
+    });
+  }
+}
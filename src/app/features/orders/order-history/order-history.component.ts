@@ -0,0 +1,69 @@
+import { Component, inject, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { Router, RouterLink } from '@angular/router';
+import { Order } from '../models/order.model';
+import { OrderService } from '../../../core/services/order.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { BASE_CURRENCY } from '../../../core/utils/money';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { OrderStatusBadgeComponent } from '../order-status-badge/order-status-badge.component';
+import { LocalizedDatePipe } from '../../../shared/pipes/localized-date.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Order History Component
+ * 
+ * Route: /account/orders
+ * 
+ * Angular Concepts:
+ * - toSignal() without initialValue → undefined while loading
+ * - DatePipe for createdAt
+ */
+@Component({
+  selector: 'app-order-history',
+  standalone: true,
+  imports: [RouterLink, LocalizedDatePipe, OrderStatusBadgeComponent, MoneyPipe, TranslatePipe],
+  templateUrl: './order-history.component.html',
+  styleUrl: './order-history.component.scss'
+})
+export class OrderHistoryComponent {
+  private readonly router = inject(Router);
+  private readonly orderService = inject(OrderService);
+  private readonly translation = inject(TranslationService);
+
+  // Shown in the charged currency, not today's display currency
+  readonly baseCurrency = BASE_CURRENCY;
+
+  // undefined = still loading
+  readonly orders = toSignal(this.orderService.getMyOrders());
+
+  readonly reorderingId = signal<string | null>(null);
+  readonly reorderMessage = signal('');
+
+  itemCount(order: Order): number {
+    return order.lines.reduce((sum, line) => sum + line.quantity, 0);
+  }
+
+  reorder(order: Order): void {
+    this.reorderingId.set(order.id);
+    this.reorderMessage.set('');
+
+    this.orderService.reorder(order).subscribe({
+      next: result => {
+        this.reorderingId.set(null);
+        if (result.skipped.length === 0) {
+          this.router.navigateByUrl('/cart');
+          return;
+        }
+        this.reorderMessage.set(this.translation.translate('orders.reorderSkipped', {
+          count: result.addedCount,
+          skipped: result.skipped.join(', ')
+        }));
+      },
+      error: () => {
+        this.reorderingId.set(null);
+        this.reorderMessage.set(this.translation.translate('orders.reorderFailed'));
+      }
+    });
+  }
+}
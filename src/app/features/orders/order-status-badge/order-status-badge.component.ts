@@ -0,0 +1,20 @@
+import { Component, computed, input } from '@angular/core';
+import { ORDER_STATUS_LABELS, OrderStatus } from '../models/order.model';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Order Status Badge - colored pill for an OrderStatus
+ * Used by both the order history list and the order detail page.
+ */
+@Component({
+  selector: 'app-order-status-badge',
+  standalone: true,
+  imports: [TranslatePipe],
+  template: `<span [class]="'badge status-' + status()">{{ label() | t }}</span>`,
+  styleUrl: './order-status-badge.component.scss'
+})
+export class OrderStatusBadgeComponent {
+  readonly status = input.required<OrderStatus>();
+
+  readonly label = computed(() => ORDER_STATUS_LABELS[this.status()]);
+}
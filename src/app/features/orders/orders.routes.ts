@@ -0,0 +1,22 @@
+import { Routes } from '@angular/router';
+import { orderResolver } from '../../core/resolvers/order.resolver';
+
+/**
+ * Account Order Routes (lazy loaded via loadChildren)
+ *
+ *   /account/orders       → order history
+ *   /account/orders/:id   → order detail (missing / not yours → 404)
+ */
+export const ordersRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./order-history/order-history.component').then(m => m.OrderHistoryComponent),
+    title: 'title.orders'
+  },
+  {
+    path: ':id',
+    loadComponent: () => import('./order-detail/order-detail.component').then(m => m.OrderDetailComponent),
+    title: 'title.orderDetail',
+    resolve: { order: orderResolver }
+  }
+];
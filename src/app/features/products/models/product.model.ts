@@ -10,6 +10,8 @@
  * 4. Optional properties - ?
  */
 
+import { TranslationKey } from '../../../core/i18n/en';
+
 // Product interface with strict typing
 export interface Product {
   readonly id: number;
@@ -17,11 +19,15 @@ export interface Product {
   price: number;
   description?: string;  // Optional
   image: string;
+  images?: string[];     // Optional extra gallery images
   category: ProductCategory;
-  inStock: boolean;
+  stock: number;        // Units on hand - 0 means sold out
   rating: number;
 }
 
+// "Only N left" is shown at or below this stock level
+export const LOW_STOCK_THRESHOLD = 5;
+
 // Category as union type (strict values)
 export type ProductCategory = 'electronics' | 'clothing' | 'books' | 'home';
 
@@ -31,13 +37,62 @@ export interface AddToCartEvent {
   quantity: number;
 }
 
+// Emitted by ReviewFormComponent - becomes a Review via ReviewService
 export interface ProductRatingEvent {
   productId: number;
-  rating: number;
+  rating: number;   // 1-5 stars
+  text: string;
 }
 
 // Type for creating new products (without readonly id)
 export type CreateProduct = Omit<Product, 'id'>;
 
-// Type for updating products (all fields optional except id)
-export type UpdateProduct = Partial<Product> & { id: number };
+// Type for updating products (all fields optional except id).
+// description: null CLEARS it - undefined would just be dropped from the PATCH body
+export type UpdateProduct = Partial<Omit<Product, 'description'>> & { id: number; description?: string | null };
+
+// Emitted by ProductService after an admin edit, so views can refresh
+export interface CatalogChange {
+  type: 'created' | 'updated' | 'deleted';
+  productId: number;
+}
+
+// All categories (runtime list for selects and validation)
+export const PRODUCT_CATEGORIES: readonly ProductCategory[] = ['electronics', 'clothing', 'books', 'home'];
+
+// Display names - the values above stay the stored / URL form
+export const CATEGORY_LABELS: Record<ProductCategory, TranslationKey> = {
+  electronics: 'category.electronics',
+  clothing: 'category.clothing',
+  books: 'category.books',
+  home: 'category.home'
+};
+
+// ===========================================
+// CATALOG QUERY - Server-side paging/sort/filter
+// ===========================================
+
+export type ProductSortField = 'price' | 'rating' | 'name';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ProductQuery {
+  page: number;       // 1-based
+  pageSize: number;
+  sort?: ProductSortField;
+  direction?: SortDirection;
+  category?: ProductCategory;
+  minPrice?: number;
+  maxPrice?: number;
+  inStockOnly?: boolean;
+  minRating?: number;
+}
+
+// Page envelope returned by the API
+export interface ProductPage {
+  items: Product[];
+  total: number;       // Matching products across ALL pages
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
@@ -6,10 +6,19 @@ import {
   computed,
   effect,
   numberAttribute, // Built-in transform for string -> number
-  ChangeDetectionStrategy
+  ChangeDetectionStrategy,
+  inject
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Product, AddToCartEvent } from '../models/product.model';
+import { LoggerService } from '../../../core/services/logger.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { WishlistService } from '../../../core/services/wishlist.service';
+import { fromMajor, multiply } from '../../../core/utils/money';
+import { isInStock, isLowStock, purchaseLimit, stockLabel } from '../../../core/utils/stock';
+import { FavoriteToggleEvent } from '../../wishlist/models/wishlist.model';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
 
 /**
  * ===========================================
@@ -45,7 +54,7 @@ import { Product, AddToCartEvent } from '../models/product.model';
 @Component({
   selector: 'app-product-card',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, MoneyPipe, TranslatePipe],
   templateUrl: './product-card.component.html',
   styleUrl: './product-card.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush  // Works great with signals!
@@ -79,6 +88,7 @@ export class ProductCardComponent {
    * Input with transform - converts string/number to number
    * numberAttribute is a built-in transform from @angular/core
    * Usage: <app-product-card maxQuantity="20" /> (string becomes number)
+   * The selector never goes above the product's stock (quantityLimit)
    */
   readonly maxQuantity = input<number, string | number>(10, { 
     transform: numberAttribute 
@@ -98,17 +108,25 @@ export class ProductCardComponent {
   readonly viewDetails = output<number>();
   
   // Output with alias
-  readonly onFavoriteChange = output<{
-    productId: number;
-    isFavorite: boolean;
-  }>({ alias: 'favoriteToggled' });
+  readonly onFavoriteChange = output<FavoriteToggleEvent>({ alias: 'favoriteToggled' });
 
   // ========================================
   // COMPONENT STATE (Signals)
   // ========================================
   readonly quantity = signal(0);
-  readonly isFavoriteState = signal(false);  // Renamed to avoid confusion with input
   readonly effectTriggerCount = signal(0);   // Demo: track how many times effect runs
+  
+  // Debug-level: silence with namespaces '*,-ProductCard'
+  private readonly log = inject(LoggerService).for('ProductCard');
+  private readonly translation = inject(TranslationService);
+  
+  /**
+   * Favorite state comes from WishlistService, NOT a local signal,
+   * so the heart survives re-renders and matches every other card.
+   * The parent decides what a toggle means via (favoriteToggled).
+   */
+  private readonly wishlist = inject(WishlistService);
+  readonly isFavorite = computed(() => this.wishlist.has(this.product().id));
 
   // ========================================
   // COMPUTED VALUES - Now properly reactive!
@@ -117,16 +135,26 @@ export class ProductCardComponent {
    * Because product is now a Signal (from input()), 
    * computed() will automatically track it!
    * When parent updates product, this recalculates.
+   * Money (integer cents) - 3 × $79.99 is exactly $239.97.
    */
   readonly totalPrice = computed(() => {
     const prod = this.product();  // Reading signal creates dependency
-    return prod.price * this.quantity();
+    return multiply(fromMajor(prod.price), this.quantity());
   });
   
+  // Stock caps the parent's maxQuantity: 2 left → max 2
+  readonly quantityLimit = computed(() => 
+    purchaseLimit(this.product(), this.maxQuantity())  // maxQuantity is also a signal now!
+  );
+  
   readonly canAddMore = computed(() => 
-    this.quantity() < this.maxQuantity()  // maxQuantity is also a signal now!
+    this.quantity() < this.quantityLimit()
   );
   
+  readonly inStock = computed(() => isInStock(this.product()));
+  readonly lowStock = computed(() => isLowStock(this.product()));
+  readonly stockLabel = computed(() => stockLabel(this.product(), this.translation.translator));
+  
   readonly canRemove = computed(() => 
     this.quantity() > 0
   );
@@ -153,7 +181,7 @@ export class ProductCardComponent {
       
       this.effectTriggerCount.update(n => n + 1);
       
-      console.log(`🔄 [ProductCard ${product.id}] effect() triggered`, {
+      this.log.debug(`🔄 [${product.id}] effect() triggered`, {
         effectCount: this.effectTriggerCount(),
         productName: product.name,
         productPrice: product.price,
@@ -165,12 +193,12 @@ export class ProductCardComponent {
     // You can have multiple effects for different concerns
     effect(() => {
       const product = this.product();
-      console.log(`  📦 Product input changed to: ${product.name}`);
+      this.log.debug(`📦 Product input changed to: ${product.name}`);
     });
     
     effect(() => {
       if (this.isFeatured()) {
-        console.log(`  ⭐ This product is now featured!`);
+        this.log.debug('⭐ This product is now featured!');
       }
     });
   }
@@ -186,7 +214,7 @@ export class ProductCardComponent {
       quantity: this.quantity()
     });
     
-    console.log(`🛒 [ProductCard] Emitted addToCart event`);
+    this.log.debug('🛒 Emitted addToCart event');
   }
   
   onViewDetails(): void {
@@ -194,11 +222,10 @@ export class ProductCardComponent {
   }
   
   toggleFavorite(): void {
-    this.isFavoriteState.update(v => !v);
-    
+    // Ask for the NEW state - WishlistService updates isFavorite()
     this.onFavoriteChange.emit({
       productId: this.product().id,  // Call signal!
-      isFavorite: this.isFavoriteState()
+      isFavorite: !this.isFavorite()
     });
   }
   
@@ -0,0 +1,142 @@
+import { Component, computed, effect, inject, linkedSignal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { Title } from '@angular/platform-browser';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { merge, of } from 'rxjs';
+import { catchError, filter, map, switchMap } from 'rxjs/operators';
+import { CATEGORY_LABELS, Product } from '../models/product.model';
+import { CartStore } from '../../../core/store/cart/cart.store';
+import { ReviewService } from '../../../core/services/review.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { fromMajor, multiply } from '../../../core/utils/money';
+import { isInStock, isLowStock, purchaseLimit, stockLabel } from '../../../core/utils/stock';
+import { ProductReviewsComponent } from '../../reviews/product-reviews/product-reviews.component';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * ===========================================
+ * PRODUCT DETAIL - Route Params + Resolver
+ * ===========================================
+ * 
+ * Route: /products/:id
+ * 
+ * Data Flow:
+ *   /products/4
+ *        │
+ *        ▼
+ *   productResolver ── missing? ──► /not-found
+ *        │
+ *        ▼ found
+ *   route.data['product'] ──toSignal()──► product()
+ * 
+ * Angular Concepts:
+ * - Resolver data as a signal (reacts to /products/1 → /products/2)
+ * - linkedSignal() - local state that RESETS when the product changes
+ * - Title service - dynamic page title from the product name
+ * - Reviews re-fetched on product change AND on reviewsChanged$
+ */
+@Component({
+  selector: 'app-product-detail',
+  standalone: true,
+  imports: [RouterLink, ProductReviewsComponent, MoneyPipe, TranslatePipe],
+  templateUrl: './product-detail.component.html',
+  styleUrl: './product-detail.component.scss'
+})
+export class ProductDetailComponent {
+  private readonly route = inject(ActivatedRoute);
+  private readonly title = inject(Title);
+  private readonly translation = inject(TranslationService);
+  private readonly cartStore = inject(CartStore);
+  private readonly reviewService = inject(ReviewService);
+
+  // Resolver guarantees a product (otherwise we were redirected to 404)
+  readonly product = toSignal(
+    this.route.data.pipe(map(data => data['product'] as Product)),
+    { requireSync: true }
+  );
+
+  // ========================================
+  // REVIEWS + RATING
+  // ========================================
+  private readonly productId$ = this.route.data.pipe(map(data => (data['product'] as Product).id));
+
+  // undefined = still loading, null = the last fetch failed (the stream stays alive)
+  readonly productReviews = toSignal(
+    merge(
+      this.productId$,
+      this.reviewService.reviewsChanged$.pipe(
+        map(change => change.productId),
+        filter(productId => productId === this.product().id)
+      )
+    ).pipe(switchMap(productId => this.reviewService.getProductReviews(productId).pipe(
+      catchError(() => of(null))
+    )))
+  );
+
+  // Average from reviews; the catalog's static rating until they load
+  readonly displayRating = computed(() => {
+    const summary = this.productReviews()?.summary;
+    return summary && summary.count > 0 ? summary.average : this.product().rating;
+  });
+
+  readonly reviewCount = computed(() => this.productReviews()?.summary.count ?? 0);
+
+  // ========================================
+  // IMAGE GALLERY
+  // ========================================
+  readonly images = computed(() => {
+    const product = this.product();
+    return [product.image, ...(product.images ?? [])];
+  });
+
+  // linkedSignal: writable, but resets to the first image for a new product
+  readonly selectedImage = linkedSignal(() => this.images()[0]);
+
+  // ========================================
+  // QUANTITY + CART
+  // ========================================
+  // Never more than 10 per order, and never more than the stock
+  readonly maxQuantity = computed(() => purchaseLimit(this.product(), 10));
+
+  readonly inStock = computed(() => isInStock(this.product()));
+  readonly lowStock = computed(() => isLowStock(this.product()));
+  readonly stockLabel = computed(() => stockLabel(this.product(), this.translation.translator));
+
+  readonly quantity = linkedSignal<number>(() => this.inStock() ? 1 : 0);
+
+  readonly totalPrice = computed(() => multiply(fromMajor(this.product().price), this.quantity()));
+
+  readonly stars = [1, 2, 3, 4, 5];
+  readonly categoryLabels = CATEGORY_LABELS;
+
+  // Confirmation message after adding to cart - cleared when the product changes
+  readonly addedMessage = linkedSignal({ source: this.product, computation: () => '' });
+
+  constructor() {
+    // Dynamic page title - replaces the static route title (re-runs on language change)
+    effect(() => {
+      this.title.setTitle(this.translation.translate('title.product', { name: this.product().name }));
+    });
+  }
+
+  selectImage(image: string): void {
+    this.selectedImage.set(image);
+  }
+
+  incrementQuantity(): void {
+    this.quantity.update(q => Math.min(this.maxQuantity(), q + 1));
+  }
+
+  decrementQuantity(): void {
+    this.quantity.update(q => Math.max(1, q - 1));
+  }
+
+  addToCart(): void {
+    const product = this.product();
+    if (!this.inStock() || this.quantity() < 1) return;
+
+    this.cartStore.add(product, this.quantity());
+    this.addedMessage.set(this.translation.translate('products.added', { count: this.quantity(), name: product.name }));
+  }
+}
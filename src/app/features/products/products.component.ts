@@ -1,9 +1,33 @@
 import { Component, signal, computed, inject } from '@angular/core';
 import { toSignal } from '@angular/core/rxjs-interop';
-import { ActivatedRoute } from '@angular/router';
-import { map } from 'rxjs/operators';
+import { ActivatedRoute, Router } from '@angular/router';
+import { EMPTY, merge } from 'rxjs';
+import { catchError, map, switchMap, tap } from 'rxjs/operators';
 import { ProductCardComponent } from './product-card/product-card.component';
-import { Product, AddToCartEvent } from './models/product.model';
+import {
+  AddToCartEvent,
+  CATEGORY_LABELS,
+  PRODUCT_CATEGORIES,
+  ProductPage,
+  ProductQuery,
+  ProductSortField,
+  SortDirection
+} from './models/product.model';
+import { LoggerService } from '../../core/services/logger.service';
+import { WishlistService } from '../../core/services/wishlist.service';
+import { PricingService } from '../../core/services/pricing.service';
+import { TranslationService } from '../../core/services/translation.service';
+import { FavoriteToggleEvent } from '../wishlist/models/wishlist.model';
+import { ProductService } from '../../core/services/product.service';
+import { CartStore } from '../../core/store/cart/cart.store';
+import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { TranslatePipe } from '../../shared/pipes/translate.pipe';
+import {
+  PAGE_SIZE_OPTIONS,
+  parseProductQuery,
+  toProductQueryParams
+} from '../../core/utils/product-query-params';
+import { pageWindow } from '../../core/utils/pagination';
 
 /**
  * ===========================================
@@ -16,6 +40,7 @@ import { Product, AddToCartEvent } from './models/product.model';
  * 3. toSignal() - Convert route data Observable to Signal
  * 4. Passing data DOWN to child via @Input()
  * 5. Receiving events FROM child via @Output()
+ * 6. URL-driven state - page/sort/filters live in query params
  * 
  * Data Flow (WITH RESOLVER):
  * 
@@ -27,7 +52,7 @@ import { Product, AddToCartEvent } from './models/product.model';
  *         ▼ Allowed
  *   ProductsResolver
  *         │
- *         │ getProducts() → waits for data
+ *         │ queryProducts(?page&sort&filters) → waits for data
  *         ▼
  *   ┌─────────────────────────────────────────┐
  *   │  ProductsComponent (Parent)             │
@@ -36,6 +61,8 @@ import { Product, AddToCartEvent } from './models/product.model';
  *   │                                         │
  *   │  route.data['products'] ──@Input()──►   │
  *   │  handleAddToCart() ◄──@Output()───      │
+ *   │        │                                │
+ *   │        └──► CartStore (shared cart)     │
  *   │                                         │
  *   │     ┌─────────────────────────────┐     │
  *   │     │  ProductCardComponent       │     │
@@ -46,7 +73,7 @@ import { Product, AddToCartEvent } from './models/product.model';
 @Component({
   selector: 'app-products',
   standalone: true,
-  imports: [ProductCardComponent],
+  imports: [ProductCardComponent, MoneyPipe, TranslatePipe],
   templateUrl: './products.component.html',
   styleUrl: './products.component.scss'
 })
@@ -66,11 +93,35 @@ export class ProductsComponent {
    * - route.snapshot   → One-time snapshot (not reactive)
    */
   private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  
+  /**
+   * CartStore - Shared cart state (NgRx facade)
+   * Same instance the header badge and cart page read from
+   */
+  private readonly cartStore = inject(CartStore);
+  
+  /**
+   * ProductService - only used to re-fetch the current page
+   * when an admin changes the catalog
+   */
+  private readonly productService = inject(ProductService);
+  
+  private readonly log = inject(LoggerService).for('ProductsPage');
+  
+  private readonly wishlist = inject(WishlistService);
+  private readonly pricing = inject(PricingService);
+  private readonly translation = inject(TranslationService);
   
   // ========================================
   // RESOLVER DATA (No manual fetching!)
   // ========================================
   
+  // No loading state needed - resolver guarantees data is ready!
+  // (declared before productPage, which writes errorMessage)
+  readonly isLoading = signal(false);
+  readonly errorMessage = signal('');
+  
   /**
    * Products from Resolver
    * 
@@ -82,19 +133,47 @@ export class ProductsComponent {
    * ✅ No error handling here - resolver handled it
    * ✅ Component stays clean and simple
    */
-  readonly products = toSignal(
-    this.route.data.pipe(
-      map(data => data['products'] as Product[])
-    ),
-    { initialValue: [] }
+  readonly productPage = toSignal(
+    merge(
+      this.route.data.pipe(
+        map(data => data['products'] as ProductPage)
+      ),
+      // Catalog edited (admin) → re-run the current query in place.
+      // Errors are caught INSIDE switchMap: the stream must outlive one failed fetch
+      this.productService.catalogChanged$.pipe(
+        switchMap(() => this.productService.queryProducts(this.query()).pipe(
+          catchError(error => {
+            this.log.error('❌ Could not refresh products:', error);
+            this.errorMessage.set(this.translation.translate('products.reloadFailed'));
+            return EMPTY;
+          })
+        ))
+      )
+    ).pipe(tap(() => this.errorMessage.set('')))
   );
   
-  // No loading state needed - resolver guarantees data is ready!
-  readonly isLoading = signal(false);
-  readonly errorMessage = signal('');
+  readonly products = computed(() => this.productPage()?.items ?? []);
+  
+  /**
+   * Current query, parsed from the URL
+   * Changing filters = navigating → resolver re-runs → productPage updates
+   */
+  readonly query = toSignal(
+    this.route.queryParamMap.pipe(map(parseProductQuery)),
+    { initialValue: parseProductQuery(this.route.snapshot.queryParamMap) }
+  );
+  
+  // First, last and the pages around the current one (see pageWindow)
+  readonly pageLinks = computed(() => {
+    const page = this.productPage();
+    return pageWindow(page?.page ?? 1, page?.totalPages ?? 1);
+  });
   
-  // Cart items (receives data from child via @Output)
-  readonly cartItems = signal<AddToCartEvent[]>([]);
+  // Options for the filter/sort controls
+  readonly categories = PRODUCT_CATEGORIES;
+  readonly categoryLabels = CATEGORY_LABELS;
+  readonly pageSizeOptions = PAGE_SIZE_OPTIONS;
+  readonly ratingOptions = [1, 2, 3, 4, 5];
   
   // Featured product ID
   readonly featuredProductId = signal<number>(2);
@@ -107,13 +186,52 @@ export class ProductsComponent {
   // COMPUTED VALUES
   // ========================================
   
-  readonly totalCartItems = computed(() => 
-    this.cartItems().reduce((sum, item) => sum + item.quantity, 0)
-  );
+  // Read from the shared store (duplicates already merged per product)
+  readonly totalCartItems = this.cartStore.itemCount;
   
-  readonly totalCartValue = computed(() =>
-    this.cartItems().reduce((sum, item) => sum + (item.product.price * item.quantity), 0)
-  );
+  // Merchandise only - discounts, shipping and tax are itemized in the cart and checkout
+  readonly totalCartValue = computed(() => this.pricing.breakdown().subtotal);
+
+  // ========================================
+  // QUERY CONTROLS (update the URL, not local state)
+  // ========================================
+  
+  // Any filter/sort change starts again at page 1
+  updateQuery(changes: Partial<ProductQuery>): void {
+    this.navigateTo({ ...this.query(), page: 1, ...changes });
+  }
+  
+  goToPage(page: number): void {
+    this.navigateTo({ ...this.query(), page });
+  }
+  
+  // '' ("All") or an unknown value → no category filter
+  changeCategory(value: string): void {
+    this.updateQuery({ category: PRODUCT_CATEGORIES.find(category => category === value) });
+  }
+  
+  // Select value "price:desc" → { sort: 'price', direction: 'desc' }
+  changeSort(value: string): void {
+    const [sort, direction] = value.split(':') as [ProductSortField | '', SortDirection | undefined];
+    this.updateQuery({ sort: sort || undefined, direction: sort ? direction : undefined });
+  }
+  
+  changeNumberFilter(key: 'minPrice' | 'maxPrice' | 'minRating', value: string): void {
+    const parsed = value === '' ? undefined : Number(value);
+    this.updateQuery({ [key]: parsed !== undefined && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined });
+  }
+  
+  clearFilters(): void {
+    this.navigateTo({ page: 1, pageSize: this.query().pageSize });
+  }
+  
+  private navigateTo(query: ProductQuery): void {
+    // Real navigation → new history entry → back button restores previous view
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: toProductQueryParams(query)
+    });
+  }
 
   // ========================================
   // EVENT HANDLERS (receive @Output events)
@@ -121,22 +239,25 @@ export class ProductsComponent {
   
   // Handle addToCart event from child
   handleAddToCart(event: AddToCartEvent): void {
-    console.log('📦 [Parent] Received addToCart from child:', event);
+    this.log.debug('📦 Received addToCart from child:', event);
     
-    // Add to cart using immutable update
-    this.cartItems.update(items => [...items, event]);
+    // Dispatch to the shared cart - the reducer merges duplicate product lines
+    this.cartStore.add(event.product, event.quantity);
   }
   
   // Handle viewDetails event from child
   handleViewDetails(productId: number): void {
-    console.log('👁️ [Parent] Received viewDetails for product:', productId);
-    // In real app: this.router.navigate(['/products', productId]);
-    alert(`Navigate to product ${productId} details`);
+    this.log.debug('👁️ Received viewDetails for product:', productId);
+    this.router.navigate(['/products', productId]);
   }
   
-  // Handle favorite toggle from child
-  handleFavoriteToggle(event: { productId: number; isFavorite: boolean }): void {
-    console.log('❤️ [Parent] Received favorite toggle:', event);
+  // Handle favorite toggle from child → persistent wishlist
+  handleFavoriteToggle(event: FavoriteToggleEvent): void {
+    this.log.debug('❤️ Received favorite toggle:', event);
+    const product = this.products().find(p => p.id === event.productId);
+    if (product) {
+      this.wishlist.setFavorite(product, event.isFavorite);
+    }
   }
   
   // Toggle featured product
@@ -152,7 +273,7 @@ export class ProductsComponent {
   // Trigger change detection (manual)
   triggerChangeDetection(): void {
     this.changeDetectionTriggerCount.update(n => n + 1);
-    console.log('🔄 [Parent] Triggered change detection manually');
+    this.log.debug('🔄 Triggered change detection manually');
   }
 }
 
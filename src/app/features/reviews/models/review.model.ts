@@ -0,0 +1,48 @@
+/**
+ * ===========================================
+ * REVIEW TYPES - TypeScript Models
+ * ===========================================
+ */
+
+// 'hidden' reviews stay stored but are removed from public lists and stats
+export type ReviewStatus = 'published' | 'hidden';
+
+export interface Review {
+  readonly id: string;
+  productId: number;
+  userId: string;
+  authorName: string;
+  rating: number;         // 1-5
+  text: string;
+  createdAt: string;      // ISO date string
+  status: ReviewStatus;
+}
+
+// What the client sends - the backend assigns id, date and status
+export type NewReview = Omit<Review, 'id' | 'createdAt' | 'status'>;
+
+// Emitted by ReviewService after a submit or moderation change
+export interface ReviewChange {
+  type: 'created' | 'moderated';
+  productId: number;
+}
+
+// Average + histogram, computed from PUBLISHED reviews only
+export interface RatingSummary {
+  count: number;
+  average: number;                          // 0 when there are no reviews
+  distribution: Record<StarRating, number>; // stars → review count
+}
+
+export type StarRating = 1 | 2 | 3 | 4 | 5;
+
+export const STAR_RATINGS: readonly StarRating[] = [5, 4, 3, 2, 1];
+
+export const REVIEW_TEXT_MAX_LENGTH = 1000;
+
+// Everything the product detail page needs, in one emission
+export interface ProductReviews {
+  reviews: Review[];        // Published only, newest first
+  summary: RatingSummary;
+  myReview?: Review;        // Signed-in user's review, whatever its status
+}
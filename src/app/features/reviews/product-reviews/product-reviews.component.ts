@@ -0,0 +1,73 @@
+import { Component, computed, inject, input, linkedSignal, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { classifyError } from '../../../core/handlers/error-classifier';
+import { AuthService } from '../../../core/services/auth.service';
+import { ReviewService } from '../../../core/services/review.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { distributionPercent } from '../../../core/utils/rating-summary';
+import { ProductRatingEvent } from '../../products/models/product.model';
+import { ProductReviews, RatingSummary, STAR_RATINGS, StarRating } from '../models/review.model';
+import { ReviewFormComponent } from '../review-form/review-form.component';
+import { LocalizedDatePipe } from '../../../shared/pipes/localized-date.pipe';
+import { LocalizedNumberPipe } from '../../../shared/pipes/localized-number.pipe';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Product Reviews - summary, histogram, review list and form
+ * 
+ * Angular Concepts:
+ * - Data comes IN via input() (ProductDetailComponent loads it,
+ *   its header shows the same average)
+ * - Handles (ratingSubmitted) from ReviewFormComponent
+ * - linkedSignal() - the error message resets for a new product
+ * - Guests get a sign-in link instead of the form; login sends
+ *   them back here via returnUrl
+ */
+@Component({
+  selector: 'app-product-reviews',
+  standalone: true,
+  imports: [RouterLink, LocalizedDatePipe, LocalizedNumberPipe, TranslatePipe, ReviewFormComponent],
+  templateUrl: './product-reviews.component.html',
+  styleUrl: './product-reviews.component.scss'
+})
+export class ProductReviewsComponent {
+  private readonly reviewService = inject(ReviewService);
+  private readonly translation = inject(TranslationService);
+
+  readonly isSignedIn = inject(AuthService).isAuthenticated;
+
+  readonly productId = input.required<number>();
+
+  // undefined = still loading, null = could not be loaded
+  readonly data = input<ProductReviews | null>();
+
+  readonly signInParams = computed(() => ({ returnUrl: `/products/${this.productId()}` }));
+
+  readonly starRatings = STAR_RATINGS;
+  readonly stars = [1, 2, 3, 4, 5];
+
+  readonly submitting = signal(false);
+
+  readonly errorMessage = linkedSignal(() => {
+    this.productId();
+    return '';
+  });
+
+  barWidth(summary: RatingSummary, stars: StarRating): number {
+    return distributionPercent(summary, stars);
+  }
+
+  handleRatingSubmitted(event: ProductRatingEvent): void {
+    this.submitting.set(true);
+    this.errorMessage.set('');
+
+    // Success → reviewsChanged$ → parent re-fetches → form becomes "Your review"
+    this.reviewService.submitReview(event).subscribe({
+      next: () => this.submitting.set(false),
+      error: (error: unknown) => {
+        this.submitting.set(false);
+        this.errorMessage.set(classifyError(error, navigator.onLine, this.translation.translator).message);
+      }
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { Component, inject, input, output, signal } from '@angular/core';
+import { ReactiveFormsModule, FormBuilder, Validators } from '@angular/forms';
+import { ProductRatingEvent } from '../../products/models/product.model';
+import { REVIEW_TEXT_MAX_LENGTH } from '../models/review.model';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+
+/**
+ * Review Form - 1-5 star picker + optional text
+ * 
+ * Angular Concepts:
+ * - Presentational component: emits a ProductRatingEvent,
+ *   the PARENT decides how to save it (ReviewService)
+ * - Reactive form with the star rating as a plain number control
+ * - hoverRating signal for the "preview" highlight
+ */
+@Component({
+  selector: 'app-review-form',
+  standalone: true,
+  imports: [ReactiveFormsModule, TranslatePipe],
+  templateUrl: './review-form.component.html',
+  styleUrl: './review-form.component.scss'
+})
+export class ReviewFormComponent {
+  private readonly fb = inject(FormBuilder);
+
+  readonly productId = input.required<number>();
+  readonly submitting = input(false);
+  readonly errorMessage = input('');
+
+  readonly ratingSubmitted = output<ProductRatingEvent>();
+
+  readonly stars = [1, 2, 3, 4, 5];
+  readonly maxLength = REVIEW_TEXT_MAX_LENGTH;
+
+  // 0 = not hovering
+  readonly hoverRating = signal(0);
+
+  readonly reviewForm = this.fb.nonNullable.group({
+    rating: [0, [Validators.required, Validators.min(1), Validators.max(5)]],
+    text: ['', [Validators.maxLength(REVIEW_TEXT_MAX_LENGTH)]]
+  });
+
+  setRating(rating: number): void {
+    this.reviewForm.controls.rating.setValue(rating);
+    this.reviewForm.controls.rating.markAsTouched();
+  }
+
+  isStarActive(star: number): boolean {
+    return star <= (this.hoverRating() || this.reviewForm.controls.rating.value);
+  }
+
+  isFieldInvalid(fieldName: 'rating' | 'text'): boolean {
+    const field = this.reviewForm.controls[fieldName];
+    return field.invalid && field.touched;
+  }
+
+  onSubmit(): void {
+    this.reviewForm.markAllAsTouched();
+    if (this.reviewForm.invalid || this.submitting()) return;
+
+    const { rating, text } = this.reviewForm.getRawValue();
+    this.ratingSubmitted.emit({ productId: this.productId(), rating, text });
+  }
+}
@@ -0,0 +1,72 @@
+import { Component, inject, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { catchError, combineLatest, map, of, startWith, switchMap, tap } from 'rxjs';
+import { ProductCardComponent } from '../products/product-card/product-card.component';
+import { AddToCartEvent, Product } from '../products/models/product.model';
+import { ProductService } from '../../core/services/product.service';
+import { WishlistService } from '../../core/services/wishlist.service';
+import { CartStore } from '../../core/store/cart/cart.store';
+import { FavoriteToggleEvent } from '../wishlist/models/wishlist.model';
+import { TranslatePipe } from '../../shared/pipes/translate.pipe';
+
+/**
+ * Search Results Component
+ * 
+ * Route: /search?q=lamp
+ * 
+ * Angular Concepts:
+ * - queryParamMap + switchMap - new ?q= cancels the previous search
+ * - catalogChanged$ re-runs the search after an admin edit
+ * - Reusing ProductCardComponent (same @Input/@Output contract)
+ */
+@Component({
+  selector: 'app-search-results',
+  standalone: true,
+  imports: [ProductCardComponent, RouterLink, TranslatePipe],
+  templateUrl: './search-results.component.html',
+  styleUrl: './search-results.component.scss'
+})
+export class SearchResultsComponent {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly productService = inject(ProductService);
+  private readonly cartStore = inject(CartStore);
+  private readonly wishlist = inject(WishlistService);
+
+  readonly query = toSignal(
+    this.route.queryParamMap.pipe(map(params => params.get('q')?.trim() ?? '')),
+    { initialValue: '' }
+  );
+
+  readonly isLoading = signal(false);
+
+  readonly results = toSignal(
+    combineLatest([
+      this.route.queryParamMap.pipe(map(params => params.get('q')?.trim() ?? '')),
+      this.productService.catalogChanged$.pipe(startWith(null))
+    ]).pipe(
+      tap(() => this.isLoading.set(true)),
+      switchMap(([q]) => (q ? this.productService.searchProducts(q) : of([])).pipe(
+        catchError(() => of([] as Product[]))
+      )),
+      tap(() => this.isLoading.set(false))
+    ),
+    { initialValue: [] as Product[] }
+  );
+
+  handleAddToCart(event: AddToCartEvent): void {
+    this.cartStore.add(event.product, event.quantity);
+  }
+
+  handleFavoriteToggle(event: FavoriteToggleEvent): void {
+    const product = this.results().find(p => p.id === event.productId);
+    if (product) {
+      this.wishlist.setFavorite(product, event.isFavorite);
+    }
+  }
+
+  handleViewDetails(productId: number): void {
+    this.router.navigate(['/products', productId]);
+  }
+}
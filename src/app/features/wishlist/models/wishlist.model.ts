@@ -0,0 +1,18 @@
+import { Product } from '../../products/models/product.model';
+
+/**
+ * ===========================================
+ * WISHLIST TYPES - TypeScript Models
+ * ===========================================
+ */
+
+export interface WishlistItem {
+  readonly product: Product;    // Snapshot - refreshed from the catalog on move to cart
+  readonly addedAt: string;     // ISO date string
+}
+
+// Payload of ProductCardComponent's (favoriteToggled) output
+export interface FavoriteToggleEvent {
+  productId: number;
+  isFavorite: boolean;
+}
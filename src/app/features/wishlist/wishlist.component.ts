@@ -0,0 +1,61 @@
+import { Component, inject, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { NotificationService } from '../../core/services/notification.service';
+import { TranslationService } from '../../core/services/translation.service';
+import { WishlistService } from '../../core/services/wishlist.service';
+import { Product } from '../products/models/product.model';
+import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { LocalizedDatePipe } from '../../shared/pipes/localized-date.pipe';
+import { TranslatePipe } from '../../shared/pipes/translate.pipe';
+
+/**
+ * Wishlist Component
+ * 
+ * Angular Concepts:
+ * - Shared state via an injected root service (WishlistService)
+ * - Same signals drive the header count and every card's heart
+ * - Public route: guests keep a local list that merges on login
+ * - Stock shown is the saved snapshot; "Move to Cart" checks live stock
+ */
+@Component({
+  selector: 'app-wishlist',
+  standalone: true,
+  imports: [RouterLink, LocalizedDatePipe, MoneyPipe, TranslatePipe],
+  templateUrl: './wishlist.component.html',
+  styleUrl: './wishlist.component.scss'
+})
+export class WishlistComponent {
+  private readonly wishlist = inject(WishlistService);
+  private readonly notifications = inject(NotificationService);
+  private readonly translation = inject(TranslationService);
+
+  readonly items = this.wishlist.items;
+
+  readonly count = this.wishlist.count;
+
+  readonly busyId = signal<number | null>(null);
+
+  moveToCart(product: Product): void {
+    this.busyId.set(product.id);
+
+    this.wishlist.moveToCart(product.id).subscribe({
+      next: moved => {
+        this.busyId.set(null);
+        if (moved) this.notifications.success(this.translation.translate('wishlist.moved', { name: product.name }));
+        else this.notifications.warning(this.translation.translate('wishlist.unavailable', { name: product.name }));
+      },
+      error: () => {
+        this.busyId.set(null);
+        this.notifications.error(this.translation.translate('wishlist.moveFailed'));
+      }
+    });
+  }
+
+  removeItem(productId: number): void {
+    this.wishlist.remove(productId);
+  }
+
+  clearWishlist(): void {
+    this.wishlist.clear();
+  }
+}
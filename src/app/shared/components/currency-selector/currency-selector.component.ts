@@ -0,0 +1,29 @@
+import { Component, inject } from '@angular/core';
+import { CurrencyService } from '../../../core/services/currency.service';
+import { CurrencyCode } from '../../../core/utils/money';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Currency Selector Component
+ *
+ * Angular Concepts:
+ * - Reads and writes a service signal - every `money` pipe in the
+ *   app re-renders when the display currency changes
+ */
+@Component({
+  selector: 'app-currency-selector',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './currency-selector.component.html',
+  styleUrl: './currency-selector.component.scss'
+})
+export class CurrencySelectorComponent {
+  private readonly currencyService = inject(CurrencyService);
+
+  readonly currencies = this.currencyService.currencies;
+  readonly currency = this.currencyService.currency;
+
+  onChange(event: Event): void {
+    this.currencyService.setCurrency((event.target as HTMLSelectElement).value as CurrencyCode);
+  }
+}
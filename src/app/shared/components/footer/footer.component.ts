@@ -1,15 +1,22 @@
-import { Component } from '@angular/core';
+import { Component, inject } from '@angular/core';
+import { AppUpdateService } from '../../../core/services/app-update.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
 
 /**
  * Footer Component
  * 
  * Angular Concepts:
  * - Simple presentational component
+ * - Text through the `t` pipe (follows the active language)
+ * - Shows the running app version (handy in bug reports)
  */
 @Component({
   selector: 'app-footer',
   standalone: true,
+  imports: [TranslatePipe],
   templateUrl: './footer.component.html',
   styleUrl: './footer.component.scss'
 })
-export class FooterComponent {}
+export class FooterComponent {
+  readonly version = inject(AppUpdateService).version;
+}
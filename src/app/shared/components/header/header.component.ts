@@ -1,5 +1,14 @@
-import { Component, signal, computed } from '@angular/core';
-import { RouterLink, RouterLinkActive } from '@angular/router';
+import { Component, computed, inject } from '@angular/core';
+import { Router, RouterLink, RouterLinkActive } from '@angular/router';
+import { AuthService } from '../../../core/services/auth.service';
+import { TranslationService } from '../../../core/services/translation.service';
+import { WishlistService } from '../../../core/services/wishlist.service';
+import { CartStore } from '../../../core/store/cart/cart.store';
+import { HasRoleDirective } from '../../directives/has-role.directive';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { CurrencySelectorComponent } from '../currency-selector/currency-selector.component';
+import { LanguageSelectorComponent } from '../language-selector/language-selector.component';
+import { SearchBoxComponent } from '../search-box/search-box.component';
 
 /**
  * ===========================================
@@ -25,22 +34,38 @@ import { RouterLink, RouterLinkActive } from '@angular/router';
 @Component({
   selector: 'app-header',
   standalone: true,
-  imports: [RouterLink, RouterLinkActive],
+  imports: [
+    RouterLink,
+    RouterLinkActive,
+    HasRoleDirective,
+    SearchBoxComponent,
+    CurrencySelectorComponent,
+    LanguageSelectorComponent,
+    TranslatePipe
+  ],
   templateUrl: './header.component.html',
   styleUrl: './header.component.scss'
 })
 export class HeaderComponent {
+  private readonly router = inject(Router);
+  private readonly cartStore = inject(CartStore);
+  private readonly authService = inject(AuthService);
+  private readonly wishlist = inject(WishlistService);
+  private readonly translation = inject(TranslationService);
   
   // ========================================
-  // 1. SIGNAL - Writable reactive value
+  // 1. SIGNAL - Reactive value
   // ========================================
   // signal(initialValue) creates a getter function
   // Reading: this.cartCount() - call it like a function
-  // Writing: this.cartCount.set(5) or this.cartCount.update(v => v + 1)
+  // Writing happens in the owning service (CartStore, AuthService);
+  // the header only READS their signals
   
-  readonly cartCount = signal(0);
-  readonly isLoggedIn = signal(false);
-  readonly userName = signal('Guest');
+  // Read-only signals shared with every consumer
+  readonly cartCount = this.cartStore.itemCount;
+  readonly wishlistCount = this.wishlist.count;
+  readonly isLoggedIn = this.authService.isAuthenticated;
+  readonly userName = computed(() => this.authService.currentUser()?.name ?? 'Guest');
   
   // ========================================
   // 2. COMPUTED - Derived read-only value
@@ -49,51 +74,35 @@ export class HeaderComponent {
   // It's LAZY - only calculates when read
   // It's MEMOIZED - caches result until dependencies change
   
-  // Computed: depends on cartCount
-  readonly cartLabel = computed(() => {
-    const count = this.cartCount();
-    if (count === 0) return 'Cart (Empty)';
-    if (count === 1) return 'Cart (1 item)';
-    return `Cart (${count} items)`;
-  });
+  // Computed: depends on cartCount AND the language -
+  // the plural form ("1 item" / "3 items") comes from the dictionary
+  readonly cartLabel = computed(() =>
+    this.translation.translate('nav.cart', { count: this.cartCount() })
+  );
   
-  // Computed: depends on isLoggedIn and userName
+  // Computed: depends on isLoggedIn, userName and the language
   readonly welcomeMessage = computed(() => {
     if (this.isLoggedIn()) {
-      return `Welcome back, ${this.userName()}!`;
+      return this.translation.translate('header.welcomeBack', { name: this.userName() });
     }
-    return 'Welcome, Guest!';
+    return this.translation.translate('header.welcomeGuest');
   });
   
+  // Computed: highest role, shown as a badge for staff/admin
+  readonly roleLabel = computed(() =>
+    this.translation.translate(this.authService.roles().includes('admin') ? 'header.roleAdmin' : 'header.roleStaff')
+  );
+  
   // Computed: depends on cartCount (boolean derived value)
   readonly hasItemsInCart = computed(() => this.cartCount() > 0);
   
   // ========================================
-  // UPDATING SIGNALS
+  // ACTIONS - Delegate to the owning services
   // ========================================
   
-  // Method 1: set() - Replace the entire value
-  login(): void {
-    this.isLoggedIn.set(true);
-    this.userName.set('John Doe');
-  }
-  
   logout(): void {
-    this.isLoggedIn.set(false);
-    this.userName.set('Guest');
-    this.cartCount.set(0); // Clear cart on logout
-  }
-  
-  // Method 2: update() - Transform based on current value
-  addToCart(): void {
-    this.cartCount.update(count => count + 1);
-  }
-  
-  removeFromCart(): void {
-    this.cartCount.update(count => Math.max(0, count - 1));
-  }
-  
-  clearCart(): void {
-    this.cartCount.set(0);
+    this.authService.logout();
+    this.cartStore.clear(); // Clear cart on logout
+    this.router.navigateByUrl('/home');  // Leave any guarded page
   }
 }
@@ -0,0 +1,30 @@
+import { Component, inject } from '@angular/core';
+import { TranslationService } from '../../../core/services/translation.service';
+import { LanguageCode } from '../../../core/i18n/languages';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Language Selector Component
+ *
+ * Angular Concepts:
+ * - Writes the language signal - every `t` pipe, title and
+ *   locale-aware pipe updates without a reload, and <html dir>
+ *   flips the layout for right-to-left languages
+ */
+@Component({
+  selector: 'app-language-selector',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './language-selector.component.html',
+  styleUrl: './language-selector.component.scss'
+})
+export class LanguageSelectorComponent {
+  private readonly translation = inject(TranslationService);
+
+  readonly languages = this.translation.languages;
+  readonly language = this.translation.language;
+
+  onChange(event: Event): void {
+    void this.translation.setLanguage((event.target as HTMLSelectElement).value as LanguageCode);
+  }
+}
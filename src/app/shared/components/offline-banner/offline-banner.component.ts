@@ -0,0 +1,28 @@
+import { Component, inject } from '@angular/core';
+import { CatalogCacheService } from '../../../core/services/catalog-cache.service';
+import { ConnectivityService } from '../../../core/services/connectivity.service';
+import { CartSyncService } from '../../../core/store/cart/cart-sync.service';
+import { LocalizedDatePipe } from '../../pipes/localized-date.pipe';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Offline Banner Component
+ *
+ * Angular Concepts:
+ * - Driven entirely by service signals - appears the moment the
+ *   browser goes offline and disappears on reconnect
+ * - Tells the user how old the cached catalog is and how many cart
+ *   changes are waiting to sync
+ */
+@Component({
+  selector: 'app-offline-banner',
+  standalone: true,
+  imports: [TranslatePipe, LocalizedDatePipe],
+  templateUrl: './offline-banner.component.html',
+  styleUrl: './offline-banner.component.scss'
+})
+export class OfflineBannerComponent {
+  readonly online = inject(ConnectivityService).online;
+  readonly savedAt = inject(CatalogCacheService).savedAt;
+  readonly pendingCount = inject(CartSyncService).pendingCount;
+}
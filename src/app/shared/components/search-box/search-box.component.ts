@@ -0,0 +1,151 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ReactiveFormsModule, FormControl } from '@angular/forms';
+import { Router } from '@angular/router';
+import { catchError, debounceTime, distinctUntilChanged, map, of, switchMap, tap } from 'rxjs';
+import { Product } from '../../../features/products/models/product.model';
+import { ProductService } from '../../../core/services/product.service';
+import { HighlightPipe } from '../../pipes/highlight.pipe';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+// Fewer characters than this → no request
+const MIN_QUERY_LENGTH = 2;
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * ===========================================
+ * TYPEAHEAD SEARCH - RxJS operators + Signals
+ * ===========================================
+ *
+ * The classic typeahead pipeline:
+ *
+ *   keystrokes ──► debounceTime(300)      wait until typing pauses
+ *              ──► distinctUntilChanged() skip "abc" → "abc"
+ *              ──► switchMap(search)      CANCEL the previous request
+ *              ──► toSignal()             render suggestions
+ *
+ * Why switchMap?
+ * --------------
+ * Typing "lam" then "lamp" fires two requests. If "lam" answers
+ * last, mergeMap would show stale results. switchMap unsubscribes
+ * from "lam" as soon as "lamp" starts.
+ *
+ * Keyboard:
+ * - ArrowDown / ArrowUp → move through suggestions
+ * - Enter               → open suggestion (or full results page)
+ * - Escape              → close the list
+ */
+@Component({
+  selector: 'app-search-box',
+  standalone: true,
+  imports: [ReactiveFormsModule, HighlightPipe, MoneyPipe, TranslatePipe],
+  templateUrl: './search-box.component.html',
+  styleUrl: './search-box.component.scss'
+})
+export class SearchBoxComponent {
+  private readonly productService = inject(ProductService);
+  private readonly router = inject(Router);
+
+  readonly queryControl = new FormControl('', { nonNullable: true });
+
+  readonly isLoading = signal(false);
+  readonly isOpen = signal(false);
+  readonly activeIndex = signal(-1);
+
+  // The query the current suggestions belong to (used for highlighting)
+  readonly searchedQuery = signal('');
+
+  readonly suggestions = toSignal(
+    this.queryControl.valueChanges.pipe(
+      map(value => value.trim()),
+      debounceTime(300),
+      distinctUntilChanged(),
+      tap(() => this.activeIndex.set(-1)),
+      switchMap(query => {
+        if (query.length < MIN_QUERY_LENGTH) {
+          this.isLoading.set(false);
+          return of({ query, products: [] as Product[] });
+        }
+        this.isLoading.set(true);
+        return this.productService.searchProducts(query).pipe(
+          map(products => ({ query, products: products.slice(0, MAX_SUGGESTIONS) })),
+          catchError(() => of({ query, products: [] as Product[] }))  // Suggestions are best-effort
+        );
+      }),
+      tap(({ query }) => {
+        this.isLoading.set(false);
+        this.searchedQuery.set(query);
+        this.isOpen.set(true);
+      }),
+      map(result => result.products)
+    ),
+    { initialValue: [] as Product[] }
+  );
+
+  readonly showDropdown = computed(() =>
+    this.isOpen() && this.searchedQuery().length >= MIN_QUERY_LENGTH
+  );
+
+  readonly activeOptionId = computed(() =>
+    this.activeIndex() >= 0 ? `search-option-${this.activeIndex()}` : null
+  );
+
+  // ========================================
+  // KEYBOARD NAVIGATION
+  // ========================================
+  onKeydown(event: KeyboardEvent): void {
+    const count = this.suggestions().length;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.isOpen.set(true);
+        if (count) this.activeIndex.update(i => (i + 1) % count);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (count) this.activeIndex.update(i => (i <= 0 ? count - 1 : i - 1));
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const active = this.suggestions()[this.activeIndex()];
+        if (active) {
+          this.openProduct(active);
+        } else {
+          this.showAllResults();
+        }
+        break;
+      }
+      case 'Escape':
+        this.close();
+        break;
+    }
+  }
+
+  // ========================================
+  // ACTIONS
+  // ========================================
+  openProduct(product: Product): void {
+    this.close();
+    this.router.navigate(['/products', product.id]);
+  }
+
+  showAllResults(): void {
+    const q = this.queryControl.value.trim();
+    if (!q) return;
+
+    this.close();
+    this.router.navigate(['/search'], { queryParams: { q } });
+  }
+
+  close(): void {
+    this.isOpen.set(false);
+    this.activeIndex.set(-1);
+  }
+
+  // Delay so a click on a suggestion lands before the list disappears
+  onBlur(): void {
+    setTimeout(() => this.close(), 150);
+  }
+}
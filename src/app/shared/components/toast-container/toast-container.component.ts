@@ -0,0 +1,33 @@
+import { Component, inject } from '@angular/core';
+import { NotificationService } from '../../../core/services/notification.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Toast Container - renders NotificationService toasts
+ * 
+ * Placed ONCE in app.html. aria-live lets screen readers
+ * announce new toasts without moving focus.
+ */
+@Component({
+  selector: 'app-toast-container',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './toast-container.component.html',
+  styleUrl: './toast-container.component.scss'
+})
+export class ToastContainerComponent {
+  private readonly notificationService = inject(NotificationService);
+
+  readonly notifications = this.notificationService.notifications;
+
+  readonly icons = {
+    success: '✓',
+    info: 'ℹ',
+    warning: '⚠',
+    error: '✕'
+  } as const;
+
+  dismiss(id: number): void {
+    this.notificationService.dismiss(id);
+  }
+}
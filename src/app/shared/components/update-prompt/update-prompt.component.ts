@@ -0,0 +1,34 @@
+import { Component, inject } from '@angular/core';
+import { AppUpdateService } from '../../../core/services/app-update.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Update Prompt Component
+ *
+ * Angular Concepts:
+ * - Shown while AppUpdateService.available() holds a downloaded
+ *   version; "Reload" activates it, "Later" hides it until the next one
+ * - role="alertdialog" is deliberately avoided: the prompt must not
+ *   steal focus from whatever the user is doing (e.g. checkout)
+ */
+@Component({
+  selector: 'app-update-prompt',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './update-prompt.component.html',
+  styleUrl: './update-prompt.component.scss'
+})
+export class UpdatePromptComponent {
+  private readonly appUpdate = inject(AppUpdateService);
+
+  readonly available = this.appUpdate.available;
+  readonly reloading = this.appUpdate.reloading;
+
+  reload(): void {
+    void this.appUpdate.activateAndReload();
+  }
+
+  dismiss(): void {
+    this.appUpdate.dismiss();
+  }
+}
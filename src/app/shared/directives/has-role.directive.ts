@@ -0,0 +1,51 @@
+import { Directive, TemplateRef, ViewContainerRef, effect, inject, input } from '@angular/core';
+import { UserRole } from '../../features/auth/models/user.model';
+import { AuthService } from '../../core/services/auth.service';
+
+/**
+ * ===========================================
+ * STRUCTURAL DIRECTIVE - *appHasRole
+ * ===========================================
+ *
+ * Adds/removes a template depending on the user's roles,
+ * just like *ngIf but driven by AuthService.
+ *
+ * Usage:
+ *   <a *appHasRole="'admin'" routerLink="/admin">Admin</a>
+ *   <button *appHasRole="['staff', 'admin']">Edit</button>
+ *
+ * The `*` is sugar for:
+ *   <ng-template [appHasRole]="'admin'"> ... </ng-template>
+ *
+ * NOTE: Hiding UI is NOT security - always protect the route
+ * with roleGuard / roleMatchGuard as well.
+ */
+@Directive({
+  selector: '[appHasRole]',
+  standalone: true
+})
+export class HasRoleDirective {
+  private readonly templateRef = inject(TemplateRef);
+  private readonly viewContainer = inject(ViewContainerRef);
+  private readonly authService = inject(AuthService);
+
+  readonly appHasRole = input.required<UserRole | UserRole[]>();
+
+  private hasView = false;
+
+  constructor() {
+    // Re-runs when the required roles OR the signed-in user change
+    effect(() => {
+      const required = this.appHasRole();
+      const allowed = this.authService.hasAnyRole(Array.isArray(required) ? required : [required]);
+
+      if (allowed && !this.hasView) {
+        this.viewContainer.createEmbeddedView(this.templateRef);
+        this.hasView = true;
+      } else if (!allowed && this.hasView) {
+        this.viewContainer.clear();
+        this.hasView = false;
+      }
+    });
+  }
+}
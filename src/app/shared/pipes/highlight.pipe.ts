@@ -0,0 +1,52 @@
+import { Pipe, PipeTransform } from '@angular/core';
+
+/**
+ * ===========================================
+ * HIGHLIGHT PIPE - Wrap matched terms in <mark>
+ * ===========================================
+ *
+ * Usage (bind to innerHTML, NOT interpolation):
+ *   <span [innerHTML]="product.name | highlight: query"></span>
+ *
+ * Safety:
+ * -------
+ * Matches are found on the RAW text and every piece is HTML-escaped
+ * before <mark> tags are added, so product data can never inject markup. Angular's sanitizer
+ * still runs on [innerHTML] and keeps <mark>.
+ *
+ * Pure pipe → only re-runs when text or query change.
+ */
+@Pipe({
+  name: 'highlight',
+  standalone: true
+})
+export class HighlightPipe implements PipeTransform {
+  transform(text: string | null | undefined, query: string | null | undefined): string {
+    const value = text ?? '';
+    const terms = (query ?? '').trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+
+    if (terms.length === 0) return escapeHtml(value);
+
+    // Longest first so "head" doesn't split a "headphones" match
+    terms.sort((a, b) => b.length - a.length);
+
+    // split() with a capture group puts the matches at ODD indexes
+    return value
+      .split(new RegExp(`(${terms.join('|')})`, 'gi'))
+      .map((part, i) => i % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part))
+      .join('');
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
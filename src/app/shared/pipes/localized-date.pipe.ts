@@ -0,0 +1,28 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { formatDate } from '@angular/common';
+import { TranslationService } from '../../core/services/translation.service';
+
+/**
+ * ===========================================
+ * LOCALIZED DATE PIPE - DatePipe that follows the language
+ * ===========================================
+ *
+ * Angular's DatePipe formats for the build-time LOCALE_ID. This one
+ * uses the ACTIVE locale, so switching language re-formats dates:
+ *   {{ order.createdAt | localDate: 'mediumDate' }}   Sep 2, 2025 / ٢‏/٩‏/٢٠٢٥
+ *
+ * Same format strings as DatePipe. Impure: reads the locale signal.
+ */
+@Pipe({
+  name: 'localDate',
+  standalone: true,
+  pure: false
+})
+export class LocalizedDatePipe implements PipeTransform {
+  private readonly translation = inject(TranslationService);
+
+  transform(value: string | number | Date | null | undefined, format = 'mediumDate'): string {
+    if (value === null || value === undefined || value === '') return '';
+    return formatDate(value, format, this.translation.locale());
+  }
+}
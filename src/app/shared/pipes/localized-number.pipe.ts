@@ -0,0 +1,41 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { formatNumber, formatPercent } from '@angular/common';
+import { TranslationService } from '../../core/services/translation.service';
+
+/**
+ * ===========================================
+ * LOCALIZED NUMBER PIPES - DecimalPipe / PercentPipe for the active locale
+ * ===========================================
+ *
+ *   {{ summary.average | localNumber: '1.1-1' }}   4.5 / ٤٫٥
+ *   {{ taxRate | localPercent }}                   13% / ١٣٪؜
+ *
+ * Same digitsInfo strings as Angular's pipes. Impure: reads the locale signal.
+ */
+@Pipe({
+  name: 'localNumber',
+  standalone: true,
+  pure: false
+})
+export class LocalizedNumberPipe implements PipeTransform {
+  private readonly translation = inject(TranslationService);
+
+  transform(value: number | null | undefined, digitsInfo?: string): string {
+    if (value === null || value === undefined) return '';
+    return formatNumber(value, this.translation.locale(), digitsInfo);
+  }
+}
+
+@Pipe({
+  name: 'localPercent',
+  standalone: true,
+  pure: false
+})
+export class LocalizedPercentPipe implements PipeTransform {
+  private readonly translation = inject(TranslationService);
+
+  transform(value: number | null | undefined, digitsInfo?: string): string {
+    if (value === null || value === undefined) return '';
+    return formatPercent(value, this.translation.locale(), digitsInfo);
+  }
+}
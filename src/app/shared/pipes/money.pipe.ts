@@ -0,0 +1,31 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { CurrencyService } from '../../core/services/currency.service';
+import { CurrencyCode, Money } from '../../core/utils/money';
+
+/**
+ * ===========================================
+ * MONEY PIPE - Convert + format for display
+ * ===========================================
+ *
+ * Usage:
+ *   {{ product.price | money }}          catalog decimal → display currency
+ *   {{ pricing.total | money }}          Money → display currency
+ *   {{ order.total | money: 'USD' }}     pinned to the charged currency
+ *
+ * Impure on purpose: the output also depends on the display currency
+ * and locale SIGNALS, which a pure pipe would never re-read. Formatters
+ * are cached in formatMoney(), so re-running is cheap.
+ */
+@Pipe({
+  name: 'money',
+  standalone: true,
+  pure: false
+})
+export class MoneyPipe implements PipeTransform {
+  private readonly currency = inject(CurrencyService);
+
+  transform(value: Money | number | null | undefined, currency?: CurrencyCode): string {
+    if (value === null || value === undefined) return '';
+    return this.currency.format(value, currency);
+  }
+}
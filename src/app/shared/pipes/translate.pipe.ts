@@ -0,0 +1,30 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { TranslationKey } from '../../core/i18n/en';
+import { TranslationParams } from '../../core/i18n/translate';
+import { TranslationService } from '../../core/services/translation.service';
+
+/**
+ * ===========================================
+ * TRANSLATE PIPE - Key → text in the active language
+ * ===========================================
+ *
+ * Usage:
+ *   {{ 'cart.title' | t }}
+ *   {{ 'nav.cart' | t: { count: cartCount() } }}     plural form picked from count
+ *   [placeholder]="'login.emailPlaceholder' | t"
+ *
+ * Impure on purpose: the text depends on the language SIGNAL,
+ * which a pure pipe would never re-read after the first render.
+ */
+@Pipe({
+  name: 't',
+  standalone: true,
+  pure: false
+})
+export class TranslatePipe implements PipeTransform {
+  private readonly translation = inject(TranslationService);
+
+  transform(key: TranslationKey, params?: TranslationParams): string {
+    return this.translation.translate(key, params);
+  }
+}
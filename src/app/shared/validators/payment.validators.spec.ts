@@ -0,0 +1,30 @@
+import { FormControl } from '@angular/forms';
+import { cardExpiryValidator, cardNumberValidator, cvcValidator, passesLuhn } from './payment.validators';
+
+describe('payment validators', () => {
+  it('checks the Luhn checksum', () => {
+    expect(passesLuhn('4242424242424242')).toBe(true);
+    expect(passesLuhn('4242424242424241')).toBe(false);
+  });
+
+  it('accepts spaced card numbers and rejects bad ones', () => {
+    expect(cardNumberValidator(new FormControl('4242 4242 4242 4242'))).toBeNull();
+    expect(cardNumberValidator(new FormControl('1234'))).toEqual({ cardNumber: true });
+    expect(cardNumberValidator(new FormControl(''))).toBeNull();
+  });
+
+  it('treats a card as valid through the end of its expiry month', () => {
+    const validator = cardExpiryValidator(() => new Date(2026, 5, 15));   // June 2026
+
+    expect(validator(new FormControl('06/26'))).toBeNull();
+    expect(validator(new FormControl('05/26'))).toEqual({ expired: true });
+    expect(validator(new FormControl('13/27'))).toEqual({ expiryFormat: true });
+    expect(validator(new FormControl('0627'))).toEqual({ expiryFormat: true });
+  });
+
+  it('accepts 3 or 4 digit CVCs', () => {
+    expect(cvcValidator(new FormControl('123'))).toBeNull();
+    expect(cvcValidator(new FormControl('1234'))).toBeNull();
+    expect(cvcValidator(new FormControl('12a'))).toEqual({ cvc: true });
+  });
+});
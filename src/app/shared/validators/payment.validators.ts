@@ -0,0 +1,73 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+/**
+ * ===========================================
+ * PAYMENT VALIDATORS - Card number, expiry, CVC
+ * ===========================================
+ *
+ * Plain ValidatorFn values, used like the built-in Validators:
+ *   number: ['', [Validators.required, cardNumberValidator]]
+ *
+ * Empty values pass - combine with Validators.required.
+ */
+
+// Spaces and dashes are allowed while typing ("4242 4242 ...")
+export function normalizeCardNumber(value: string): string {
+  return value.replace(/[\s-]/g, '');
+}
+
+// Luhn checksum: double every second digit from the right
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i]);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+}
+
+export const cardNumberValidator: ValidatorFn = (control: AbstractControl): ValidationErrors | null => {
+  if (!control.value) return null;
+
+  const digits = normalizeCardNumber(String(control.value));
+  if (!/^\d{12,19}$/.test(digits) || !passesLuhn(digits)) {
+    return { cardNumber: true };
+  }
+  return null;
+};
+
+/**
+ * Expiry as MM/YY. A card is valid THROUGH the end of its expiry month.
+ * `now` is injectable for tests.
+ */
+export function cardExpiryValidator(now: () => Date = () => new Date()): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (!control.value) return null;
+
+    const match = /^(\d{2})\s*\/\s*(\d{2})$/.exec(String(control.value));
+    const month = match ? Number(match[1]) : 0;
+    if (!match || month < 1 || month > 12) {
+      return { expiryFormat: true };
+    }
+
+    const year = 2000 + Number(match[2]);
+    const today = now();
+    const expired = year < today.getFullYear() ||
+      (year === today.getFullYear() && month < today.getMonth() + 1);
+
+    return expired ? { expired: true } : null;
+  };
+}
+
+export const cvcValidator: ValidatorFn = (control: AbstractControl): ValidationErrors | null => {
+  if (!control.value) return null;
+  return /^\d{3,4}$/.test(String(control.value)) ? null : { cvc: true };
+};